@@ -1,14 +1,38 @@
 const fs = require('fs-extra');
 const path = require('path');
+require('./pipeline/register');
+const { buildCatalog } = require('./pipeline/buildCatalog.ts');
+const { summarizeReport } = require('./pipeline/normalize.ts');
+
+const DATASET_FILE = 'processed_medicine_data.json';
 
 // Ensure dist directory exists
 fs.ensureDirSync('dist');
 
+// Validate the medicine dataset and shard it so the app never downloads the full file
+let catalogSplit = false;
+try {
+    const { version, report } = buildCatalog({
+        source: path.join('public', DATASET_FILE),
+        outDir: path.join('dist', 'catalog'),
+        reportFile: 'data-report.json',
+    });
+    console.log(`Built catalog version ${version}`);
+    console.log(summarizeReport(report));
+    catalogSplit = true;
+} catch (e) {
+    console.warn('Could not split the medicine dataset, shipping it unsplit:', e.message);
+}
+
 // Copy public files to dist
 fs.copySync('public', 'dist', {
     filter: (src) => {
         // Don't copy the bundle.js as webpack will generate it
-        return !src.endsWith('bundle.js');
+        if (src.endsWith('bundle.js')) {
+            return false;
+        }
+        // The shards replace the full dataset once the split succeeded
+        return !(catalogSplit && path.basename(src) === DATASET_FILE);
     }
 });
 
@@ -2,59 +2,103 @@ import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import './src/styles.css';
 
-// Define interfaces for type safety
-interface Medicine {
-  id: number;
-  name: string;
-  uses: string[];
-  sideEffects: string[];
-  substitutes: string[];
-  "Chemical Class": string;
-  "Habit Forming": string;
-  "Therapeutic Class": string;
-  "Action Class": string;
-}
-
-interface Reminder {
-  id: number;
-  medicineName: string;
-  time: string;
-  medicineId?: number;
-  lastTriggered?: string;
-}
-
-interface HomePageProps {
-  setCurrentPage: (page: 'home' | 'findMedicine' | 'myMedications' | 'medicineDetail') => void;
-}
+import { activeAlerts, applyDoseActionById, createLogEntry, DoseAction, findDueSnoozes, findMissedDoses, newlyTakenReminderId, nextSnoozeTime, recordFiredDoses, SKIP_REASONS, skipReasonLabel, SNOOZE_OPTIONS_MINUTES } from './src/adherence';
+import AdherenceHistory from './src/AdherenceHistory';
+import BrowsePage from './src/BrowsePage';
+import { CatalogProvider, useCatalog, useMedicine } from './src/catalog';
+import Combobox, { HighlightMatch, LiveRegion, useCombobox } from './src/Combobox';
+import ComparePage, { MAX_COMPARED_MEDICINES } from './src/ComparePage';
+import ConnectionStatus from './src/ConnectionStatus';
+import Dialog from './src/Dialog';
+import ExportImportDialog from './src/ExportImportDialog';
+import FacetSidebar from './src/FacetSidebar';
+import { formatDate, formatTime, MessageKey, translateTerm } from './src/i18n';
+import { checkCandidate, highestSeverity, InteractionWarning, useInteractionReport } from './src/interactions';
+import InteractionWarnings, { SEVERITY_STYLES } from './src/InteractionWarnings';
+import { consumeDose, findRefillAlerts, recordRefill, RefillAlert, refillMessage, snoozeRefillAlert } from './src/inventory';
+import { LanguageSelect, LocaleProvider, useLocale } from './src/locale';
+import MedicationTimetable from './src/MedicationTimetable';
+import MedicineFactSheet from './src/MedicineFactSheet';
+import { FacetFilters, filtersFromParams, filtersToParams, hasActiveFilters, toggleFacetValue } from './src/facets';
+import { doseMessage, notificationPermission, registerServiceWorker, requestNotificationPermission, scheduleDoseNotifications, showDoseNotifications, subscribeToDoseActions, takeDoseActionFromUrl } from './src/notifications';
+import { createDefaultProfile, doseLogFor, doseOwnerName, readActiveProfileId, remindersFor, toggleFavourite, writeActiveProfileId } from './src/profiles';
+import ProfilesPage from './src/ProfilesPage';
+import { Link, navigate, parseRoute, paths, useLocation } from './src/router';
+import { activeReminders, createDefaultSchedule, describeSchedule, findDueDoses, nextDoseTime, nextOccurrence, validateSchedule } from './src/schedule';
+import ReminderInventory from './src/ReminderInventory';
+import ReminderSideEffects from './src/ReminderSideEffects';
+import ScheduleEditor from './src/ScheduleEditor';
+import { screenMedicine } from './src/screening';
+import SideEffectExplorerPage from './src/SideEffectExplorerPage';
+import { StoredState } from './src/storage';
+import SymptomRecommenderPage from './src/SymptomRecommenderPage';
+import SyncPanel from './src/SyncPanel';
+import { groupByPartOfDay } from './src/today';
+import TodayTimeline from './src/TodayTimeline';
+import { useMedicineSearch } from './src/useMedicineSearch';
+import { useStoredCollection, useStoredState } from './src/useStoredState';
+import { useSync } from './src/useSync';
+import { DoseLogEntry, Medicine, MedicineSummary, Profile, Reminder, ReminderSchedule } from './src/types';
 
+// Define interfaces for type safety
 interface FindMedicinePageProps {
-  onMedicineSelect: (medicine: Medicine) => void;
+  profile: Profile;
+  onMedicineSelect: (medicine: MedicineSummary) => void;
 }
 
 interface MyMedicationsPageProps {
+  view: 'reminders' | 'history';
+  profile: Profile;
   reminders: Reminder[];
   setReminders: React.Dispatch<React.SetStateAction<Reminder[]>>;
+  doseLog: DoseLogEntry[];
+  storedState: StoredState;
+  onImport: (state: StoredState) => void;
+  onNotificationsEnabled: () => void;
 }
 
 interface MedicineDetailPageProps {
-  medicine: Medicine;
+  medicineId: number;
+  profile: Profile;
+  isFavourite: boolean;
+  onToggleFavourite: () => void;
+}
+
+interface HomePageProps {
+  profile: Profile;
+  reminders: Reminder[];
+  doseLog: DoseLogEntry[];
+  onDoseAction: (entryId: string, action: DoseAction) => void;
 }
 
 interface NotificationModalProps {
-  message: string;
+  alerts: DoseLogEntry[];
+  refillAlerts: RefillAlert[];
+  profiles: Profile[];
   show: boolean;
+  onAction: (entryId: string, action: DoseAction) => void;
+  onRefill: (reminderId: number) => void;
+  onSnoozeRefill: (reminderId: number) => void;
   onClose: () => void;
 }
 
-// Helper function to format time for reminders
-const formatTime = (date: Date) => {
-  let hours = date.getHours();
-  const minutes = date.getMinutes();
-  const ampm = hours >= 12 ? 'PM' : 'AM';
-  hours = hours % 12;
-  hours = hours ? hours : 12; // the hour '0' should be '12'
-  const minutesStr = minutes < 10 ? '0' + minutes : minutes;
-  return `${hours}:${minutesStr} ${ampm}`;
+// Doses that fire this late (sleeping laptop, throttled tab) still alert
+const DOSE_GRACE_PERIOD_MS = 5 * 60 * 1000;
+// Re-check at least this often so clock changes and sleep are picked up
+const MAX_SCHEDULER_DELAY_MS = 60 * 1000;
+
+// Last time the scheduler ran, used to catch up on doses missed while closed
+const readSchedulerLastRun = () => {
+  const stored = localStorage.getItem('medicineSchedulerLastRun');
+  return stored ? new Date(stored) : null;
+};
+
+const writeSchedulerLastRun = (date: Date) => {
+  try {
+    localStorage.setItem('medicineSchedulerLastRun', date.toISOString());
+  } catch (e) {
+    console.error("Failed to save scheduler state to localStorage:", e);
+  }
 };
 
 // Debounce utility function
@@ -71,159 +115,499 @@ function debounce<T extends (...args: any[]) => void>(
   };
 }
 
+// Waits for saved data before starting the app
+function StoredApp() {
+  const { state, error } = useStoredState();
+  const { t } = useLocale();
+
+  if (error) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto mt-8">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
+      </div>
+    );
+  }
+
+  if (!state) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ms-4 text-lg text-gray-700">{t('common.loadingData')}</p>
+      </div>
+    );
+  }
+
+  return <App initialState={state} />;
+}
+
 // Main App Component
-function App() {
-  const [currentPage, setCurrentPage] = useState<'home' | 'findMedicine' | 'myMedications' | 'medicineDetail'>('home');
-  const [selectedMedicine, setSelectedMedicine] = useState<Medicine | null>(null);
-  const [reminders, setReminders] = useState<Reminder[]>(() => {
-    try {
-      const storedReminders = localStorage.getItem('medicineReminders');
-      return storedReminders ? JSON.parse(storedReminders) : [];
-    } catch (e) {
-      console.error("Failed to parse reminders from localStorage:", e);
-      return [];
-    }
+function App({ initialState }: { initialState: StoredState }) {
+  const { locale, t } = useLocale();
+  const { pathname, search } = useLocation();
+  const route = parseRoute(pathname, search);
+  // Profiles, reminders and the dose log are saved as they change and kept in sync across tabs
+  const [profiles, setProfiles] = useStoredCollection('profiles', initialState.profiles);
+  const [reminders, setReminders] = useStoredCollection('reminders', initialState.reminders);
+  const [doseLog, setDoseLog] = useStoredCollection('doseLog', initialState.doseLog);
+  // When signed in, the same collections are also synced with the other devices
+  const sync = useSync({
+    profiles: [profiles, setProfiles],
+    reminders: [reminders, setReminders],
+    doseLog: [doseLog, setDoseLog],
   });
-  const [notificationMessage, setNotificationMessage] = useState('');
+  const [activeProfileId, setActiveProfileId] = useState(() => readActiveProfileId(profiles));
+  // Sync never leaves the list empty, but if it ever is there's still
+  // someone to show, saved straight away
+  const [fallbackProfile] = useState(createDefaultProfile);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) || profiles[0] || fallbackProfile;
   const [showNotification, setShowNotification] = useState(false);
-  const notificationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Save reminders to localStorage whenever they change
   useEffect(() => {
-    try {
-      localStorage.setItem('medicineReminders', JSON.stringify(reminders));
-    } catch (e) {
-      console.error("Failed to save reminders to localStorage:", e);
-    }
-  }, [reminders]);
+    if (!profiles.length) setProfiles([fallbackProfile]);
+  }, [profiles.length, fallbackProfile, setProfiles]);
 
-  // Set up reminder alarms
   useEffect(() => {
-    const interval = setInterval(() => {
+    writeActiveProfileId(activeProfile.id);
+  }, [activeProfile.id]);
+
+  // Register the service worker that caches the app for offline use and shows system notifications
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
+  // Fetch details of every saved and favourite medicine while online, so the
+  // service worker has them cached for opening offline
+  const { loadMedicine } = useCatalog();
+  const savedMedicineIds = Array.from(new Set([
+    ...reminders.map(reminder => reminder.medicineId),
+    ...profiles.flatMap(profile => profile.favourites),
+  ].filter((id): id is number => typeof id === 'number'))).sort((a, b) => a - b).join(',');
+  useEffect(() => {
+    if (!navigator.onLine || !savedMedicineIds) return;
+    savedMedicineIds.split(',').forEach(id => {
+      loadMedicine(Number(id)).catch(e => console.error("Failed to prefetch medicine details:", e));
+    });
+  }, [savedMedicineIds, loadMedicine]);
+
+  // Keep the service worker's upcoming notifications in step with the
+  // reminders, and in the chosen language
+  useEffect(() => {
+    scheduleDoseNotifications(activeReminders(reminders), profiles, new Date());
+  }, [reminders, profiles, locale]);
+
+  const updateReminder = (reminderId: number, update: (reminder: Reminder) => Reminder) => {
+    setReminders(prev => prev.map(reminder => (reminder.id === reminderId ? update(reminder) : reminder)));
+  };
+
+  // Taking a dose uses it up from the reminder's stock
+  const consumeStock = (log: DoseLogEntry[], entryId: string, action: DoseAction) => {
+    const reminderId = newlyTakenReminderId(log, entryId, action);
+    if (reminderId !== null) updateReminder(reminderId, consumeDose);
+  };
+
+  // Taken/Snooze pressed on a system notification
+  const remindersRef = useRef(reminders);
+  remindersRef.current = reminders;
+  const doseLogRef = useRef(doseLog);
+  doseLogRef.current = doseLog;
+  useEffect(() => {
+    const handleNotificationAction = (entryId: string, action: DoseAction | null) => {
+      if (!action) {
+        setShowNotification(true);
+        return;
+      }
       const now = new Date();
-      reminders.forEach((reminder: any) => {
-        const [hours, minutes] = reminder.time.split(':').map(Number);
-        const reminderTime = new Date();
-        reminderTime.setHours(hours);
-        reminderTime.setMinutes(minutes);
-        reminderTime.setSeconds(0);
-        reminderTime.setMilliseconds(0);
-
-        // Check if current time is within a minute of the reminder time
-        // And if the reminder hasn't been triggered recently for today
-        if (
-            Math.abs(now.getTime() - reminderTime.getTime()) < 60 * 1000 && // within 1 minute
-            now.getDate() === reminderTime.getDate() // same day
-        ) {
-          // Simple check to prevent multiple triggers within the same minute on the same day
-          if (reminder.lastTriggered === undefined || (now.getTime() - new Date(reminder.lastTriggered).getTime()) > 60 * 1000) {
-              setNotificationMessage(`Time to take ${reminder.medicineName}!`);
-              setShowNotification(true);
-              // Update reminder to mark it as triggered
-              setReminders(prevReminders =>
-                  prevReminders.map(r =>
-                      r.id === reminder.id ? { ...r, lastTriggered: now.toISOString() } : r
-                  )
-              );
-              if (notificationTimeoutRef.current) {
-                clearTimeout(notificationTimeoutRef.current);
-              }
-              notificationTimeoutRef.current = setTimeout(() => {
-                setShowNotification(false);
-              }, 5000); // Hide message after 5 seconds
-          }
+      consumeStock(doseLogRef.current, entryId, action);
+      setDoseLog(prevLog => applyDoseActionById(prevLog, entryId, action, remindersRef.current, now));
+    };
+    const fromUrl = takeDoseActionFromUrl();
+    if (fromUrl) {
+      handleNotificationAction(fromUrl.entryId, fromUrl.action);
+      navigate(window.location.pathname, { replace: true });
+    }
+    return subscribeToDoseActions(handleNotificationAction);
+  }, []);
+
+  // Schedule a timer for the next dose or snooze instead of polling for due reminders
+  const [schedulerTick, setSchedulerTick] = useState(0);
+  useEffect(() => {
+    const now = new Date();
+    const lastRun = readSchedulerLastRun();
+    writeSchedulerLastRun(now);
+    const firing = activeReminders(reminders);
+    // Doses that passed while the app was closed or the computer slept
+    const missedDoses = lastRun ? findMissedDoses(firing, lastRun, now, DOSE_GRACE_PERIOD_MS) : [];
+    const dueDoses = findDueDoses(firing, now, DOSE_GRACE_PERIOD_MS);
+    const dueSnoozes = findDueSnoozes(doseLog, reminders, now);
+
+    if (missedDoses.length > 0 || dueDoses.length > 0 || dueSnoozes.length > 0) {
+      setDoseLog(prevLog => recordFiredDoses(prevLog, dueDoses, dueSnoozes, missedDoses));
+      if (dueDoses.length > 0 || dueSnoozes.length > 0) {
+        setShowNotification(true);
+        // The in-page modal is enough while the tab is in front
+        if (document.hidden) {
+          showDoseNotifications([...dueDoses.map(due => createLogEntry(due)), ...dueSnoozes], profiles);
         }
+      }
+      // Update reminders to mark the latest fired or missed occurrences as triggered
+      const triggered = new Map<number, Date>();
+      [...missedDoses, ...dueDoses].forEach(({ reminder, occurrence }) => {
+        const previous = triggered.get(reminder.id);
+        if (!previous || occurrence > previous) triggered.set(reminder.id, occurrence);
       });
-    }, 10000); // Check every 10 seconds
+      if (triggered.size > 0) {
+        setReminders(prevReminders =>
+          prevReminders.map(r => {
+            const occurrence = triggered.get(r.id);
+            return occurrence ? { ...r, lastTriggered: occurrence.toISOString() } : r;
+          })
+        );
+      }
+      return;
+    }
 
-    return () => clearInterval(interval); // Clean up interval on component unmount
-  }, [reminders]);
+    const candidates = [nextDoseTime(firing, now), nextSnoozeTime(doseLog, reminders)]
+      .filter((time): time is Date => time !== null)
+      .map(time => time.getTime() - now.getTime());
+    const delay = Math.min(MAX_SCHEDULER_DELAY_MS, ...candidates);
+    const timer = setTimeout(() => setSchedulerTick(tick => tick + 1), Math.max(delay, 0));
 
+    return () => clearTimeout(timer); // Clean up timer when reminders change or on unmount
+  }, [reminders, doseLog, schedulerTick]);
 
-  // Handles navigation to medicine details
-  const handleMedicineSelect = (medicine: Medicine) => {
-    setSelectedMedicine(medicine);
-    setCurrentPage('medicineDetail');
+  const alerts = activeAlerts(doseLog, reminders, new Date());
+
+  // Medicines running low, re-checked whenever the scheduler or the stock changes
+  const refillAlerts = findRefillAlerts(activeReminders(reminders), new Date());
+  const refillAlertKey = refillAlerts.map(alert => alert.reminder.id).join(',');
+  useEffect(() => {
+    if (refillAlertKey) setShowNotification(true);
+  }, [refillAlertKey]);
+
+  const handleDoseAction = (entryId: string, action: DoseAction) => {
+    const now = new Date();
+    consumeStock(doseLog, entryId, action);
+    // Doses taken from the today timeline may not be logged yet
+    setDoseLog(prevLog => applyDoseActionById(prevLog, entryId, action, reminders, now));
   };
 
-  // Notification Modal Component
-  const NotificationModal = ({ message, show, onClose }: { message: string; show: boolean; onClose: () => void }) => {
-    if (!show) return null;
+  const handleRefill = (reminderId: number) => {
+    const now = new Date();
+    updateReminder(reminderId, reminder =>
+      reminder.inventory ? recordRefill(reminder, reminder.inventory.packSize, now) : reminder
+    );
+  };
 
-    return (
-      <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center z-50">
-        <div className="bg-white p-6 rounded-lg shadow-xl text-center max-w-sm w-full">
-          <p className="text-xl font-semibold mb-4 text-gray-800">{message}</p>
-          <button
-            onClick={onClose}
-            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200"
-          >
-            Got It!
-          </button>
-        </div>
-      </div>
+  // Handles navigation to medicine details
+  const handleMedicineSelect = (medicine: MedicineSummary) => {
+    navigate(paths.medicine(medicine.id));
+  };
+
+  const handleSaveProfile = (profile: Profile) => {
+    setProfiles(prev =>
+      prev.some(p => p.id === profile.id) ? prev.map(p => (p.id === profile.id ? profile : p)) : [...prev, profile]
     );
   };
 
+  // Removes the profile together with everything recorded for it
+  const handleDeleteProfile = (id: number) => {
+    const remaining = profiles.filter(profile => profile.id !== id);
+    if (!remaining.length) return;
+    setProfiles(remaining);
+    setReminders(prev => prev.filter(reminder => reminder.profileId !== id));
+    setDoseLog(prev => prev.filter(entry => entry.profileId !== id));
+    if (activeProfileId === id) setActiveProfileId(remaining[0].id);
+  };
+
+  const handleImport = (state: StoredState) => {
+    setProfiles(state.profiles);
+    setReminders(state.reminders);
+    setDoseLog(state.doseLog);
+  };
+
+  const handleToggleFavourite = (medicineId: number) => {
+    handleSaveProfile(toggleFavourite(activeProfile, medicineId));
+  };
 
   return (
-    <div className="min-h-screen bg-gray-100 font-inter text-gray-800 flex flex-col">
-      <NotificationModal message={notificationMessage} show={showNotification} onClose={() => setShowNotification(false)} />
+    <div className="min-h-screen bg-gray-100 font-inter text-gray-800 flex flex-col print:bg-white">
+      <div className="print:hidden">
+        <NotificationModal
+          alerts={alerts}
+          refillAlerts={refillAlerts}
+          profiles={profiles}
+          show={showNotification}
+          onAction={handleDoseAction}
+          onRefill={handleRefill}
+          onSnoozeRefill={id => updateReminder(id, reminder => snoozeRefillAlert(reminder, new Date()))}
+          onClose={() => setShowNotification(false)}
+        />
+      </div>
 
       {/* Header/Navigation */}
-      <nav className="bg-blue-600 p-4 shadow-md flex justify-around items-center flex-wrap">
-        <button
-          onClick={() => setCurrentPage('home')}
+      <nav className="bg-blue-600 p-4 shadow-md flex justify-around items-center flex-wrap print:hidden">
+        <Link
+          to={paths.home}
           className="text-white text-lg font-bold px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 my-1"
         >
-          Home
-        </button>
-        <button
-          onClick={() => setCurrentPage('findMedicine')}
+          {t('nav.home')}
+        </Link>
+        <Link
+          to={paths.search}
           className="text-white text-lg font-bold px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 my-1"
         >
-          Find Medicine
-        </button>
-        <button
-          onClick={() => setCurrentPage('myMedications')}
+          {t('nav.findMedicine')}
+        </Link>
+        <Link
+          to={paths.browse}
           className="text-white text-lg font-bold px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 my-1"
         >
-          My Medications
-        </button>
+          {t('nav.browse')}
+        </Link>
+        <Link
+          to={paths.symptoms}
+          className="text-white text-lg font-bold px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 my-1"
+        >
+          {t('nav.symptoms')}
+        </Link>
+        <Link
+          to={paths.medications}
+          className="text-white text-lg font-bold px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 my-1"
+        >
+          {t('nav.myMedications')}
+        </Link>
+        <div className="flex items-center gap-2 my-1">
+          <label htmlFor="active-profile" className="text-white text-sm">{t('nav.profile')}</label>
+          <select
+            id="active-profile"
+            value={activeProfile.id}
+            onChange={(e) => setActiveProfileId(Number(e.target.value))}
+            className="px-2 py-1 rounded-md text-gray-800"
+          >
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <Link to={paths.profiles} className="text-white text-sm underline hover:text-blue-100">
+            {t('nav.manage')}
+          </Link>
+        </div>
+        <LanguageSelect className="my-1" />
+        <ConnectionStatus />
       </nav>
 
       {/* Main Content Area */}
-      <main className="flex-grow p-4 md:p-8 overflow-y-auto">
-        {currentPage === 'home' && (
-          <HomePage setCurrentPage={setCurrentPage} />
+      <main className="flex-grow p-4 md:p-8 overflow-y-auto print:p-0 print:overflow-visible">
+        {route.page === 'home' && (
+          <HomePage
+            profile={activeProfile}
+            reminders={remindersFor(reminders, activeProfile.id)}
+            doseLog={doseLogFor(doseLog, activeProfile.id)}
+            onDoseAction={handleDoseAction}
+          />
+        )}
+        {route.page === 'findMedicine' && (
+          <FindMedicinePage profile={activeProfile} onMedicineSelect={handleMedicineSelect} />
+        )}
+        {route.page === 'browse' && (
+          <BrowsePage view={route.view} therapeuticClass={route.therapeuticClass} actionClass={route.actionClass} />
+        )}
+        {route.page === 'symptoms' && (
+          <SymptomRecommenderPage />
+        )}
+        {route.page === 'sideEffects' && (
+          <SideEffectExplorerPage />
+        )}
+        {route.page === 'myMedications' && (
+          <MyMedicationsPage
+            view={route.view}
+            profile={activeProfile}
+            reminders={remindersFor(reminders, activeProfile.id)}
+            setReminders={setReminders}
+            doseLog={doseLogFor(doseLog, activeProfile.id)}
+            storedState={{ profiles, reminders, doseLog }}
+            onImport={handleImport}
+            onNotificationsEnabled={() => scheduleDoseNotifications(activeReminders(reminders), profiles, new Date())}
+          />
         )}
-        {currentPage === 'findMedicine' && (
-          <FindMedicinePage onMedicineSelect={handleMedicineSelect} />
+        {route.page === 'medicineDetail' && (
+          <MedicineDetailPage
+            key={route.medicineId}
+            medicineId={route.medicineId}
+            profile={activeProfile}
+            isFavourite={activeProfile.favourites.includes(route.medicineId)}
+            onToggleFavourite={() => handleToggleFavourite(route.medicineId)}
+          />
         )}
-        {currentPage === 'myMedications' && (
-          <MyMedicationsPage reminders={reminders} setReminders={setReminders} />
+        {route.page === 'medicineFactSheet' && (
+          <MedicineFactSheet key={route.medicineId} medicineId={route.medicineId} />
         )}
-        {currentPage === 'medicineDetail' && selectedMedicine && (
-          <MedicineDetailPage medicine={selectedMedicine} />
+        {route.page === 'timetable' && (
+          <MedicationTimetable profile={activeProfile} reminders={activeReminders(remindersFor(reminders, activeProfile.id))} />
+        )}
+        {route.page === 'compare' && (
+          <ComparePage medicineIds={route.medicineIds} />
+        )}
+        {route.page === 'profiles' && (
+          <>
+            <ProfilesPage
+              profiles={profiles}
+              activeProfileId={activeProfile.id}
+              onSave={handleSaveProfile}
+              onDelete={handleDeleteProfile}
+              onSelect={setActiveProfileId}
+            />
+            <SyncPanel sync={sync} />
+          </>
+        )}
+        {route.page === 'notFound' && (
+          <NotFoundPage />
         )}
       </main>
     </div>
   );
 }
 
+// Notification Modal Component
+function NotificationModal({ alerts, refillAlerts, profiles, show, onAction, onRefill, onSnoozeRefill, onClose }: NotificationModalProps) {
+  const [skippingId, setSkippingId] = useState<string | null>(null);
+  const [skipReason, setSkipReason] = useState(SKIP_REASONS[0]);
+  const { t } = useLocale();
+
+  if (!show || (alerts.length === 0 && refillAlerts.length === 0)) return null;
+
+  return (
+    <Dialog
+      labelledBy="dose-reminder-title"
+      onClose={onClose}
+      overlayClassName="z-50"
+      className="bg-white p-6 rounded-lg shadow-xl text-center max-w-md w-full max-h-[90vh] overflow-y-auto"
+    >
+      <h3 id="dose-reminder-title" className="sr-only">{t('notification.title')}</h3>
+      {alerts.map(entry => (
+        <div key={entry.id} className="mb-6 last:mb-0">
+          <p className="text-xl font-semibold mb-1 text-gray-800">{doseMessage(entry.medicineName, entry.dose, doseOwnerName(profiles, entry.profileId))}</p>
+          <p className="text-sm text-gray-500 mb-4">{t('notification.scheduledFor', { time: formatTime(new Date(entry.scheduledFor)) })}</p>
+          {skippingId === entry.id ? (
+            <div className="flex flex-col gap-2">
+              <select
+                value={skipReason}
+                onChange={(e) => setSkipReason(e.target.value)}
+                className="w-full p-2 border border-gray-300 rounded-md"
+              >
+                {SKIP_REASONS.map(reason => (
+                  <option key={reason} value={reason}>{skipReasonLabel(reason)}</option>
+                ))}
+              </select>
+              <div className="flex justify-center gap-2">
+                <button onClick={() => setSkippingId(null)} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+                  {t('common.back')}
+                </button>
+                <button
+                  onClick={() => {
+                    onAction(entry.id, { type: 'skip', reason: skipReason });
+                    setSkippingId(null);
+                  }}
+                  className="px-4 py-2 bg-yellow-500 text-white rounded-md hover:bg-yellow-600 transition duration-200"
+                >
+                  {t('notification.skipDose')}
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex flex-wrap justify-center gap-2">
+              <button
+                onClick={() => onAction(entry.id, { type: 'taken' })}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200"
+              >
+                {t('notification.taken')}
+              </button>
+              <button
+                onClick={() => {
+                  setSkippingId(entry.id);
+                  setSkipReason(SKIP_REASONS[0]);
+                }}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200"
+              >
+                {t('notification.skip')}
+              </button>
+              {SNOOZE_OPTIONS_MINUTES.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => onAction(entry.id, { type: 'snooze', minutes })}
+                  className="px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200"
+                >
+                  {t('notification.snooze', { minutes })}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      {refillAlerts.map(alert => (
+        <div key={alert.reminder.id} className="mb-6 last:mb-0 p-3 bg-orange-50 border border-orange-200 rounded-md">
+          <p className="font-semibold mb-3 text-orange-800">{refillMessage(alert, doseOwnerName(profiles, alert.reminder.profileId))}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            <button
+              onClick={() => onRefill(alert.reminder.id)}
+              className="px-4 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition duration-200"
+            >
+              {t('notification.refilled', { amount: alert.reminder.inventory!.packSize })}
+            </button>
+            <button
+              onClick={() => onSnoozeRefill(alert.reminder.id)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200"
+            >
+              {t('notification.remindTomorrow')}
+            </button>
+          </div>
+        </div>
+      ))}
+      <button onClick={onClose} className="mt-4 text-sm text-gray-500 hover:text-gray-700">
+        {t('common.close')}
+      </button>
+    </Dialog>
+  );
+}
+
 // Medicine Detail Page Component
-function MedicineDetailPage({ medicine }: MedicineDetailPageProps) {
+function MedicineDetailPage({ medicineId, profile, isFavourite, onToggleFavourite }: MedicineDetailPageProps) {
+  const { medicine, isLoading, error } = useMedicine(medicineId);
+  const { resolveSubstitutes } = useCatalog();
+  const { t } = useLocale();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ms-4 text-lg text-gray-700">{t('medicine.loading')}</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
+      </div>
+    );
+  }
+
   if (!medicine) {
-    return <div className="text-center text-gray-600">No medicine selected.</div>;
+    return <NotFoundPage message={t('medicine.notInCatalog', { id: medicineId })} />;
   }
 
+  const conflicts = screenMedicine(medicine, profile);
+
   // Helper function to render a list of items
-  const renderList = (title: string, items: string[] | undefined) => {
+  const renderList = (title: string, items: string[] | undefined, linkTo?: (item: string) => string) => {
     if (!items || items.length === 0) {
       return (
         <div className="mb-4">
           <h3 className="text-xl font-semibold text-gray-700 mb-2">{title}:</h3>
-          <p className="text-gray-600 italic">No information available.</p>
+          <p className="text-gray-600 italic">{t('medicine.noInformation')}</p>
         </div>
       );
     }
@@ -232,7 +616,50 @@ function MedicineDetailPage({ medicine }: MedicineDetailPageProps) {
         <h3 className="text-xl font-semibold text-gray-700 mb-2">{title}:</h3>
         <ul className="list-disc list-inside space-y-1 text-gray-700">
           {items.map((item, index) => (
-            <li key={index}>{item}</li>
+            <li key={index}>
+              {linkTo ? <Link to={linkTo(item)} className="hover:text-blue-600 hover:underline">{translateTerm(item)}</Link> : translateTerm(item)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  };
+
+  // Substitutes are free-text names; link the ones we can find in the catalog
+  const renderSubstitutes = () => {
+    const matches = resolveSubstitutes(medicine);
+    const substitutes = (medicine.substitutes || []).map((name, index) => ({ name, match: matches[index] }));
+    if (substitutes.length === 0) {
+      return renderList(t('medicine.substitutes'), substitutes.map(({ name }) => name));
+    }
+    const resolvedIds = substitutes
+      .map(({ match }) => match && match.id)
+      .filter((id): id is number => typeof id === 'number' && id !== medicine.id);
+    const compareIds = Array.from(new Set(resolvedIds)).slice(0, MAX_COMPARED_MEDICINES - 1);
+    return (
+      <div className="mb-4">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-xl font-semibold text-gray-700">{t('medicine.substitutes')}:</h3>
+          {compareIds.length > 0 && (
+            <Link to={paths.compare([medicine.id, ...compareIds])} className="text-sm text-blue-600 hover:text-blue-700">
+              {t('medicine.compareSideBySide')}
+            </Link>
+          )}
+        </div>
+        <ul className="list-disc list-inside space-y-1 text-gray-700">
+          {substitutes.map(({ name, match }, index) => (
+            <li key={index}>
+              {match && match.id !== medicine.id ? (
+                <>
+                  <Link to={paths.medicine(match.id)} className="text-blue-600 hover:underline">{name}</Link>
+                  <Link to={paths.compare([medicine.id, match.id])} className="ms-3 text-sm text-gray-500 hover:text-blue-600">
+                    {t('medicine.compare')}
+                  </Link>
+                </>
+              ) : (
+                name
+              )}
+            </li>
           ))}
         </ul>
       </div>
@@ -241,27 +668,58 @@ function MedicineDetailPage({ medicine }: MedicineDetailPageProps) {
 
   return (
     <div className="max-w-4xl mx-auto bg-white p-6 rounded-lg shadow-md">
-      <h2 className="text-3xl font-bold mb-6 text-blue-600">{medicine.name}</h2>
-      
-      {renderList('Uses', medicine.uses)}
-      {renderList('Side Effects', medicine.sideEffects)}
-      {renderList('Substitutes', medicine.substitutes)}
+      <div className="flex justify-between items-start gap-4 mb-6">
+        <h2 className="text-3xl font-bold text-blue-600">{medicine.name}</h2>
+        <div className="flex flex-shrink-0 gap-2">
+          <Link
+            to={paths.medicineFactSheet(medicine.id)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50 transition duration-200"
+          >
+            {t('medicine.printFactSheet')}
+          </Link>
+          <button
+            onClick={onToggleFavourite}
+            aria-pressed={isFavourite}
+            className={`px-4 py-2 border rounded-md transition duration-200 ${isFavourite ? 'bg-yellow-100 border-yellow-300 text-yellow-800' : 'border-gray-300 text-gray-600 hover:bg-gray-50'}`}
+          >
+            {isFavourite ? t('medicine.favourite') : t('medicine.addFavourite')}
+          </button>
+        </div>
+      </div>
+
+      {conflicts.length > 0 && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-md" role="alert">
+          <p className="font-semibold text-red-700 mb-1">{t('medicine.checkFor', { name: profile.name })}</p>
+          <ul className="list-disc list-inside text-sm text-red-700 space-y-1">
+            {conflicts.map((conflict, index) => (
+              <li key={index}>{t(conflict.message, conflict.params)}</li>
+            ))}
+          </ul>
+          <Link to={paths.profiles} className="inline-block mt-2 text-sm text-red-700 underline">
+            {t('medicine.editProfile')}
+          </Link>
+        </div>
+      )}
+
+      {renderList(t('medicine.uses'), medicine.uses)}
+      {renderList(t('medicine.sideEffects'), medicine.sideEffects, item => `${paths.sideEffects}?q=${encodeURIComponent(item)}`)}
+      {renderSubstitutes()}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div>
-          <h3 className="text-xl font-semibold mb-2 text-gray-800">Chemical Class</h3>
+          <h3 className="text-xl font-semibold mb-2 text-gray-800">{t('medicine.chemicalClass')}</h3>
           <p className="text-gray-600">{medicine["Chemical Class"]}</p>
         </div>
         <div>
-          <h3 className="text-xl font-semibold mb-2 text-gray-800">Habit Forming</h3>
+          <h3 className="text-xl font-semibold mb-2 text-gray-800">{t('medicine.habitForming')}</h3>
           <p className="text-gray-600">{medicine["Habit Forming"]}</p>
         </div>
         <div>
-          <h3 className="text-xl font-semibold mb-2 text-gray-800">Therapeutic Class</h3>
+          <h3 className="text-xl font-semibold mb-2 text-gray-800">{t('medicine.therapeuticClass')}</h3>
           <p className="text-gray-600">{medicine["Therapeutic Class"]}</p>
         </div>
         <div>
-          <h3 className="text-xl font-semibold mb-2 text-gray-800">Action Class</h3>
+          <h3 className="text-xl font-semibold mb-2 text-gray-800">{t('medicine.actionClass')}</h3>
           <p className="text-gray-600">{medicine["Action Class"]}</p>
         </div>
       </div>
@@ -269,95 +727,166 @@ function MedicineDetailPage({ medicine }: MedicineDetailPageProps) {
   );
 }
 
+// Not Found Page Component
+const NotFoundPage = ({ message }: { message?: string }) => {
+  const { t } = useLocale();
+  return (
+    <div className="max-w-md mx-auto bg-white p-6 rounded-lg shadow-md text-center">
+      <h2 className="text-3xl font-bold mb-4 text-blue-600">{t('notFound.title')}</h2>
+      <p className="text-gray-600 mb-6">{message || t('notFound.message')}</p>
+      <Link
+        to={paths.home}
+        className="inline-block px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition duration-200"
+      >
+        {t('notFound.backHome')}
+      </Link>
+    </div>
+  );
+};
+
 // HomePage Component
-const HomePage = ({ setCurrentPage }: { setCurrentPage: (page: 'home' | 'findMedicine' | 'myMedications' | 'medicineDetail') => void }) => {
+const HomePage = ({ profile, reminders, doseLog, onDoseAction }: HomePageProps) => {
+  const { getSummary } = useCatalog();
+  const { t } = useLocale();
+  const favourites = profile.favourites
+    .map(id => getSummary(id))
+    .filter((medicine): medicine is MedicineSummary => medicine !== undefined);
+
   return (
     <div className="max-w-4xl mx-auto">
-      <h1 className="text-4xl font-bold text-center mb-8 text-blue-600">Welcome to Medicine App</h1>
+      <h1 className="text-4xl font-bold text-center mb-8 text-blue-600">{t('home.welcome')}</h1>
+      <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+        <div className="flex justify-between items-baseline mb-4">
+          <h2 className="text-2xl font-semibold text-blue-600">{t('home.today', { name: profile.name })}</h2>
+          <span className="text-sm text-gray-500">
+            {formatDate(new Date(), { weekday: 'long', month: 'long', day: 'numeric' })}
+          </span>
+        </div>
+        <TodayTimeline reminders={reminders} doseLog={doseLog} onAction={onDoseAction} />
+      </div>
+      {favourites.length > 0 && (
+        <div className="bg-white p-6 rounded-lg shadow-md mb-6">
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.favourites', { name: profile.name })}</h2>
+          <ul className="flex flex-wrap gap-2">
+            {favourites.map(medicine => (
+              <li key={medicine.id}>
+                <Link
+                  to={paths.medicine(medicine.id)}
+                  className="inline-block px-3 py-1 bg-yellow-50 border border-yellow-200 rounded-full text-gray-800 hover:bg-yellow-100"
+                >
+                  {medicine.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition duration-200">
-          <h2 className="text-2xl font-semibold mb-4 text-blue-600">Find Medicine</h2>
-          <p className="text-gray-600 mb-4">Search for medicines, learn about their uses, side effects, and find substitutes.</p>
-          <button
-            onClick={() => setCurrentPage('findMedicine')}
-            className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.findTitle')}</h2>
+          <p className="text-gray-600 mb-4">{t('home.findText')}</p>
+          <Link
+            to={paths.search}
+            className="block w-full text-center bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
           >
-            Search Medicines
-          </button>
+            {t('home.findAction')}
+          </Link>
         </div>
         <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition duration-200">
-          <h2 className="text-2xl font-semibold mb-4 text-blue-600">My Medications</h2>
-          <p className="text-gray-600 mb-4">Set reminders for your medications and track your medicine schedule.</p>
-          <button
-            onClick={() => setCurrentPage('myMedications')}
-            className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.browseTitle')}</h2>
+          <p className="text-gray-600 mb-4">{t('home.browseText')}</p>
+          <Link
+            to={paths.browse}
+            className="block w-full text-center bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
           >
-            View My Medications
-          </button>
+            {t('home.browseAction')}
+          </Link>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition duration-200">
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.symptomsTitle')}</h2>
+          <p className="text-gray-600 mb-4">{t('home.symptomsText')}</p>
+          <Link
+            to={paths.symptoms}
+            className="block w-full text-center bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
+          >
+            {t('home.symptomsAction')}
+          </Link>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition duration-200">
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.sideEffectsTitle')}</h2>
+          <p className="text-gray-600 mb-4">{t('home.sideEffectsText')}</p>
+          <Link
+            to={paths.sideEffects}
+            className="block w-full text-center bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
+          >
+            {t('home.sideEffectsAction')}
+          </Link>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-md hover:shadow-lg transition duration-200">
+          <h2 className="text-2xl font-semibold mb-4 text-blue-600">{t('home.medicationsTitle')}</h2>
+          <p className="text-gray-600 mb-4">{t('home.medicationsText')}</p>
+          <Link
+            to={paths.medications}
+            className="block w-full text-center bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition duration-200"
+          >
+            {t('home.medicationsAction')}
+          </Link>
         </div>
       </div>
     </div>
   );
 };
 
-// Find Medicine Page Component (Symptom-Based Recommendation)
-function FindMedicinePage({ onMedicineSelect }: FindMedicinePageProps) {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [filteredMedicines, setFilteredMedicines] = useState<Medicine[]>([]);
-  const [searchInitiated, setSearchInitiated] = useState(false);
-  const [allMedicines, setAllMedicines] = useState<Medicine[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Fetch medicine data
-  useEffect(() => {
-    const fetchMedicineData = async () => {
-      try {
-        const response = await fetch('/processed_medicine_data.json');
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
-        setAllMedicines(data);
-        setIsLoading(false);
-      } catch (e) {
-        console.error("Failed to load medicine data:", e);
-        setError("Failed to load medicines. Please try again later.");
-        setIsLoading(false);
-      }
-    };
-    fetchMedicineData();
-  }, []);
+// Find Medicine Page Component (search by name, use or class)
+function FindMedicinePage({ profile, onMedicineSelect }: FindMedicinePageProps) {
+  // Search term and facets start from the URL so filtered results can be shared
+  const [searchTerm, setSearchTerm] = useState(() => new URLSearchParams(window.location.search).get('q') || '');
+  const [debouncedTerm, setDebouncedTerm] = useState(searchTerm);
+  const [filters, setFilters] = useState<FacetFilters>(() => filtersFromParams(new URLSearchParams(window.location.search)));
+  const { medicines, isLoading, error } = useCatalog();
+  const { t } = useLocale();
+  const {
+    query: searchedTerm,
+    results: filteredMedicines,
+    total,
+    facets,
+    hasMore,
+    isSearching,
+    search,
+    loadMore,
+  } = useMedicineSearch();
+  const isFiltering = hasActiveFilters(filters);
+  const combobox = useCombobox({
+    id: 'medicine-search',
+    optionCount: filteredMedicines.length,
+    onSelect: index => onMedicineSelect(filteredMedicines[index]),
+    onClear: () => {
+      setSearchTerm('');
+      updateSearch('');
+    },
+    alwaysOpen: true,
+    resetKey: searchedTerm,
+  });
 
   // Memoize the search function
   const updateSearch = React.useCallback(
     debounce((term: string) => {
-      if (!term.trim() || term.length < 2) {
-        setFilteredMedicines([]);
-        setSearchInitiated(false);
-        return;
-      }
-
-      const lowerCaseSearchTerm = term.toLowerCase();
-      const results = allMedicines
-        .filter(medicine => {
-          // Check name first (faster)
-          if (medicine.name.toLowerCase().includes(lowerCaseSearchTerm)) {
-            return true;
-          }
-          // Then check uses (slower)
-          return medicine.uses.some(use => 
-            use.toLowerCase().includes(lowerCaseSearchTerm)
-          );
-        })
-        .slice(0, 50); // Limit results to improve performance
-
-      setFilteredMedicines(results);
-      setSearchInitiated(true);
+      setDebouncedTerm(term);
     }, 300),
-    [allMedicines]
+    []
   );
 
+  // Run the search and mirror it into the URL whenever the term or facets change
+  useEffect(() => {
+    const term = debouncedTerm.trim().length < 2 ? '' : debouncedTerm.trim();
+    search(term, filters);
+
+    const params = filtersToParams(filters);
+    if (term) params.set('q', term);
+    const query = params.toString();
+    navigate(query ? `${paths.search}?${query}` : paths.search, { replace: true });
+  }, [debouncedTerm, filters, search, medicines]);
+
   // Handle search input change
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -369,7 +898,7 @@ function FindMedicinePage({ onMedicineSelect }: FindMedicinePageProps) {
     return (
       <div className="flex justify-center items-center h-full">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
-        <p className="ml-4 text-lg text-gray-700">Loading medicine data...</p>
+        <p className="ms-4 text-lg text-gray-700">{t('common.loadingMedicines')}</p>
       </div>
     );
   }
@@ -377,139 +906,392 @@ function FindMedicinePage({ onMedicineSelect }: FindMedicinePageProps) {
   if (error) {
     return (
       <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
-        <p className="font-bold text-lg mb-2">Error Loading Data:</p>
-        <p>{error}</p>
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
       </div>
     );
   }
 
+  const noResultsMessage = searchedTerm
+    ? t('search.noResultsFor', { query: searchedTerm })
+    : t('search.noResultsFilters');
+  const resultsMessage = searchedTerm
+    ? t('search.showingFor', { shown: filteredMedicines.length, total, query: searchedTerm })
+    : t('search.showing', { shown: filteredMedicines.length, total });
+  let announcement = '';
+  if (!isSearching && (searchedTerm || isFiltering)) {
+    announcement = filteredMedicines.length ? t('search.chooseHint', { results: resultsMessage }) : noResultsMessage;
+  }
+
   return (
-    <div className="bg-white p-6 rounded-lg shadow-xl max-w-3xl mx-auto">
-      <h2 className="text-3xl font-bold text-blue-700 mb-6 text-center">Find Medicines by Symptom or Name</h2>
+    <div className="bg-white p-6 rounded-lg shadow-xl max-w-6xl mx-auto">
+      <h2 className="text-3xl font-bold text-blue-700 mb-6 text-center">{t('search.title')}</h2>
       <div className="mb-6">
+        <label htmlFor={combobox.inputProps.id} className="sr-only">{t('search.label')}</label>
         <input
+          {...combobox.inputProps}
           type="text"
-          placeholder="Enter symptom or medicine name (e.g., Headache, Fever)"
+          placeholder={t('search.placeholder')}
           value={searchTerm}
           onChange={handleSearchChange}
           className="w-full p-3 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent transition duration-200"
         />
+        <LiveRegion message={announcement} />
+        <p className="text-sm text-gray-500 mt-2">
+          {t('search.severalSymptoms')} <Link to={paths.symptoms} className="text-blue-600 hover:underline">{t('search.trySymptomChecker')}</Link>.
+        </p>
       </div>
 
-      {searchTerm.length > 0 && searchInitiated && filteredMedicines.length === 0 && (
-        <p className="text-center text-gray-600">No medicines found for "{searchTerm}". Please try a different symptom or name.</p>
-      )}
+      <div className="flex flex-col md:flex-row gap-6">
+        <FacetSidebar
+          facets={facets}
+          filters={filters}
+          onToggle={(field, value) => setFilters(prev => toggleFacetValue(prev, field, value))}
+          onClear={() => setFilters({})}
+        />
+
+        <div className="flex-grow min-w-0">
+          {(searchedTerm || isFiltering) && !isSearching && filteredMedicines.length === 0 && (
+            <p className="text-center text-gray-600">{noResultsMessage}</p>
+          )}
 
-      <ul className="space-y-3 max-h-96 overflow-y-auto custom-scrollbar">
-        {filteredMedicines.map(medicine => (
-          <li
-            key={medicine.id}
-            className="p-4 bg-gray-50 rounded-lg shadow-sm hover:bg-blue-50 cursor-pointer transition duration-200 flex justify-between items-center"
-            onClick={() => onMedicineSelect(medicine)}
+          {filteredMedicines.length > 0 && (
+            <p className="text-sm text-gray-500 mb-2">{resultsMessage}</p>
+          )}
+
+          <ul
+            {...combobox.listboxProps}
+            aria-label={t('search.results')}
+            className="space-y-3 max-h-[32rem] overflow-y-auto custom-scrollbar"
           >
-            <div>
-              <span className="text-lg font-medium text-gray-900">{medicine.name}</span>
-              {medicine.uses && medicine.uses.length > 0 && (
-                <p className="text-sm text-gray-600 mt-1">
-                  Uses: {medicine.uses.slice(0, 2).join(', ')}{medicine.uses.length > 2 ? '...' : ''}
-                </p>
-              )}
-            </div>
-            <span className="text-sm text-blue-600">View Details →</span>
-          </li>
-        ))}
-      </ul>
+            {filteredMedicines.map((medicine, index) => {
+              const conflicts = screenMedicine(medicine, profile);
+              const isActive = index === combobox.activeIndex;
+              return (
+                <li
+                  key={medicine.id}
+                  {...combobox.getOptionProps(index)}
+                  className={`p-4 rounded-lg shadow-sm hover:bg-blue-50 cursor-pointer transition duration-200 flex justify-between items-center ${conflicts.length ? 'bg-red-50 border-s-4 border-red-400' : 'bg-gray-50'} ${isActive ? 'ring-2 ring-blue-500' : ''}`}
+                >
+                  <div>
+                    <span className="text-lg font-medium text-gray-900">
+                      <HighlightMatch text={medicine.name} query={searchedTerm} />
+                    </span>
+                    {medicine.uses && medicine.uses.length > 0 && (
+                      <p className="text-sm text-gray-600 mt-1">
+                        {t('search.uses', { uses: medicine.uses.slice(0, 2).map(translateTerm).join(', ') })}{medicine.uses.length > 2 ? '...' : ''}
+                      </p>
+                    )}
+                    {conflicts.length > 0 && (
+                      <p className="text-sm text-red-700 mt-1">⚠ {t(conflicts[0].message, conflicts[0].params)}{conflicts.length > 1 ? ` ${t('search.moreConflicts', { count: conflicts.length - 1 })}` : ''}</p>
+                    )}
+                  </div>
+                  <span className="text-sm text-blue-600">{t('search.viewDetails')} <span aria-hidden="true" className="inline-block rtl:rotate-180">→</span></span>
+                </li>
+              );
+            })}
+          </ul>
+
+          {hasMore && (
+            <button
+              onClick={loadMore}
+              disabled={isSearching}
+              className="mt-4 w-full py-2 text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 transition duration-200"
+            >
+              {isSearching ? t('search.loading') : t('search.loadMore')}
+            </button>
+          )}
+        </div>
+      </div>
     </div>
   );
 }
 
-// My Medications Page Component (Adherence Reminder)
-function MyMedicationsPage({ reminders, setReminders }: MyMedicationsPageProps) {
-  const [medicineName, setMedicineName] = useState('');
-  const [reminderTime, setReminderTime] = useState('09:00');
-  const [searchSuggestions, setSearchSuggestions] = useState<Medicine[]>([]);
-  const [selectedSuggestion, setSelectedSuggestion] = useState<Medicine | null>(null);
-  const [allMedicines, setAllMedicines] = useState<Medicine[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [showAddModal, setShowAddModal] = useState(false);
-
-  // Load all medicines data once
-  useEffect(() => {
-    const fetchMedicineData = async () => {
-      try {
-        const response = await fetch('/processed_medicine_data.json');
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
-        setAllMedicines(data);
-        setIsLoading(false);
-      } catch (e) {
-        console.error("Failed to load medicine data:", e);
-        setError("Failed to load medicines. Please try again later.");
-        setIsLoading(false);
-      }
-    };
-    fetchMedicineData();
-  }, []);
+// Medicine typed into a reminder form, with catalog suggestions as you
+// type. A reminder can only be saved once a suggestion is picked.
+function useMedicineSuggestions(initial: MedicineSummary | null = null) {
+  const { medicines: allMedicines } = useCatalog();
+  const [medicineName, setMedicineName] = useState(initial ? initial.name : '');
+  const [suggestions, setSuggestions] = useState<MedicineSummary[]>([]);
+  const [selected, setSelected] = useState<MedicineSummary | null>(initial);
 
   // Memoize the search function
   const updateSuggestions = React.useCallback(
     debounce((term: string) => {
       if (!allMedicines.length || term.length < 2) {
-        setSearchSuggestions([]);
+        setSuggestions([]);
         return;
       }
-      const suggestions = allMedicines
+      const matches = allMedicines
         .filter(med => med.name.toLowerCase().includes(term.toLowerCase()))
         .slice(0, 10);
-      setSearchSuggestions(suggestions);
+      setSuggestions(matches);
     }, 300),
     [allMedicines]
   );
 
-  // Handle medicine name input change
-  const handleMedicineNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
+  const changeName = (value: string) => {
     setMedicineName(value);
-    setSelectedSuggestion(null);
+    setSelected(null);
     updateSuggestions(value);
   };
 
-  const handleSuggestionClick = (med: Medicine) => {
+  const select = (med: MedicineSummary) => {
     setMedicineName(med.name);
-    setSelectedSuggestion(med);
-    setSearchSuggestions([]);
+    setSelected(med);
+    setSuggestions([]);
+  };
+
+  const reset = () => {
+    setMedicineName('');
+    setSelected(null);
+    setSuggestions([]);
   };
 
+  return { medicineName, suggestions, selected, changeName, select, reset };
+}
+
+type MedicineSuggestions = ReturnType<typeof useMedicineSuggestions>;
+
+function MedicineNameInput({ id, search, onChange }: { id: string; search: MedicineSuggestions; onChange?: () => void }) {
+  const { medicineName, suggestions, selected } = search;
+  const { t } = useLocale();
+  let statusMessage = '';
+  if (!selected && medicineName.trim().length >= 2) {
+    statusMessage = suggestions.length
+      ? t('common.medicinesFound', { count: suggestions.length })
+      : t('reminderForm.noMatches');
+  }
+  return (
+    <Combobox
+      id={id}
+      label={t('reminderForm.medicineLabel')}
+      placeholder={t('reminderForm.medicinePlaceholder')}
+      value={medicineName}
+      onInputChange={value => {
+        search.changeName(value);
+        if (onChange) onChange();
+      }}
+      options={suggestions}
+      getKey={med => med.id}
+      getLabel={med => med.name}
+      onSelect={med => {
+        search.select(med);
+        if (onChange) onChange();
+      }}
+      statusMessage={statusMessage}
+    />
+  );
+}
+
+interface ReminderCardProps {
+  reminder: Reminder;
+  profile: Profile;
+  now: Date;
+  warnings: InteractionWarning[];
+  otherMedicines: Medicine[]; // the rest of the list, for checking a changed medicine
+  onChange: (reminder: Reminder) => void;
+  onDelete: () => void;
+  onShowInteractions: () => void;
+}
+
+// One reminder on My Medications, edited in place
+function ReminderCard({ reminder, profile, now, warnings, otherMedicines, onChange, onDelete, onShowInteractions }: ReminderCardProps) {
+  const { getSummary } = useCatalog();
+  const { t } = useLocale();
+  const [isEditing, setIsEditing] = useState(false);
+  const [schedule, setSchedule] = useState(reminder.schedule);
+  const current = reminder.medicineId !== undefined ? getSummary(reminder.medicineId) || null : null;
+  const medicineSearch = useMedicineSuggestions(current);
+  const picked = medicineSearch.selected;
+  const medicineChanged = !!picked && picked.id !== reminder.medicineId;
+  const { medicine: pickedMedicine, isLoading: isLoadingPicked } = useMedicine(medicineChanged && picked ? picked.id : null);
+  const candidateWarnings = medicineChanged && pickedMedicine ? checkCandidate(pickedMedicine, otherMedicines) : [];
+  // Screened against the full record: the summary has no side effects
+  const candidateConflicts = medicineChanged && pickedMedicine ? screenMedicine(pickedMedicine, profile) : [];
+  const [conflictsConfirmed, setConflictsConfirmed] = useState(false);
+  const severity = highestSeverity(warnings);
+
+  const startEditing = () => {
+    setSchedule(reminder.schedule);
+    if (current) medicineSearch.select(current);
+    else medicineSearch.changeName(reminder.medicineName);
+    setConflictsConfirmed(false);
+    setIsEditing(true);
+  };
+
+  if (isEditing) {
+    const scheduleError = validateSchedule(schedule);
+    // Keeping a medicine that isn't in the catalog is fine; changing it needs a pick
+    const hasMedicine = !!picked || medicineSearch.medicineName === reminder.medicineName;
+    const isBlocked = !hasMedicine || isLoadingPicked || !!scheduleError || (candidateConflicts.length > 0 && !conflictsConfirmed);
+
+    const handleSave = () => {
+      if (isBlocked) return;
+      onChange({
+        ...reminder,
+        medicineName: picked ? picked.name : reminder.medicineName,
+        medicineId: picked ? picked.id : reminder.medicineId,
+        schedule,
+      });
+      setIsEditing(false);
+    };
+
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-md">
+        <div className="mb-4">
+          <MedicineNameInput id={`reminder-${reminder.id}-medicine`} search={medicineSearch} onChange={() => setConflictsConfirmed(false)} />
+        </div>
+        <div className="mb-4">
+          <ScheduleEditor schedule={schedule} onChange={setSchedule} />
+        </div>
+        {scheduleError && <p className="text-sm text-red-600 mb-4">{t(scheduleError)}</p>}
+        {!hasMedicine && <p className="text-sm text-red-600 mb-4">{t('reminderForm.pickMedicine')}</p>}
+        {candidateConflicts.length > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+            <p className="font-semibold text-red-700 mb-1">{t('reminderForm.conflicts', { name: profile.name })}</p>
+            <ul className="list-disc list-inside text-sm text-red-700 space-y-1 mb-2">
+              {candidateConflicts.map((conflict, index) => (
+                <li key={index}>{t(conflict.message, conflict.params)}</li>
+              ))}
+            </ul>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={conflictsConfirmed}
+                onChange={(e) => setConflictsConfirmed(e.target.checked)}
+              />
+              {t('reminderForm.confirmConflicts', { name: profile.name })}
+            </label>
+          </div>
+        )}
+        {candidateWarnings.length > 0 && (
+          <div className="mb-4">
+            <p className="font-semibold text-gray-800 mb-2">{t('reminderForm.checkBeforeSwitching', { medicine: picked ? picked.name : '' })}</p>
+            <InteractionWarnings warnings={candidateWarnings} />
+          </div>
+        )}
+        <div className="flex justify-end gap-2">
+          <button onClick={() => setIsEditing(false)} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isBlocked}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const next = reminder.pausedAt ? null : nextOccurrence(reminder.schedule, now);
+  let nextText = next ? t('reminder.nextDose', { date: formatDate(next), time: formatTime(next) }) : t('reminder.finished');
+  if (reminder.pausedAt) nextText = t('reminder.pausedSince', { date: formatDate(new Date(reminder.pausedAt)) });
+
+  return (
+    <div className={`bg-white p-4 rounded-lg shadow-md flex justify-between items-center gap-4 ${reminder.pausedAt ? 'opacity-75' : ''}`}>
+      <div>
+        <h3 className="text-xl font-semibold text-blue-600">
+          {reminder.medicineName}
+          {severity && (
+            <button
+              onClick={onShowInteractions}
+              title={warnings.map(warning => t(warning.message, warning.params)).join('\n')}
+              className={`ms-2 align-middle px-2 py-0.5 text-xs font-medium border rounded-full ${SEVERITY_STYLES[severity]}`}
+            >
+              {t('reminder.warnings', { count: warnings.length, severity: t(`severity.${severity}` as MessageKey) })}
+            </button>
+          )}
+        </h3>
+        <p className="text-gray-600">{describeSchedule(reminder.schedule)}</p>
+        <p className="text-sm text-gray-500">{nextText}</p>
+        <ReminderInventory reminder={reminder} onChange={onChange} />
+      </div>
+      <div className="flex flex-col items-end gap-1 flex-shrink-0">
+        <button onClick={startEditing} className="text-blue-600 hover:text-blue-700">
+          {t('common.edit')}
+        </button>
+        <button
+          onClick={() => onChange({ ...reminder, pausedAt: reminder.pausedAt ? undefined : now.toISOString() })}
+          className="text-gray-600 hover:text-gray-700"
+        >
+          {reminder.pausedAt ? t('reminder.resume') : t('reminder.pause')}
+        </button>
+        <button onClick={onDelete} className="text-red-600 hover:text-red-700">
+          {t('common.delete')}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// My Medications Page Component (Adherence Reminder)
+function MyMedicationsPage({ view, profile, reminders, setReminders, doseLog, storedState, onImport, onNotificationsEnabled }: MyMedicationsPageProps) {
+  const [schedule, setSchedule] = useState<ReminderSchedule>(createDefaultSchedule);
+  const medicineSearch = useMedicineSuggestions();
+  const selectedSuggestion = medicineSearch.selected;
+  const { isLoading, error } = useCatalog();
+  const { t } = useLocale();
+  const [showAddModal, setShowAddModal] = useState(false);
+  const [permission, setPermission] = useState(notificationPermission);
+  const [showInteractionReport, setShowInteractionReport] = useState(false);
+  const [showSideEffects, setShowSideEffects] = useState(false);
+  const [showExportImport, setShowExportImport] = useState(false);
+  const interactions = useInteractionReport(reminders);
+  const { medicine: selectedMedicine, isLoading: isLoadingSelected } = useMedicine(selectedSuggestion ? selectedSuggestion.id : null);
+  const candidateWarnings = selectedMedicine ? checkCandidate(selectedMedicine, interactions.medicines) : [];
+  const candidateConflicts = selectedMedicine ? screenMedicine(selectedMedicine, profile) : [];
+  // Conflicts with the health profile block adding until confirmed
+  const [conflictsConfirmed, setConflictsConfirmed] = useState(false);
+  const isBlockedByConflicts = candidateConflicts.length > 0 && !conflictsConfirmed;
+
+  const scheduleError = validateSchedule(schedule);
+
   const handleAddReminder = () => {
     if (!selectedSuggestion) {
       console.log("Please select a medicine from the suggestions.");
       return;
     }
+    if (scheduleError || isBlockedByConflicts) {
+      return;
+    }
     const newReminderItem: Reminder = {
       id: Date.now(),
+      profileId: profile.id,
       medicineName: selectedSuggestion.name,
-      time: reminderTime,
-      medicineId: selectedSuggestion.id
+      medicineId: selectedSuggestion.id,
+      schedule
     };
     setReminders(prev => [...prev, newReminderItem]);
-    setMedicineName('');
-    setReminderTime('09:00');
-    setSelectedSuggestion(null);
+    medicineSearch.reset();
+    setSchedule(createDefaultSchedule());
+    setConflictsConfirmed(false);
     setShowAddModal(false);
   };
 
+  const now = new Date();
+
   const handleDeleteReminder = (id: number) => {
     setReminders(prev => prev.filter(reminder => reminder.id !== id));
   };
 
+  const handleUpdateReminder = (updated: Reminder) => {
+    setReminders(prev => prev.map(reminder => (reminder.id === updated.id ? updated : reminder)));
+  };
+
+  const reminderGroups = [
+    ...groupByPartOfDay(activeReminders(reminders)),
+    { value: 'paused', labelKey: 'medications.paused' as MessageKey, reminders: reminders.filter(reminder => reminder.pausedAt) },
+  ].filter(group => group.reminders.length > 0);
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-full">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
-        <p className="ml-4 text-lg text-gray-700">Loading your medications...</p>
+        <p className="ms-4 text-lg text-gray-700">{t('common.loadingMedications')}</p>
       </div>
     );
   }
@@ -517,85 +1299,200 @@ function MyMedicationsPage({ reminders, setReminders }: MyMedicationsPageProps)
   if (error) {
     return (
       <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
-        <p className="font-bold text-lg mb-2">Error Loading Data:</p>
-        <p>{error}</p>
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
       </div>
     );
   }
 
   return (
     <div className="max-w-4xl mx-auto">
-      <h2 className="text-3xl font-bold mb-6 text-center text-blue-600">My Medications</h2>
-      <button
-        onClick={() => setShowAddModal(true)}
-        className="mb-6 bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 transition duration-200"
-      >
-        Add Reminder
-      </button>
+      <h2 className="text-3xl font-bold mb-2 text-center text-blue-600">{t('medications.title')}</h2>
+      <p className="text-center text-gray-600 mb-6">{t('medications.subtitle', { name: profile.name })}</p>
+      <div className="flex gap-2 mb-6 border-b border-gray-300">
+        {([['reminders', paths.medications, 'medications.reminders'], ['history', paths.medicationHistory, 'medications.history']] as const).map(([tab, to, labelKey]) => (
+          <Link
+            key={tab}
+            to={to}
+            className={`px-4 py-2 -mb-px border-b-2 ${view === tab ? 'border-blue-600 text-blue-600 font-semibold' : 'border-transparent text-gray-600 hover:text-blue-600'}`}
+          >
+            {t(labelKey)}
+          </Link>
+        ))}
+      </div>
 
-      <div className="grid gap-4">
-        {reminders.map((reminder: any) => (
-          <div key={reminder.id} className="bg-white p-4 rounded-lg shadow-md flex justify-between items-center">
-            <div>
-              <h3 className="text-xl font-semibold text-blue-600">{reminder.medicineName}</h3>
-              <p className="text-gray-600">Time: {reminder.time}</p>
+      {view === 'history' ? (
+        <AdherenceHistory reminders={reminders} doseLog={doseLog} />
+      ) : (
+        <>
+          {permission === 'default' && (
+            <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex justify-between items-center gap-4">
+              <p className="text-gray-700">{t('medications.enableText')}</p>
+              <button
+                onClick={() => requestNotificationPermission().then(result => {
+                  setPermission(result);
+                  if (result === 'granted') onNotificationsEnabled();
+                })}
+                className="flex-shrink-0 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition duration-200"
+              >
+                {t('medications.enable')}
+              </button>
             </div>
+          )}
+          <div className="flex flex-wrap gap-2 mb-6">
             <button
-              onClick={() => handleDeleteReminder(reminder.id)}
-              className="text-red-600 hover:text-red-700"
+              onClick={() => setShowAddModal(true)}
+              className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 transition duration-200"
             >
-              Delete
+              {t('medications.add')}
             </button>
-          </div>
-        ))}
-      </div>
-
-      {showAddModal && (
-        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center">
-          <div className="bg-white p-6 rounded-lg shadow-xl">
-            <h3 className="text-xl font-semibold mb-4">Add Medication Reminder</h3>
-            <input
-              type="text"
-              placeholder="Medicine Name"
-              value={medicineName}
-              onChange={handleMedicineNameChange}
-              className="w-full p-2 mb-4 border border-gray-300 rounded-md"
-            />
-            {searchSuggestions.length > 0 && (
-              <ul className="max-h-40 overflow-y-auto custom-scrollbar mb-4">
-                {searchSuggestions.map(med => (
-                  <li
-                    key={med.id}
-                    className="p-2 bg-gray-50 rounded-md shadow-sm hover:bg-blue-50 cursor-pointer transition duration-200"
-                    onClick={() => handleSuggestionClick(med)}
-                  >
-                    {med.name}
-                  </li>
-                ))}
-              </ul>
-            )}
-            <input
-              type="time"
-              value={reminderTime}
-              onChange={(e) => setReminderTime(e.target.value)}
-              className="w-full p-2 mb-4 border border-gray-300 rounded-md"
-            />
-            <div className="flex justify-end gap-2">
+            {reminders.length > 1 && (
               <button
-                onClick={() => setShowAddModal(false)}
-                className="px-4 py-2 text-gray-600 hover:text-gray-700"
+                onClick={() => setShowInteractionReport(prev => !prev)}
+                className="px-6 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition duration-200"
               >
-                Cancel
+                {showInteractionReport ? t('medications.hideInteractions') : t('medications.checkInteractions')}
               </button>
+            )}
+            {reminders.length > 0 && (
               <button
-                onClick={handleAddReminder}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                onClick={() => setShowSideEffects(prev => !prev)}
+                className="px-6 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 transition duration-200"
               >
-                Add
+                {showSideEffects ? t('medications.hideSideEffects') : t('medications.sideEffects')}
               </button>
+            )}
+            <button
+              onClick={() => setShowExportImport(true)}
+              className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200"
+            >
+              {t('medications.exportImport')}
+            </button>
+            {reminders.length > 0 && (
+              <Link
+                to={paths.medicationTimetable}
+                className="px-6 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition duration-200"
+              >
+                {t('medications.printTimetable')}
+              </Link>
+            )}
+          </div>
+
+          {showInteractionReport && (
+            <div className="mb-6 p-4 bg-white rounded-lg shadow-md">
+              <h3 className="text-lg font-semibold mb-3 text-gray-800">{t('medications.interactionTitle')}</h3>
+              {interactions.isLoading ? (
+                <p className="text-gray-600">{t('medications.checking')}</p>
+              ) : interactions.warnings.length ? (
+                <InteractionWarnings warnings={interactions.warnings} />
+              ) : (
+                <p className="text-gray-600">{t('medications.noInteractions')}</p>
+              )}
+              <p className="text-xs text-gray-500 mt-3">
+                {t('medications.interactionNote')}
+              </p>
             </div>
+          )}
+
+          {showSideEffects && (
+            <div className="mb-6 p-4 bg-white rounded-lg shadow-md">
+              <h3 className="text-lg font-semibold mb-3 text-gray-800">{t('medications.sideEffectsTitle')}</h3>
+              {interactions.isLoading ? (
+                <p className="text-gray-600">{t('common.loadingMedications')}</p>
+              ) : (
+                <ReminderSideEffects medicines={interactions.medicines} />
+              )}
+            </div>
+          )}
+
+          <div className="space-y-6">
+            {reminderGroups.map(group => (
+              <section key={group.value} aria-labelledby={`reminders-${group.value}`}>
+                <h3 id={`reminders-${group.value}`} className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                  {t(group.labelKey)}
+                </h3>
+                <div className="grid gap-4">
+                  {group.reminders.map(reminder => (
+                    <ReminderCard
+                      key={reminder.id}
+                      reminder={reminder}
+                      profile={profile}
+                      now={now}
+                      warnings={interactions.forReminder(reminder)}
+                      otherMedicines={interactions.medicines.filter(medicine => medicine.id !== reminder.medicineId)}
+                      onChange={handleUpdateReminder}
+                      onDelete={() => handleDeleteReminder(reminder.id)}
+                      onShowInteractions={() => setShowInteractionReport(true)}
+                    />
+                  ))}
+                </div>
+              </section>
+            ))}
           </div>
-        </div>
+        </>
+      )}
+
+      {showExportImport && (
+        <ExportImportDialog
+          profile={profile}
+          storedState={storedState}
+          onImport={onImport}
+          onClose={() => setShowExportImport(false)}
+        />
+      )}
+
+      {showAddModal && (
+        <Dialog labelledBy="add-reminder-title" onClose={() => setShowAddModal(false)}>
+          <h3 id="add-reminder-title" className="text-xl font-semibold mb-4">{t('reminderForm.title')}</h3>
+          <div className="mb-4">
+            <MedicineNameInput id="reminder-medicine" search={medicineSearch} onChange={() => setConflictsConfirmed(false)} />
+          </div>
+          <div className="mb-4">
+            <ScheduleEditor schedule={schedule} onChange={setSchedule} />
+          </div>
+          {scheduleError && (
+            <p className="text-sm text-red-600 mb-4">{t(scheduleError)}</p>
+          )}
+          {candidateConflicts.length > 0 && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+              <p className="font-semibold text-red-700 mb-1">{t('reminderForm.conflicts', { name: profile.name })}</p>
+              <ul className="list-disc list-inside text-sm text-red-700 space-y-1 mb-2">
+                {candidateConflicts.map((conflict, index) => (
+                  <li key={index}>{t(conflict.message, conflict.params)}</li>
+                ))}
+              </ul>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={conflictsConfirmed}
+                  onChange={(e) => setConflictsConfirmed(e.target.checked)}
+                />
+                {t('reminderForm.confirmConflicts', { name: profile.name })}
+              </label>
+            </div>
+          )}
+          {candidateWarnings.length > 0 && (
+            <div className="mb-4">
+              <p className="font-semibold text-gray-800 mb-2">{t('reminderForm.checkBeforeAdding', { medicine: selectedSuggestion ? selectedSuggestion.name : '' })}</p>
+              <InteractionWarnings warnings={candidateWarnings} />
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setShowAddModal(false)}
+              className="px-4 py-2 text-gray-600 hover:text-gray-700"
+            >
+              {t('common.cancel')}
+            </button>
+            <button
+              onClick={handleAddReminder}
+              disabled={!selectedSuggestion || isLoadingSelected || !!scheduleError || isBlockedByConflicts}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {candidateWarnings.length || candidateConflicts.length ? t('reminderForm.addAnyway') : t('reminderForm.add')}
+            </button>
+          </div>
+        </Dialog>
       )}
     </div>
   );
@@ -605,5 +1502,11 @@ function MyMedicationsPage({ reminders, setReminders }: MyMedicationsPageProps)
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  root.render(
+    <LocaleProvider>
+      <CatalogProvider>
+        <StoredApp />
+      </CatalogProvider>
+    </LocaleProvider>
+  );
 }
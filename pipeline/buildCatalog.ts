@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { buildSideEffectIndex } from '../src/sideEffects';
+import { Medicine } from '../src/types';
+import { normalizeDataset, PipelineReport } from './normalize';
+
+// Number of detail shards; the frontend reads it back from the index
+export const SHARD_COUNT = 64;
+
+interface BuildCatalogOptions {
+  source: string; // raw dataset (JSON array)
+  outDir: string; // where the frontend's catalog files go
+  reportFile: string;
+}
+
+const writeJson = (file: string, data: unknown) => fs.writeFileSync(file, JSON.stringify(data));
+
+// Writes the files src/catalog.tsx loads: a compact index (everything the
+// search and list views need), per-shard details fetched when a medicine is
+// opened, the side effect reverse index and the dataset version
+export const writeCatalog = (medicines: Medicine[], outDir: string) => {
+  const version = crypto.createHash('sha1').update(JSON.stringify(medicines)).digest('hex').slice(0, 12);
+  const shards = Array.from({ length: SHARD_COUNT }, () => ({} as Record<number, Pick<Medicine, 'sideEffects' | 'substitutes' | 'substituteIds'>>));
+  const summaries = medicines.map(({ sideEffects, substitutes, substituteIds, ...summary }) => {
+    shards[summary.id % SHARD_COUNT][summary.id] = { sideEffects, substitutes, substituteIds };
+    return summary;
+  });
+
+  fs.rmSync(outDir, { recursive: true, force: true });
+  fs.mkdirSync(outDir, { recursive: true });
+  writeJson(path.join(outDir, 'index.json'), { version, shardCount: SHARD_COUNT, medicines: summaries });
+  shards.forEach((shard, index) => writeJson(path.join(outDir, `shard-${index}.json`), shard));
+  writeJson(path.join(outDir, 'side-effects.json'), buildSideEffectIndex(medicines));
+  // Tiny file the app checks first, so a new dataset is noticed without
+  // downloading the index
+  writeJson(path.join(outDir, 'version.json'), { version });
+  return { version };
+};
+
+// Raw dataset in, validated catalog files and a report of what was fixed or dropped out
+export const buildCatalog = ({ source, outDir, reportFile }: BuildCatalogOptions): { version: string; report: PipelineReport } => {
+  const raw = JSON.parse(fs.readFileSync(source, 'utf8'));
+  const { medicines, report } = normalizeDataset(raw);
+  const { version } = writeCatalog(medicines, outDir);
+  fs.mkdirSync(path.dirname(reportFile), { recursive: true });
+  fs.writeFileSync(reportFile, JSON.stringify(report, null, 2));
+  return { version, report };
+};
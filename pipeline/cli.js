@@ -0,0 +1,15 @@
+require('./register');
+const { buildCatalog } = require('./buildCatalog.ts');
+const { summarizeReport } = require('./normalize.ts');
+
+// Usage: node pipeline/cli.js [source] [outDir] [reportFile]
+const [
+    source = 'public/processed_medicine_data.json',
+    outDir = 'dist/catalog',
+    reportFile = 'data-report.json',
+] = process.argv.slice(2);
+
+const { version, report } = buildCatalog({ source, outDir, reportFile });
+console.log(`Wrote catalog version ${version} to ${outDir}`);
+console.log(summarizeReport(report));
+console.log(`Details in ${reportFile}`);
@@ -0,0 +1,98 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { test } from 'node:test';
+import { buildCatalog, SHARD_COUNT } from './buildCatalog';
+import { normalizeDataset, normalizeName } from './normalize';
+
+// Run with: node test.js (or just this file: node -r ./pipeline/register.js pipeline/normalize.test.ts)
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'raw-medicines.json');
+const readFixture = () => JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+
+test('normalizeName title-cases single-case names and keeps mixed case', () => {
+  assert.strictEqual(normalizeName('  MOXIKIND-CV 625 TABLET '), 'Moxikind-CV 625 Tablet');
+  assert.strictEqual(normalizeName('moxikind-cv 625 tablet'), 'Moxikind-CV 625 Tablet');
+  assert.strictEqual(normalizeName('DOLO 650MG TABLET'), 'Dolo 650mg Tablet');
+  assert.strictEqual(normalizeName('UPRISE-D3 60K CAPSULE'), 'Uprise-D3 60k Capsule');
+  assert.strictEqual(normalizeName('VITAMIN B12 ANTI-COLD SYRUP'), 'Vitamin B12 Anti-Cold Syrup');
+  assert.strictEqual(normalizeName('Moxikind-CV  625 Tablet'), 'Moxikind-CV 625 Tablet');
+});
+
+test('drops malformed records and reports why', () => {
+  const { report } = normalizeDataset(readFixture());
+  assert.strictEqual(report.total, 9);
+  assert.deepStrictEqual(
+    report.dropped.map(({ index, problems }) => [index, problems]),
+    [[5, ['missing name']], [6, ['missing id']], [7, ['not an object']]]
+  );
+});
+
+test('splits comma-joined lists and repairs fields', () => {
+  const { medicines, report } = normalizeDataset(readFixture());
+  const moxikind = medicines.find(medicine => medicine.id === 2)!;
+  assert.deepStrictEqual(moxikind.uses, ['Treatment of Bacterial infections']);
+  assert.deepStrictEqual(moxikind.sideEffects, ['Vomiting', 'Nausea', 'Diarrhea']);
+  assert.strictEqual(moxikind["Habit Forming"], 'No');
+
+  const dolo = medicines.find(medicine => medicine.id === 3)!;
+  assert.strictEqual(dolo.name, 'Dolo 650 Tablet');
+  assert.deepStrictEqual(dolo.sideEffects, ['Nausea', 'Stomach pain']);
+
+  const alprax = medicines.find(medicine => medicine.id === 6)!;
+  assert.deepStrictEqual(alprax.sideEffects, []);
+  assert.ok(report.fixed.some(({ id, problems }) => id === 6 && problems.includes('missing sideEffects')));
+});
+
+test('keeps commas inside substitute names', () => {
+  const [augmentin] = readFixture();
+  const { medicines } = normalizeDataset([{ ...augmentin, substitutes: 'Becosules Z, Vitamin B Capsule' }]);
+  assert.deepStrictEqual(medicines[0].substitutes, ['Becosules Z, Vitamin B Capsule']);
+});
+
+test('dedupes by id and merges records with the same name', () => {
+  const { medicines, report } = normalizeDataset(readFixture());
+  assert.deepStrictEqual(medicines.map(medicine => medicine.id), [1, 2, 3, 6]);
+  assert.deepStrictEqual(
+    report.duplicates.map(({ id, keptId, reason }) => [id, keptId, reason]),
+    [[4, 3, 'name'], [1, 1, 'id']]
+  );
+  const dolo = medicines.find(medicine => medicine.id === 3)!;
+  assert.deepStrictEqual(dolo.uses, ['Pain relief', 'Treatment of Fever', 'Headache']);
+  assert.deepStrictEqual(dolo.substitutes, ['Calpol 650 Tablet']);
+});
+
+test('resolves substitutes to catalog ids', () => {
+  const { medicines, report } = normalizeDataset(readFixture());
+  const augmentin = medicines.find(medicine => medicine.id === 1)!;
+  assert.deepStrictEqual(augmentin.substituteIds, [2, null]);
+  assert.deepStrictEqual(medicines.find(medicine => medicine.id === 2)!.substituteIds, [1]);
+  assert.strictEqual(report.unresolvedSubstitutes, 3);
+});
+
+test('writes the index, shards, version and report', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-'));
+  try {
+    const outDir = path.join(dir, 'catalog');
+    const reportFile = path.join(dir, 'report.json');
+    const { version } = buildCatalog({ source: FIXTURE, outDir, reportFile });
+
+    const index = JSON.parse(fs.readFileSync(path.join(outDir, 'index.json'), 'utf8'));
+    assert.strictEqual(index.version, version);
+    assert.strictEqual(index.shardCount, SHARD_COUNT);
+    assert.strictEqual(index.medicines.length, 4);
+    assert.ok(!('sideEffects' in index.medicines[0]));
+    assert.deepStrictEqual(JSON.parse(fs.readFileSync(path.join(outDir, 'version.json'), 'utf8')), { version });
+
+    const shard = JSON.parse(fs.readFileSync(path.join(outDir, `shard-${1 % SHARD_COUNT}.json`), 'utf8'));
+    assert.deepStrictEqual(shard['1'].substituteIds, [2, null]);
+
+    const sideEffects = JSON.parse(fs.readFileSync(path.join(outDir, 'side-effects.json'), 'utf8'));
+    const nausea = sideEffects.terms.find((term: { key: string }) => term.key === 'nausea');
+    assert.deepStrictEqual(nausea.medicineIds, [1, 2, 3]);
+    assert.strictEqual(JSON.parse(fs.readFileSync(reportFile, 'utf8')).written, 4);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,229 @@
+import { Medicine } from '../src/types';
+
+// Validation and clean-up of the raw medicine dataset. Every change made to a
+// record is noted in the report, and records that can't be repaired are
+// dropped and listed with the reason.
+
+const CLASS_FIELDS = ['Chemical Class', 'Habit Forming', 'Therapeutic Class', 'Action Class'] as const;
+const LIST_FIELDS = ['uses', 'sideEffects', 'substitutes'] as const;
+type ListField = typeof LIST_FIELDS[number];
+
+// Separators the source uses when a list was exported as a single string.
+// Only used for terms: medicine names can contain commas, so substitutes
+// are never split.
+const LIST_SEPARATOR = /\s*[,;]\s*/;
+const SPLIT_FIELDS: ListField[] = ['uses', 'sideEffects'];
+
+export interface RecordIssue {
+  index: number; // position in the raw array
+  id?: unknown;
+  name?: unknown;
+  problems: string[];
+}
+
+export interface DuplicateRecord {
+  index: number;
+  id: number;
+  name: string;
+  keptId: number;
+  reason: 'id' | 'name';
+}
+
+export interface PipelineReport {
+  total: number;
+  written: number;
+  dropped: RecordIssue[];
+  fixed: RecordIssue[];
+  duplicates: DuplicateRecord[];
+  unresolvedSubstitutes: number;
+}
+
+const collapseWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+export const nameKey = (name: string) => collapseWhitespace(name).toLowerCase();
+
+// Short codes stay upper case: suffixes after a hyphen ("-CV", "-DSR") and
+// letters followed by a number ("D3", "B12")
+const isCode = (part: string, afterHyphen: boolean) =>
+  (afterHyphen && /^[a-z0-9]{1,3}$/i.test(part)) || /^[a-z]{1,2}\d+$/i.test(part);
+
+const titleCasePart = (part: string, afterHyphen: boolean) => {
+  if (isCode(part, afterHyphen)) return part.toUpperCase();
+  return /^[a-z]/i.test(part) ? part[0].toUpperCase() + part.slice(1).toLowerCase() : part.toLowerCase();
+};
+
+// Names that arrive all upper or all lower case are title-cased; mixed case
+// is assumed to be deliberate (e.g. "pH-Balanced", "Dolo 650")
+export const normalizeName = (name: string) => {
+  const text = collapseWhitespace(name);
+  if (text !== text.toUpperCase() && text !== text.toLowerCase()) return text;
+  return text
+    .split(' ')
+    .map(word => word.split('-').map((part, index) => titleCasePart(part, index > 0)).join('-'))
+    .join(' ');
+};
+
+const normalizeTerm = (term: string) => {
+  const text = collapseWhitespace(term).replace(/\.+$/, '');
+  return text ? text[0].toUpperCase() + text.slice(1) : text;
+};
+
+// Case-insensitive, order-preserving
+const uniqueTerms = (terms: string[]) => {
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readId = (value: unknown, problems: string[], fixes: string[]) => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value;
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) {
+    fixes.push('id was text');
+    return Number(value.trim());
+  }
+  problems.push(value === undefined ? 'missing id' : 'id is not a non-negative whole number');
+  return null;
+};
+
+const readList = (field: ListField, value: unknown, fixes: string[]) => {
+  if (value === undefined || value === null) {
+    fixes.push(`missing ${field}`);
+    return [];
+  }
+  let items: unknown[];
+  if (typeof value === 'string') {
+    fixes.push(`${field} was a single string`);
+    items = [value];
+  } else if (Array.isArray(value)) {
+    items = value;
+  } else {
+    fixes.push(`${field} was not a list`);
+    return [];
+  }
+
+  const texts = items.filter((item): item is string => typeof item === 'string');
+  if (texts.length < items.length) fixes.push(`dropped ${items.length - texts.length} non-text ${field} entries`);
+  const split = SPLIT_FIELDS.includes(field) ? texts.flatMap(text => text.split(LIST_SEPARATOR)) : texts;
+  if (split.length > texts.length) fixes.push(`split comma-joined ${field}`);
+  const terms = split.map(field === 'substitutes' ? normalizeName : normalizeTerm).filter(Boolean);
+  const unique = uniqueTerms(terms);
+  if (unique.length < terms.length) fixes.push(`removed repeated ${field}`);
+  return unique;
+};
+
+const readHabitForming = (value: string, fixes: string[]) => {
+  const normalized = /^(yes|y|true)$/i.test(value) ? 'Yes' : /^(no|n|false)$/i.test(value) ? 'No' : value;
+  if (normalized !== value) fixes.push('normalized Habit Forming');
+  return normalized;
+};
+
+// Checks one raw record against the Medicine shape, repairing what it can.
+// `medicine` is null when the record has to be dropped.
+export const validateRecord = (raw: unknown, index: number) => {
+  const problems: string[] = [];
+  const fixes: string[] = [];
+  if (!isRecord(raw)) {
+    return { medicine: null, dropped: { index, problems: ['not an object'] }, fixed: null };
+  }
+
+  const id = readId(raw.id, problems, fixes);
+  let name = '';
+  if (typeof raw.name !== 'string' || !collapseWhitespace(raw.name)) {
+    problems.push('missing name');
+  } else {
+    name = normalizeName(raw.name);
+    if (name !== raw.name) fixes.push('normalized name');
+  }
+  if (id === null || problems.length) {
+    return { medicine: null, dropped: { index, id: raw.id, name: raw.name, problems }, fixed: null };
+  }
+
+  const classes = {} as Record<typeof CLASS_FIELDS[number], string>;
+  CLASS_FIELDS.forEach(field => {
+    const value = raw[field];
+    if (typeof value !== 'string') {
+      fixes.push(`missing ${field}`);
+      classes[field] = '';
+      return;
+    }
+    classes[field] = collapseWhitespace(value);
+    if (classes[field] !== value) fixes.push(`trimmed ${field}`);
+  });
+  classes["Habit Forming"] = readHabitForming(classes["Habit Forming"], fixes);
+
+  const medicine: Medicine = {
+    id,
+    name,
+    uses: readList('uses', raw.uses, fixes),
+    sideEffects: readList('sideEffects', raw.sideEffects, fixes),
+    substitutes: readList('substitutes', raw.substitutes, fixes),
+    ...classes,
+  };
+  return { medicine, dropped: null, fixed: fixes.length ? { index, id, name, problems: fixes } : null };
+};
+
+const mergeLists = (a: string[], b: string[]) => uniqueTerms([...a, ...b]);
+
+// Validates, repairs and dedupes the raw dataset, then links substitutes to
+// catalog ids. Records with a repeated id are dropped; records with a
+// repeated name are merged into the first one.
+export const normalizeDataset = (raw: unknown) => {
+  if (!Array.isArray(raw)) {
+    throw new Error('The dataset must be a JSON array of medicines');
+  }
+
+  const report: PipelineReport = { total: raw.length, written: 0, dropped: [], fixed: [], duplicates: [], unresolvedSubstitutes: 0 };
+  const byId = new Map<number, Medicine>();
+  const byName = new Map<string, Medicine>();
+  const medicines: Medicine[] = [];
+
+  raw.forEach((record, index) => {
+    const { medicine, dropped, fixed } = validateRecord(record, index);
+    if (dropped) report.dropped.push(dropped);
+    if (fixed) report.fixed.push(fixed);
+    if (!medicine) return;
+
+    const sameId = byId.get(medicine.id);
+    if (sameId) {
+      report.duplicates.push({ index, id: medicine.id, name: medicine.name, keptId: sameId.id, reason: 'id' });
+      return;
+    }
+    const sameName = byName.get(nameKey(medicine.name));
+    if (sameName) {
+      report.duplicates.push({ index, id: medicine.id, name: medicine.name, keptId: sameName.id, reason: 'name' });
+      sameName.uses = mergeLists(sameName.uses, medicine.uses);
+      sameName.sideEffects = mergeLists(sameName.sideEffects, medicine.sideEffects);
+      sameName.substitutes = mergeLists(sameName.substitutes, medicine.substitutes);
+      return;
+    }
+    byId.set(medicine.id, medicine);
+    byName.set(nameKey(medicine.name), medicine);
+    medicines.push(medicine);
+  });
+
+  medicines.forEach(medicine => {
+    medicine.substituteIds = medicine.substitutes.map(substitute => {
+      const match = byName.get(nameKey(substitute));
+      if (!match) report.unresolvedSubstitutes++;
+      return match ? match.id : null;
+    });
+  });
+
+  report.written = medicines.length;
+  return { medicines, report };
+};
+
+export const summarizeReport = (report: PipelineReport) =>
+  [
+    `${report.total} records read, ${report.written} written`,
+    `${report.dropped.length} dropped as malformed, ${report.fixed.length} repaired`,
+    `${report.duplicates.length} duplicates removed`,
+    `${report.unresolvedSubstitutes} substitutes not found in the catalog`,
+  ].join('\n');
@@ -0,0 +1,18 @@
+const fs = require('fs');
+const ts = require('typescript');
+
+// Lets Node require the pipeline's .ts files directly, using the TypeScript
+// compiler the webpack build already depends on. Types aren't checked here;
+// the editor and ts-loader do that.
+require.extensions['.ts'] = (module, filename) => {
+    const source = fs.readFileSync(filename, 'utf8');
+    const { outputText } = ts.transpileModule(source, {
+        fileName: filename,
+        compilerOptions: {
+            module: ts.ModuleKind.CommonJS,
+            target: ts.ScriptTarget.ES2019,
+            esModuleInterop: true,
+        },
+    });
+    module._compile(outputText, filename);
+};
@@ -0,0 +1,210 @@
+// Service worker for medication reminders. Keeps the app usable offline by
+// caching the app shell and the medicine catalog, shows dose notifications
+// with Taken/Snooze actions and, where the browser supports notification
+// triggers, schedules upcoming doses so they appear with no tab open.
+
+// Must match NOTIFICATION_SNOOZE_MINUTES in src/notifications.ts
+const SNOOZE_MINUTES = 10;
+
+// Bump to drop the cached shell after changing what it contains
+const SHELL_CACHE = 'medicine-app-shell-v1';
+const SHELL_FILES = ['/', '/index.html', '/bundle.js', '/manifest.webmanifest', '/icon.svg'];
+
+// One cache per dataset version, so a new dataset replaces the old shards
+// as a whole. Catalog URLs carry the version (see src/catalog.tsx).
+const CATALOG_CACHE_PREFIX = 'medicine-app-catalog-';
+const CATALOG_INDEX_PATH = '/catalog/index.json';
+// Unsplit dataset, shipped when the build couldn't shard it
+const FULL_DATASET_PATH = '/processed_medicine_data.json';
+
+// Fallback timers only fire while the browser keeps this worker alive
+let pendingTimers = [];
+
+const supportsTriggers = () => typeof TimestampTrigger !== 'undefined' && 'showTrigger' in Notification.prototype;
+
+// The page sends the button titles in the user's language; the English
+// ones cover doses scheduled by an older version of the page
+const notificationOptions = (dose) => {
+    const titles = dose.actionTitles || {};
+    return {
+        body: dose.body,
+        tag: dose.id,
+        renotify: true,
+        requireInteraction: true,
+        timestamp: dose.timestamp,
+        data: { dose },
+        actions: [
+            { action: 'taken', title: titles.taken || 'Taken' },
+            { action: 'snooze', title: titles.snooze || `Snooze ${SNOOZE_MINUTES} min` },
+        ],
+    };
+};
+
+const showDose = (dose) => self.registration.showNotification(dose.title, notificationOptions(dose));
+
+const showDoseAt = (dose, timestamp) => {
+    if (supportsTriggers()) {
+        return self.registration.showNotification(dose.title, {
+            ...notificationOptions(dose),
+            showTrigger: new TimestampTrigger(timestamp),
+        });
+    }
+    const delay = timestamp - Date.now();
+    if (delay <= 0) {
+        return showDose(dose);
+    }
+    pendingTimers.push(setTimeout(() => showDose(dose), delay));
+    return Promise.resolve();
+};
+
+const scheduleDoses = async (doses) => {
+    pendingTimers.forEach(clearTimeout);
+    pendingTimers = [];
+    if (supportsTriggers()) {
+        // Replace everything scheduled earlier with the app's current view
+        const scheduled = await self.registration.getNotifications({ includeTriggered: false });
+        scheduled.forEach((notification) => notification.close());
+    }
+    await Promise.all(doses.filter((dose) => dose.timestamp > Date.now()).map((dose) => showDoseAt(dose, dose.timestamp)));
+};
+
+const deleteCaches = async (shouldDelete) => {
+    const names = await caches.keys();
+    await Promise.all(names.filter(shouldDelete).map((name) => caches.delete(name)));
+};
+
+// Network first so online users always get the latest shell and data
+// version, falling back to the last copy when offline. With a fallback URL
+// the response is stored under it, so each route doesn't get its own copy.
+const networkFirst = async (request, cacheName, fallbackUrl) => {
+    const cache = await caches.open(cacheName);
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            await cache.put(fallbackUrl || request, response.clone());
+        }
+        return response;
+    } catch (e) {
+        const cached = (await cache.match(request)) || (fallbackUrl && (await cache.match(fallbackUrl)));
+        if (cached) {
+            return cached;
+        }
+        throw e;
+    }
+};
+
+// Versioned catalog files never change, so they're served from the cache
+// once fetched. Storing a new index retires every other dataset version.
+const catalogFile = async (request, version) => {
+    const cacheName = CATALOG_CACHE_PREFIX + version;
+    const cache = await caches.open(cacheName);
+    const cached = await cache.match(request);
+    if (cached) {
+        return cached;
+    }
+    const response = await fetch(request);
+    if (response.ok) {
+        await cache.put(request, response.clone());
+        if (new URL(request.url).pathname === CATALOG_INDEX_PATH) {
+            await deleteCaches((name) => name.startsWith(CATALOG_CACHE_PREFIX) && name !== cacheName);
+        }
+    }
+    return response;
+};
+
+self.addEventListener('install', (event) => {
+    event.waitUntil((async () => {
+        const cache = await caches.open(SHELL_CACHE);
+        try {
+            await cache.addAll(SHELL_FILES);
+        } catch (e) {
+            // The shell is cached as it's fetched instead
+            console.warn('Failed to precache the app shell:', e);
+        }
+        await self.skipWaiting();
+    })());
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil((async () => {
+        await deleteCaches((name) => name.startsWith('medicine-app-shell-') && name !== SHELL_CACHE);
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+    if (request.method !== 'GET' || url.origin !== self.location.origin) {
+        return;
+    }
+    // Sync requests must reach the server; a cached answer would hide changes
+    if (url.pathname.startsWith('/api/')) {
+        return;
+    }
+
+    const version = url.searchParams.get('v');
+    if (url.pathname.startsWith('/catalog/') && version) {
+        event.respondWith(catalogFile(request, version));
+    } else if (url.pathname === FULL_DATASET_PATH) {
+        event.respondWith(networkFirst(request, `${CATALOG_CACHE_PREFIX}full`));
+    } else if (request.mode === 'navigate') {
+        // Every route is rendered by index.html
+        event.respondWith(networkFirst(request, SHELL_CACHE, '/index.html'));
+    } else if (SHELL_FILES.includes(url.pathname)) {
+        event.respondWith(networkFirst(request, SHELL_CACHE));
+    }
+    // Anything else goes to the network as usual and isn't kept
+});
+
+self.addEventListener('message', (event) => {
+    const message = event.data || {};
+    if (message.type === 'schedule-doses') {
+        event.waitUntil(scheduleDoses(message.doses || []));
+    } else if (message.type === 'show-doses') {
+        event.waitUntil(Promise.all((message.doses || []).map(showDose)));
+    }
+});
+
+self.addEventListener('notificationclick', (event) => {
+    const { dose } = event.notification.data || {};
+    event.notification.close();
+    if (!dose) {
+        return;
+    }
+
+    let action = null;
+    if (event.action === 'taken') {
+        action = { type: 'taken' };
+    } else if (event.action === 'snooze') {
+        action = { type: 'snooze', minutes: SNOOZE_MINUTES };
+    }
+
+    event.waitUntil((async () => {
+        if (action && action.type === 'snooze') {
+            await showDoseAt(dose, Date.now() + SNOOZE_MINUTES * 60 * 1000);
+        }
+
+        const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+        if (windows.length > 0) {
+            // Only one tab applies the action; the others pick up the saved
+            // change through storage, so stock isn't used up once per tab
+            const client = windows.find((candidate) => candidate.focused)
+                || windows.find((candidate) => candidate.visibilityState === 'visible')
+                || windows[0];
+            client.postMessage({ type: 'dose-action', entryId: dose.id, action });
+            // Clicking the notification itself brings the app forward
+            if (!action) {
+                await client.focus();
+            }
+            return;
+        }
+
+        // No open tab: hand the action to the app through the URL
+        const params = new URLSearchParams({ dose: dose.id });
+        if (event.action) {
+            params.set('doseAction', event.action);
+        }
+        await self.clients.openWindow(`/medications?${params}`);
+    })());
+});
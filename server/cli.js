@@ -0,0 +1,11 @@
+require('../pipeline/register');
+const { createMockSyncServer } = require('./mockSyncServer.ts');
+
+// Usage: node server/cli.js [port] [dataFile]
+// Without a data file everything is lost when the server stops.
+const [port = '8787', file] = process.argv.slice(2);
+
+createMockSyncServer({ file }).listen(Number(port), () => {
+    console.log(`Mock sync server listening on http://localhost:${port}`);
+    console.log(file ? `Saving data to ${file}` : 'Keeping data in memory only');
+});
@@ -0,0 +1,211 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import http from 'http';
+import { CollectionName } from '../src/storage';
+import {
+  ChangesResponse,
+  collectionForPath,
+  ErrorResponse,
+  MAX_CHANGES_PER_WRITE,
+  MAX_RECORDS_PER_PAGE,
+  RecordChange,
+  SignInResponse,
+  SyncRecord,
+  WriteResponse,
+  WriteResult,
+} from '../src/syncApi';
+
+// Development server for the sync API (src/syncApi.ts). Accounts are created
+// on first sign-in and everything is kept in memory, optionally saved to a
+// JSON file so it survives a restart. Not meant for real data: passwords are
+// stored as given and tokens never expire.
+
+// Changes are sent as small batches; anything bigger is a client bug
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+interface StoredRecord extends SyncRecord {
+  sequence: number; // position in the server-wide change order, used as the pull cursor
+}
+
+interface Account {
+  password: string;
+  collections: Record<CollectionName, Record<string, StoredRecord>>;
+}
+
+interface ServerData {
+  sequence: number;
+  accounts: Record<string, Account>;
+  tokens: Record<string, string>; // token -> username
+}
+
+interface MockSyncServerOptions {
+  file?: string; // where to keep the data between runs; memory only when unset
+  pageSize?: number; // records per page of changes, small in tests to exercise paging
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const emptyData = (): ServerData => ({ sequence: 0, accounts: {}, tokens: {} });
+
+const readData = (file?: string): ServerData => {
+  if (!file || !fs.existsSync(file)) return emptyData();
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: http.IncomingMessage) => new Promise<unknown>((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) reject(new HttpError(413, 'Request body is too large'));
+  });
+  req.on('end', () => {
+    try {
+      resolve(body ? JSON.parse(body) : {});
+    } catch (e) {
+      reject(new HttpError(400, 'Request body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const isChange = (value: unknown): value is RecordChange =>
+  isObject(value) &&
+  (typeof value.id === 'number' || typeof value.id === 'string') &&
+  typeof value.baseRevision === 'number' && Number.isInteger(value.baseRevision) && value.baseRevision >= 0 &&
+  typeof value.updatedAt === 'string' &&
+  typeof value.deleted === 'boolean' &&
+  (value.deleted ? value.data === null : isObject(value.data));
+
+const publicRecord = ({ sequence, ...record }: StoredRecord): SyncRecord => record;
+
+export const createMockSyncServer = ({ file, pageSize = MAX_RECORDS_PER_PAGE }: MockSyncServerOptions = {}) => {
+  const data = readData(file);
+
+  const save = () => {
+    if (file) fs.writeFileSync(file, JSON.stringify(data, null, 2));
+  };
+
+  const signIn = (body: unknown): SignInResponse => {
+    const username = isObject(body) && typeof body.username === 'string' ? body.username.trim() : '';
+    const password = isObject(body) && typeof body.password === 'string' ? body.password : '';
+    if (!username || !password) throw new HttpError(400, 'Username and password are required');
+    const account = data.accounts[username];
+    if (account && account.password !== password) throw new HttpError(401, 'Wrong username or password');
+    if (!account) {
+      data.accounts[username] = { password, collections: { profiles: {}, reminders: {}, doseLog: {} } };
+    }
+    const token = crypto.randomBytes(24).toString('hex');
+    data.tokens[token] = username;
+    save();
+    return { username, token };
+  };
+
+  const authenticate = (req: http.IncomingMessage) => {
+    const match = /^Bearer (\S+)$/.exec(req.headers.authorization || '');
+    const username = match && data.tokens[match[1]];
+    if (!username || !data.accounts[username]) throw new HttpError(401, 'Not signed in');
+    return data.accounts[username];
+  };
+
+  const changesSince = (records: Record<string, StoredRecord>, since: number): ChangesResponse => {
+    const changed = Object.values(records)
+      .filter(record => record.sequence > since)
+      .sort((a, b) => a.sequence - b.sequence);
+    const page = changed.slice(0, pageSize);
+    const hasMore = changed.length > page.length;
+    return {
+      records: page.map(publicRecord),
+      // Past the last record sent, or everything when that was the last page
+      cursor: hasMore ? page[page.length - 1].sequence : data.sequence,
+      hasMore,
+    };
+  };
+
+  // Accepts a change only when it was made on top of the current revision
+  const write = (records: Record<string, StoredRecord>, change: RecordChange): WriteResult => {
+    const key = String(change.id);
+    const current = records[key];
+    if ((current ? current.revision : 0) !== change.baseRevision) {
+      return current
+        ? { status: 'conflict', current: publicRecord(current) }
+        // Based on a revision this server never had
+        : { status: 'conflict', current: { id: change.id, revision: 0, updatedAt: '', deleted: true, data: null } };
+    }
+    const record: StoredRecord = {
+      id: change.id,
+      revision: change.baseRevision + 1,
+      updatedAt: change.updatedAt,
+      deleted: change.deleted,
+      data: change.deleted ? null : change.data,
+      sequence: ++data.sequence,
+    };
+    records[key] = record;
+    return { status: 'ok', record: publicRecord(record) };
+  };
+
+  const writeChanges = (records: Record<string, StoredRecord>, body: unknown): WriteResponse => {
+    const changes: unknown[] | null = isObject(body) && Array.isArray(body.changes) ? body.changes : null;
+    if (!changes) throw new HttpError(400, 'Expected { changes: [...] }');
+    if (changes.length > MAX_CHANGES_PER_WRITE) {
+      throw new HttpError(413, `At most ${MAX_CHANGES_PER_WRITE} changes per request`);
+    }
+    const invalid = changes.findIndex(change => !isChange(change));
+    if (invalid !== -1) throw new HttpError(400, `Change ${invalid} is not a valid record change`);
+    const results = (changes as RecordChange[]).map(change => write(records, change));
+    save();
+    return { results };
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (url.pathname === '/api/sessions' && req.method === 'POST') {
+      sendJson(res, 200, signIn(await readBody(req)));
+      return;
+    }
+    const match = /^\/api\/([\w-]+)$/.exec(url.pathname);
+    const collection = match && collectionForPath(match[1]);
+    if (!collection) throw new HttpError(404, 'Not found');
+    const records = authenticate(req).collections[collection];
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) throw new HttpError(400, '`since` must be a cursor from an earlier response');
+      sendJson(res, 200, changesSince(records, since));
+    } else if (req.method === 'POST') {
+      sendJson(res, 200, writeChanges(records, await readBody(req)));
+    } else {
+      throw new HttpError(405, 'Method not allowed');
+    }
+  };
+
+  return http.createServer((req, res) => {
+    handle(req, res).catch(e => {
+      if (!(e instanceof HttpError)) console.error("Failed to handle sync request:", e);
+      const status = e instanceof HttpError ? e.status : 500;
+      const body: ErrorResponse = { error: e instanceof HttpError ? e.message : 'Internal server error' };
+      sendJson(res, status, body);
+    });
+  });
+};
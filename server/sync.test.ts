@@ -0,0 +1,227 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, test } from 'node:test';
+import { createProfile } from '../src/profiles';
+import { CollectionName, EditTimes, StoredState } from '../src/storage';
+import {
+  applyRemoteOperations,
+  emptySyncState,
+  mergeDefaultProfile,
+  planDefaultProfileMerge,
+  signIn,
+  syncCollection,
+  SyncRequestError,
+  SyncSession,
+  SyncState,
+} from '../src/sync';
+import { DoseLogEntry, Profile } from '../src/types';
+import { createMockSyncServer } from './mockSyncServer';
+
+// Run with: node test.js (or just this file: node -r ./pipeline/register.js server/sync.test.ts)
+
+// signIn keeps the session in localStorage
+const storage = new Map<string, string>();
+Object.assign(globalThis, {
+  localStorage: {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  },
+});
+
+let server: http.Server;
+let serverUrl: string;
+let accounts = 0;
+
+before(async () => {
+  // Small pages so a handful of records already spans several
+  server = createMockSyncServer({ pageSize: 2 });
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  serverUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+const at = (minute: number) => new Date(Date.UTC(2026, 0, 1, 0, minute));
+
+const profile = (id: number, name: string): Profile => ({ ...createProfile(name), id });
+
+const doseEntry = (id: string, profileId: number): DoseLogEntry => ({
+  id,
+  reminderId: 1,
+  profileId,
+  medicineName: 'Dolo 650 Tablet',
+  scheduledFor: at(0).toISOString(),
+  status: 'taken',
+});
+
+// One device: its stored collections, its sync bookkeeping and when each
+// record was last edited (what storage.ts records as it saves)
+interface Device {
+  session: SyncSession;
+  state: SyncState;
+  data: StoredState;
+  editTimes: Record<CollectionName, EditTimes>;
+}
+
+const newAccount = () => `user${++accounts}`;
+
+const connect = async (username: string, data: Partial<StoredState> = {}): Promise<Device> => {
+  const session = await signIn(serverUrl, username, 'secret');
+  return {
+    session,
+    state: emptySyncState(session),
+    data: { profiles: [], reminders: [], doseLog: [], ...data },
+    editTimes: { profiles: {}, reminders: {}, doseLog: {} },
+  };
+};
+
+const editProfiles = (device: Device, profiles: Profile[], time: Date) => {
+  const before = new Map(device.data.profiles.map(p => [p.id, JSON.stringify(p)]));
+  const ids = new Set(profiles.map(p => p.id));
+  profiles.filter(p => before.get(p.id) !== JSON.stringify(p)).forEach(p => {
+    device.editTimes.profiles[String(p.id)] = time.toISOString();
+  });
+  Array.from(before.keys()).filter(id => !ids.has(id)).forEach(id => {
+    device.editTimes.profiles[String(id)] = time.toISOString();
+  });
+  device.data.profiles = profiles;
+};
+
+const sync = async <K extends CollectionName>(device: Device, name: K, now: Date) => {
+  const operations = await syncCollection(device.session, name, device.data[name], device.state.collections[name], device.editTimes[name], now);
+  device.data[name] = applyRemoteOperations(device.data[name], operations);
+  return operations;
+};
+
+const names = (device: Device) => device.data.profiles.map(p => p.name).sort();
+
+test('a record pushed by one device is pulled by another', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  editProfiles(a, [profile(1, 'Mum')], at(0));
+  assert.deepStrictEqual(await sync(a, 'profiles', at(1)), []);
+
+  const b = await connect(username);
+  await sync(b, 'profiles', at(2));
+  assert.deepStrictEqual(b.data.profiles, a.data.profiles);
+});
+
+test('concurrent edits are settled by when they were made, not when they were sent', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  const b = await connect(username);
+  editProfiles(a, [profile(1, 'Mum')], at(0));
+  await sync(a, 'profiles', at(0));
+  await sync(b, 'profiles', at(0));
+
+  // A edits while offline, B edits later and syncs first; A comes back online after both
+  editProfiles(a, [profile(1, 'Mum (offline edit)')], at(10));
+  editProfiles(b, [profile(1, 'Mum (later edit)')], at(20));
+  await sync(b, 'profiles', at(21));
+  await sync(a, 'profiles', at(30));
+  await sync(b, 'profiles', at(31));
+
+  assert.deepStrictEqual(names(a), ['Mum (later edit)']);
+  assert.deepStrictEqual(names(b), ['Mum (later edit)']);
+});
+
+test('deletes reach other devices as tombstones', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  const b = await connect(username);
+  editProfiles(a, [profile(1, 'Mum'), profile(2, 'Dad')], at(0));
+  await sync(a, 'profiles', at(0));
+  await sync(b, 'profiles', at(1));
+
+  editProfiles(b, [profile(1, 'Mum')], at(2));
+  await sync(b, 'profiles', at(2));
+  const operations = await sync(a, 'profiles', at(3));
+
+  assert.deepStrictEqual(operations, [{ type: 'remove', id: 2 }]);
+  assert.deepStrictEqual(names(a), ['Mum']);
+});
+
+test('a write that conflicts is retried when it is newer and dropped when it is older', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  const b = await connect(username);
+  editProfiles(a, [profile(1, 'Mum'), profile(2, 'Dad')], at(0));
+  await sync(a, 'profiles', at(0));
+  await sync(b, 'profiles', at(0));
+
+  editProfiles(a, [profile(1, 'Mum (A)'), profile(2, 'Dad (A)')], at(10));
+  await sync(a, 'profiles', at(10));
+  // B writes without having pulled A's changes, as when both sync at once
+  editProfiles(b, [profile(1, 'Mum (B, newer)'), profile(2, 'Dad (B, older)')], at(5));
+  b.editTimes.profiles['1'] = at(15).toISOString();
+  b.state.collections.profiles.cursor = a.state.collections.profiles.cursor;
+  const operations = await sync(b, 'profiles', at(16));
+
+  assert.deepStrictEqual(operations.map(operation => operation.type === 'put' && operation.record.name), ['Dad (A)']);
+  assert.deepStrictEqual(names(b), ['Dad (A)', 'Mum (B, newer)']);
+  await sync(a, 'profiles', at(17));
+  assert.deepStrictEqual(names(a), names(b));
+});
+
+test('long change lists are pulled page by page', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  editProfiles(a, [1, 2, 3, 4, 5].map(id => profile(id, `Person ${id}`)), at(0));
+  await sync(a, 'profiles', at(0));
+
+  const b = await connect(username);
+  await sync(b, 'profiles', at(1));
+  assert.deepStrictEqual(names(b), names(a));
+  // Nothing was missed or left pending, so another pass changes nothing
+  assert.deepStrictEqual(await sync(b, 'profiles', at(2)), []);
+  assert.deepStrictEqual(names(b), names(a));
+});
+
+test('the last profile on a device is kept when other devices deleted the rest', async () => {
+  const username = newAccount();
+  const a = await connect(username);
+  const b = await connect(username);
+  editProfiles(a, [profile(1, 'Mum'), profile(2, 'Dad')], at(0));
+  await sync(a, 'profiles', at(0));
+  await sync(b, 'profiles', at(0));
+
+  editProfiles(a, [profile(2, 'Dad')], at(1));
+  editProfiles(b, [profile(1, 'Mum')], at(2));
+  await sync(a, 'profiles', at(3));
+  await sync(b, 'profiles', at(4));
+  await sync(a, 'profiles', at(5));
+
+  assert.deepStrictEqual(names(b), ['Mum']);
+  assert.deepStrictEqual(names(a), ['Mum']);
+});
+
+test("an untouched default profile is merged into the account's on first sign-in", async () => {
+  const username = newAccount();
+  const a = await connect(username, { profiles: [profile(1, 'Me')], doseLog: [doseEntry('a', 1)] });
+  await sync(a, 'profiles', at(0));
+  await sync(a, 'doseLog', at(0));
+
+  const b = await connect(username, { profiles: [profile(2, 'Me')], doseLog: [doseEntry('b', 2)] });
+  const merge = await planDefaultProfileMerge(b.session, b.state, b.data);
+  assert.deepStrictEqual(merge, { from: 2, to: 1 });
+  b.data.profiles = mergeDefaultProfile('profiles', b.data.profiles, merge!);
+  b.data.doseLog = mergeDefaultProfile('doseLog', b.data.doseLog, merge!);
+  await sync(b, 'profiles', at(1));
+  await sync(b, 'doseLog', at(1));
+
+  assert.deepStrictEqual(b.data.profiles.map(p => p.id), [1]);
+  assert.deepStrictEqual(b.data.doseLog.map(entry => [entry.id, entry.profileId]).sort(), [['a', 1], ['b', 1]]);
+});
+
+test('an unknown token is refused with 401', async () => {
+  const a = await connect(newAccount());
+  await assert.rejects(
+    syncCollection({ ...a.session, token: 'expired' }, 'profiles', [], a.state.collections.profiles, {}, at(0)),
+    (e: unknown) => e instanceof SyncRequestError && e.status === 401
+  );
+});
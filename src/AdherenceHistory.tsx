@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { adherenceStats, adherenceStreaks, AdherenceStats, DaySummary, effectiveStatus, skipReasonLabel, summarizeDays } from './adherence';
+import { formatDate, formatTime, MessageKey, weekdayName } from './i18n';
+import { useLocale } from './locale';
+import { toDateKey, WEEKDAY_LABELS } from './schedule';
+import { DoseLogEntry, DoseStatus, Reminder } from './types';
+
+const RECENT_ENTRY_COUNT = 10;
+
+const DAY_CLASSES: Record<DaySummary, string> = {
+  allTaken: 'bg-green-500 text-white',
+  partial: 'bg-yellow-300 text-gray-800',
+  noneTaken: 'bg-red-400 text-white',
+  open: 'bg-blue-200 text-gray-800',
+};
+
+const DAY_LABELS: Record<DaySummary, MessageKey> = {
+  allTaken: 'history.allTaken',
+  partial: 'history.partial',
+  noneTaken: 'history.noneTaken',
+  open: 'history.open',
+};
+
+const STATUS_LABELS: Record<DoseStatus, MessageKey> = {
+  pending: 'history.pending',
+  taken: 'history.taken',
+  skipped: 'history.skipped',
+  snoozed: 'history.snoozed',
+  missed: 'history.missed',
+};
+
+const STATUS_CLASSES: Record<DoseStatus, string> = {
+  pending: 'text-blue-600',
+  taken: 'text-green-600',
+  skipped: 'text-yellow-700',
+  snoozed: 'text-blue-600',
+  missed: 'text-red-600',
+};
+
+const formatPercentage = ({ percentage }: AdherenceStats) => (percentage === null ? '–' : `${percentage}%`);
+
+function MonthCalendar({ entries, now }: { entries: DoseLogEntry[]; now: Date }) {
+  const { t } = useLocale();
+  const [month, setMonth] = useState(() => new Date(now.getFullYear(), now.getMonth(), 1));
+  const summaries = summarizeDays(entries, now);
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const leadingBlanks = month.getDay();
+
+  const shiftMonth = (delta: number) => setMonth(new Date(month.getFullYear(), month.getMonth() + delta, 1));
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <button onClick={() => shiftMonth(-1)} aria-label={t('history.previousMonth')} className="px-2 text-blue-600 hover:text-blue-700">←</button>
+        <span className="font-medium text-gray-700">
+          {formatDate(month, { month: 'long', year: 'numeric' })}
+        </span>
+        <button onClick={() => shiftMonth(1)} aria-label={t('history.nextMonth')} className="px-2 text-blue-600 hover:text-blue-700">→</button>
+      </div>
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAY_LABELS.map((label, day) => (
+          <div key={label} className="text-gray-500 font-medium">{weekdayName(day)}</div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => <div key={`blank-${i}`} />)}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const day = new Date(month.getFullYear(), month.getMonth(), i + 1);
+          const summary = summaries.get(toDateKey(day));
+          return (
+            <div
+              key={i}
+              className={`py-1 rounded ${summary ? DAY_CLASSES[summary] : 'bg-gray-100 text-gray-500'}`}
+              title={t(summary ? DAY_LABELS[summary] : 'history.noDoses')}
+            >
+              {i + 1}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+interface AdherenceHistoryProps {
+  reminders: Reminder[];
+  doseLog: DoseLogEntry[];
+}
+
+function AdherenceHistory({ reminders, doseLog }: AdherenceHistoryProps) {
+  const { t } = useLocale();
+  const now = new Date();
+
+  if (doseLog.length === 0) {
+    return <p className="text-center text-gray-600">{t('history.empty')}</p>;
+  }
+
+  // Group by reminder, keeping history for reminders that have since been deleted
+  const groups = new Map<number, { medicineName: string; entries: DoseLogEntry[] }>();
+  doseLog.forEach(entry => {
+    const group = groups.get(entry.reminderId) || { medicineName: entry.medicineName, entries: [] };
+    group.entries.push(entry);
+    groups.set(entry.reminderId, group);
+  });
+  const activeIds = new Set(reminders.map(reminder => reminder.id));
+
+  const overallStreaks = adherenceStreaks(doseLog, now);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white p-4 rounded-lg shadow-md grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+        <div>
+          <p className="text-3xl font-bold text-blue-600">{formatPercentage(adherenceStats(doseLog, 7, now))}</p>
+          <p className="text-sm text-gray-600">{t('history.last7Days')}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-blue-600">{formatPercentage(adherenceStats(doseLog, 30, now))}</p>
+          <p className="text-sm text-gray-600">{t('history.last30Days')}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-blue-600">{overallStreaks.current}</p>
+          <p className="text-sm text-gray-600">{t('history.currentStreak')}</p>
+        </div>
+        <div>
+          <p className="text-3xl font-bold text-blue-600">{overallStreaks.longest}</p>
+          <p className="text-sm text-gray-600">{t('history.longestStreak')}</p>
+        </div>
+      </div>
+
+      {Array.from(groups.entries()).map(([reminderId, { medicineName, entries }]) => {
+        const streaks = adherenceStreaks(entries, now);
+        const recent = [...entries]
+          .sort((a, b) => b.scheduledFor.localeCompare(a.scheduledFor))
+          .slice(0, RECENT_ENTRY_COUNT);
+        return (
+          <div key={reminderId} className="bg-white p-4 rounded-lg shadow-md">
+            <h3 className="text-xl font-semibold text-blue-600 mb-1">
+              {medicineName}
+              {!activeIds.has(reminderId) && <span className="ms-2 text-sm text-gray-500">{t('history.reminderDeleted')}</span>}
+            </h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {t('history.summary', {
+                week: formatPercentage(adherenceStats(entries, 7, now)),
+                month: formatPercentage(adherenceStats(entries, 30, now)),
+                current: streaks.current,
+                longest: streaks.longest,
+              })}
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <MonthCalendar entries={entries} now={now} />
+              <ul className="space-y-1 text-sm">
+                {recent.map(entry => {
+                  const status = effectiveStatus(entry, now);
+                  const scheduled = new Date(entry.scheduledFor);
+                  return (
+                    <li key={entry.id} className="flex justify-between gap-2">
+                      <span className="text-gray-700">{formatDate(scheduled)} {formatTime(scheduled)}</span>
+                      <span className={STATUS_CLASSES[status]}>
+                        {t(STATUS_LABELS[status])}
+                        {entry.skipReason && ` (${skipReasonLabel(entry.skipReason)})`}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default AdherenceHistory;
@@ -0,0 +1,190 @@
+import React, { useMemo, useRef } from 'react';
+import { buildClassTree, letterSections, OTHER_LETTER, sortByName } from './browse';
+import { useCatalog } from './catalog';
+import { useLocale } from './locale';
+import { Link, paths } from './router';
+import VirtualList from './VirtualList';
+import { MedicineSummary } from './types';
+
+const ROW_HEIGHT = 56;
+const LIST_HEIGHT = 560;
+const LETTERS = [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split(''), OTHER_LETTER];
+
+interface BrowsePageProps {
+  view: 'az' | 'classes';
+  therapeuticClass?: string;
+  actionClass?: string;
+}
+
+const MedicineRow = ({ medicine, detail }: { medicine: MedicineSummary; detail: string }) => (
+  <Link
+    to={paths.medicine(medicine.id)}
+    className="flex flex-col justify-center h-full px-4 border-b border-gray-100 hover:bg-blue-50"
+  >
+    <span className="font-medium text-blue-600 truncate">{medicine.name}</span>
+    <span className="text-sm text-gray-500 truncate">{detail}</span>
+  </Link>
+);
+
+function AlphabeticalBrowse({ medicines }: { medicines: MedicineSummary[] }) {
+  const { t } = useLocale();
+  const listRef = useRef<HTMLDivElement>(null);
+  const sorted = useMemo(() => sortByName(medicines), [medicines]);
+  const sections = useMemo(() => letterSections(sorted), [sorted]);
+
+  const jumpTo = (start: number) => {
+    if (listRef.current) listRef.current.scrollTop = start * ROW_HEIGHT;
+  };
+
+  return (
+    <>
+      <nav aria-label={t('browse.jumpToLetter')} className="flex flex-wrap gap-1 mb-4">
+        {LETTERS.map(letter => {
+          const section = sections.find(s => s.letter === letter);
+          return (
+            <button
+              key={letter}
+              onClick={() => section && jumpTo(section.start)}
+              disabled={!section}
+              title={section ? t('browse.medicineCount', { count: section.count }) : undefined}
+              className="w-8 h-8 rounded-md text-sm font-semibold text-blue-700 hover:bg-blue-100 disabled:text-gray-300 disabled:hover:bg-transparent"
+            >
+              {letter}
+            </button>
+          );
+        })}
+      </nav>
+      <p className="text-sm text-gray-500 mb-2">{t('browse.medicineCount', { count: sorted.length })}</p>
+      <div className="border border-gray-200 rounded-md">
+        <VirtualList
+          ref={listRef}
+          items={sorted}
+          rowHeight={ROW_HEIGHT}
+          height={LIST_HEIGHT}
+          label={t('browse.azLabel')}
+          getKey={medicine => medicine.id}
+          renderRow={medicine => <MedicineRow medicine={medicine} detail={medicine["Therapeutic Class"]} />}
+        />
+      </div>
+    </>
+  );
+}
+
+function ClassBrowse({ medicines, therapeuticClass, actionClass }: { medicines: MedicineSummary[]; therapeuticClass?: string; actionClass?: string }) {
+  const { t } = useLocale();
+  const tree = useMemo(() => buildClassTree(medicines), [medicines]);
+  const therapeutic = therapeuticClass ? tree.find(group => group.therapeuticClass === therapeuticClass) : undefined;
+  const action = therapeutic && actionClass ? therapeutic.actionClasses.find(group => group.actionClass === actionClass) : undefined;
+
+  const breadcrumbs = (
+    <nav aria-label={t('browse.breadcrumb')} className="text-sm text-gray-600 mb-4">
+      <Link to={paths.browseClasses()} className="text-blue-600 hover:underline">{t('browse.allClasses')}</Link>
+      {therapeutic && (
+        <>
+          {' › '}
+          <Link to={paths.browseClasses(therapeutic.therapeuticClass)} className="text-blue-600 hover:underline">
+            {therapeutic.therapeuticClass}
+          </Link>
+        </>
+      )}
+      {action && <>{' › '}{action.actionClass}</>}
+    </nav>
+  );
+
+  if ((therapeuticClass && !therapeutic) || (actionClass && !action)) {
+    return (
+      <>
+        {breadcrumbs}
+        <p className="text-gray-600">{t('browse.noMedicinesInClass')}</p>
+      </>
+    );
+  }
+
+  if (therapeutic && action) {
+    return (
+      <>
+        {breadcrumbs}
+        <p className="text-sm text-gray-500 mb-2">{t('browse.medicineCount', { count: action.medicines.length })}</p>
+        <div className="border border-gray-200 rounded-md">
+          <VirtualList
+            key={`${therapeutic.therapeuticClass}|${action.actionClass}`}
+            items={action.medicines}
+            rowHeight={ROW_HEIGHT}
+            height={Math.min(LIST_HEIGHT, action.medicines.length * ROW_HEIGHT)}
+            label={t('browse.classLabel', { name: action.actionClass })}
+            getKey={medicine => medicine.id}
+            renderRow={medicine => <MedicineRow medicine={medicine} detail={medicine["Chemical Class"]} />}
+          />
+        </div>
+      </>
+    );
+  }
+
+  const groups = therapeutic
+    ? therapeutic.actionClasses.map(group => ({
+        name: group.actionClass,
+        count: group.medicines.length,
+        to: paths.browseClasses(therapeutic.therapeuticClass, group.actionClass),
+      }))
+    : tree.map(group => ({ name: group.therapeuticClass, count: group.count, to: paths.browseClasses(group.therapeuticClass) }));
+
+  return (
+    <>
+      {breadcrumbs}
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">{therapeutic ? t('browse.actionClasses') : t('browse.therapeuticClasses')}</h3>
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {groups.map(group => (
+          <li key={group.name}>
+            <Link to={group.to} className="flex justify-between gap-4 p-3 bg-gray-50 rounded-md hover:bg-blue-50">
+              <span className="font-medium text-gray-800">{group.name}</span>
+              <span className="flex-shrink-0 text-sm text-gray-500">{group.count}</span>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+function BrowsePage({ view, therapeuticClass, actionClass }: BrowsePageProps) {
+  const { t } = useLocale();
+  const { medicines, isLoading, error } = useCatalog();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ml-4 text-lg text-gray-700">{t('common.loadingMedicines')}</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
+      </div>
+    );
+  }
+
+  const tabClass = (active: boolean) =>
+    `px-4 py-2 rounded-md font-medium ${active ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-blue-50'}`;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl max-w-5xl mx-auto">
+      <h2 className="text-3xl font-bold text-blue-700 mb-4 text-center">{t('browse.title')}</h2>
+      <div className="flex justify-center gap-2 mb-6">
+        <Link to={paths.browse} className={tabClass(view === 'az')}>{t('browse.az')}</Link>
+        <Link to={paths.browseClasses()} className={tabClass(view === 'classes')}>{t('browse.byClass')}</Link>
+      </div>
+      {view === 'az' ? (
+        <AlphabeticalBrowse medicines={medicines} />
+      ) : (
+        <ClassBrowse medicines={medicines} therapeuticClass={therapeuticClass} actionClass={actionClass} />
+      )}
+    </div>
+  );
+}
+
+export default BrowsePage;
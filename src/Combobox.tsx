@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+
+// Keyboard and ARIA wiring for the WAI-ARIA combobox pattern: a text input
+// that controls a listbox of options. The hook hands out props for each part
+// so the input and list can live anywhere in a page's layout; `Combobox`
+// below is the usual input-with-popup arrangement.
+
+interface UseComboboxOptions {
+  id: string;
+  optionCount: number;
+  onSelect: (index: number) => void;
+  // Escape with nothing to close clears the input
+  onClear?: () => void;
+  // Lists that stay on screen (e.g. search results) can't be closed
+  alwaysOpen?: boolean;
+  // Changing this (usually the query) moves the highlight back to the start
+  resetKey?: unknown;
+}
+
+export const useCombobox = ({ id, optionCount, onSelect, onClear, alwaysOpen = false, resetKey }: UseComboboxOptions) => {
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(true);
+  const expanded = (alwaysOpen || isOpen) && optionCount > 0;
+  const listboxId = `${id}-listbox`;
+  const optionId = (index: number) => `${id}-option-${index}`;
+
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [resetKey, optionCount]);
+
+  // Keep the highlighted option visible in a scrolling list
+  useEffect(() => {
+    if (activeIndex < 0) return;
+    const option = document.getElementById(optionId(activeIndex));
+    if (option) option.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (index: number) => {
+    onSelect(index);
+    setActiveIndex(-1);
+    if (!alwaysOpen) setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        if (!optionCount) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (index + 1) % optionCount);
+        break;
+      case 'ArrowUp':
+        if (!optionCount) return;
+        e.preventDefault();
+        setIsOpen(true);
+        setActiveIndex(index => (index <= 0 ? optionCount - 1 : index - 1));
+        break;
+      case 'Enter':
+        if (expanded && activeIndex >= 0) {
+          e.preventDefault();
+          select(activeIndex);
+        }
+        break;
+      case 'Escape':
+        if (expanded && !alwaysOpen) {
+          e.preventDefault();
+          setIsOpen(false);
+          setActiveIndex(-1);
+        } else if (onClear && e.currentTarget.value) {
+          e.preventDefault();
+          onClear();
+        }
+        break;
+    }
+  };
+
+  return {
+    activeIndex,
+    isExpanded: expanded,
+    inputProps: {
+      id: `${id}-input`,
+      role: 'combobox',
+      'aria-autocomplete': 'list' as const,
+      'aria-expanded': expanded,
+      'aria-controls': listboxId,
+      'aria-activedescendant': expanded && activeIndex >= 0 ? optionId(activeIndex) : undefined,
+      autoComplete: 'off',
+      onKeyDown: handleKeyDown,
+      onFocus: () => setIsOpen(true),
+    },
+    listboxProps: {
+      id: listboxId,
+      role: 'listbox',
+    },
+    getOptionProps: (index: number) => ({
+      id: optionId(index),
+      role: 'option',
+      'aria-selected': index === activeIndex,
+      // Keep focus in the input when an option is clicked
+      onMouseDown: (e: React.MouseEvent) => e.preventDefault(),
+      onMouseEnter: () => setActiveIndex(index),
+      onClick: () => select(index),
+    }),
+  };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Marks the parts of `text` that match a word of the query
+export function HighlightMatch({ text, query }: { text: string; query: string }) {
+  const words = query.trim().split(/\s+/).filter(word => word.length > 1).map(escapeRegExp);
+  if (!words.length) return <>{text}</>;
+  const pattern = new RegExp(`(${words.join('|')})`, 'gi');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        index % 2 === 1 ? <mark key={index} className="bg-yellow-100 text-inherit font-semibold">{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+// Polite screen reader announcement, e.g. the number of results
+export function LiveRegion({ message }: { message: string }) {
+  return (
+    <div role="status" aria-live="polite" aria-atomic="true" className="sr-only">
+      {message}
+    </div>
+  );
+}
+
+interface ComboboxProps<T> {
+  id: string;
+  label: string;
+  value: string;
+  onInputChange: (value: string) => void;
+  options: T[];
+  getKey: (option: T) => React.Key;
+  getLabel: (option: T) => string;
+  onSelect: (option: T) => void;
+  placeholder?: string;
+  // Announced after the options change, e.g. "5 medicines found"
+  statusMessage?: string;
+  inputClassName?: string;
+}
+
+// Text input with a popup list of suggestions
+function Combobox<T>({
+  id,
+  label,
+  value,
+  onInputChange,
+  options,
+  getKey,
+  getLabel,
+  onSelect,
+  placeholder,
+  statusMessage = '',
+  inputClassName = 'w-full p-2 border border-gray-300 rounded-md',
+}: ComboboxProps<T>) {
+  const { activeIndex, isExpanded, inputProps, listboxProps, getOptionProps } = useCombobox({
+    id,
+    optionCount: options.length,
+    onSelect: index => onSelect(options[index]),
+    onClear: () => onInputChange(''),
+    resetKey: value,
+  });
+
+  return (
+    <div className="relative">
+      <label htmlFor={inputProps.id} className="sr-only">{label}</label>
+      <input
+        {...inputProps}
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={e => onInputChange(e.target.value)}
+        className={inputClassName}
+      />
+      {isExpanded && (
+        <ul
+          {...listboxProps}
+          aria-label={label}
+          className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto custom-scrollbar"
+        >
+          {options.map((option, index) => (
+            <li
+              key={getKey(option)}
+              {...getOptionProps(index)}
+              className={`px-3 py-2 cursor-pointer ${index === activeIndex ? 'bg-blue-100' : 'hover:bg-blue-50'}`}
+            >
+              <HighlightMatch text={getLabel(option)} query={value} />
+            </li>
+          ))}
+        </ul>
+      )}
+      <LiveRegion message={statusMessage} />
+    </div>
+  );
+}
+
+export default Combobox;
@@ -0,0 +1,185 @@
+import React from 'react';
+import { useCatalog, useMedicines } from './catalog';
+import { FACET_FIELDS, FACET_LABELS } from './facets';
+import { translateTerm } from './i18n';
+import { useLocale } from './locale';
+import { Link, paths } from './router';
+import { Medicine, MedicineSummary } from './types';
+
+export const MAX_COMPARED_MEDICINES = 4;
+
+const normalizeEntry = (entry: string) => entry.trim().toLowerCase();
+
+// How many of the compared medicines list each (normalized) entry
+const countEntries = (lists: string[][]) => {
+  const counts = new Map<string, number>();
+  lists.forEach(list => {
+    new Set(list.map(normalizeEntry)).forEach(entry => counts.set(entry, (counts.get(entry) || 0) + 1));
+  });
+  return counts;
+};
+
+interface ComparePageProps {
+  medicineIds: number[];
+}
+
+function ComparePage({ medicineIds }: ComparePageProps) {
+  const { t } = useLocale();
+  const ids = medicineIds.slice(0, MAX_COMPARED_MEDICINES);
+  const { resolveSubstitutes } = useCatalog();
+  const { medicines, isLoading, error } = useMedicines(ids);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ml-4 text-lg text-gray-700">{t('compare.loading')}</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
+      </div>
+    );
+  }
+
+  if (medicines.length < 2) {
+    return (
+      <div className="max-w-md mx-auto bg-white p-6 rounded-lg shadow-md text-center">
+        <h2 className="text-2xl font-bold mb-4 text-blue-600">{t('compare.title')}</h2>
+        <p className="text-gray-600 mb-6">
+          {t('compare.pickTwo')}
+        </p>
+        <Link
+          to={paths.search}
+          className="inline-block px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition duration-200"
+        >
+          {t('compare.findMedicines')}
+        </Link>
+      </div>
+    );
+  }
+
+  const comparedIds = medicines.map(medicine => medicine.id);
+
+  // Substitutes of the compared medicines that could be added as another column
+  const suggestions: MedicineSummary[] = [];
+  if (medicines.length < MAX_COMPARED_MEDICINES) {
+    medicines.forEach(medicine => {
+      resolveSubstitutes(medicine).forEach(match => {
+        if (match && !comparedIds.includes(match.id) && !suggestions.some(s => s.id === match.id)) {
+          suggestions.push(match);
+        }
+      });
+    });
+  }
+
+  const renderListRow = (title: string, getItems: (medicine: Medicine) => string[]) => {
+    const lists = medicines.map(getItems);
+    const counts = countEntries(lists);
+    return (
+      <tr className="border-t border-gray-200 align-top">
+        <th className="p-3 text-left font-semibold text-gray-700 bg-gray-50">{title}</th>
+        {lists.map((items, index) => (
+          <td key={medicines[index].id} className="p-3">
+            {items.length === 0 ? (
+              <p className="text-gray-600 italic">{t('medicine.noInformation')}</p>
+            ) : (
+              <ul className="space-y-1">
+                {items.map((item, itemIndex) => {
+                  const count = counts.get(normalizeEntry(item)) || 0;
+                  const isUnique = count === 1;
+                  const isShared = count === medicines.length;
+                  return (
+                    <li
+                      key={itemIndex}
+                      className={`px-2 py-1 rounded ${isUnique ? 'bg-yellow-100 font-medium' : isShared ? 'text-gray-700' : 'bg-yellow-50'}`}
+                      title={t(isUnique ? 'compare.uniqueHint' : isShared ? 'compare.sharedHint' : 'compare.someHint')}
+                    >
+                      {translateTerm(item)}
+                      {isUnique && <span className="ml-1 text-xs text-yellow-800">{t('compare.onlyThisOne')}</span>}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </td>
+        ))}
+      </tr>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-3xl font-bold mb-2 text-blue-600">{t('compare.title')}</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        {t('compare.intro')}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="p-3 w-40"></th>
+              {medicines.map(medicine => (
+                <th key={medicine.id} className="p-3 text-left align-top">
+                  <Link to={paths.medicine(medicine.id)} className="text-lg font-bold text-blue-600 hover:underline">
+                    {medicine.name}
+                  </Link>
+                  {medicines.length > 2 && (
+                    <Link
+                      to={paths.compare(comparedIds.filter(id => id !== medicine.id))}
+                      className="block text-xs font-normal text-red-600 hover:text-red-700 mt-1"
+                    >
+                      {t('compare.remove')}
+                    </Link>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {renderListRow(t('medicine.uses'), medicine => medicine.uses || [])}
+            {renderListRow(t('medicine.sideEffects'), medicine => medicine.sideEffects || [])}
+            {FACET_FIELDS.map(field => {
+              const differs = new Set(medicines.map(medicine => normalizeEntry(medicine[field] || ''))).size > 1;
+              return (
+                <tr key={field} className="border-t border-gray-200 align-top">
+                  <th className="p-3 text-left font-semibold text-gray-700 bg-gray-50">{t(FACET_LABELS[field])}</th>
+                  {medicines.map(medicine => (
+                    <td key={medicine.id} className={`p-3 ${differs ? 'bg-yellow-50' : ''}`}>
+                      {medicine[field] || <span className="italic text-gray-500">{t('compare.notSpecified')}</span>}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-lg font-semibold text-gray-700 mb-2">{t('compare.addSubstitute')}</h3>
+          <div className="flex flex-wrap gap-2">
+            {suggestions.slice(0, 12).map(suggestion => (
+              <Link
+                key={suggestion.id}
+                to={paths.compare([...comparedIds, suggestion.id])}
+                className="px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-full hover:bg-blue-50 transition duration-200"
+              >
+                + {suggestion.name}
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ComparePage;
@@ -0,0 +1,45 @@
+import React, { useEffect, useState } from 'react';
+import { useCatalog } from './catalog';
+import { useLocale } from './locale';
+
+// Hashes are long; the first few characters are enough to tell versions apart
+const SHORT_VERSION_LENGTH = 7;
+
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
+
+// Nav badge showing whether the app is working from its offline copy and
+// which version of the medicine data it has
+function ConnectionStatus() {
+  const { t } = useLocale();
+  const isOnline = useOnlineStatus();
+  const { version } = useCatalog();
+  const dataVersion = version && version.slice(0, SHORT_VERSION_LENGTH);
+
+  return (
+    <div
+      className={`flex items-center gap-2 px-3 py-1 my-1 rounded-full text-sm ${isOnline ? 'bg-blue-700 text-blue-100' : 'bg-yellow-300 text-yellow-900'}`}
+      role="status"
+      title={isOnline ? t('connection.connected') : t('connection.offlineHint')}
+    >
+      <span className={`inline-block w-2 h-2 rounded-full ${isOnline ? 'bg-green-300' : 'bg-yellow-700'}`} aria-hidden="true"></span>
+      {isOnline ? t('connection.online') : t('connection.offline')}
+      {dataVersion && <span className="opacity-75">· {t('connection.dataVersion', { version: dataVersion })}</span>}
+    </div>
+  );
+}
+
+export default ConnectionStatus;
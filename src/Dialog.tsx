@@ -0,0 +1,106 @@
+import React, { useEffect, useRef } from 'react';
+
+const FOCUSABLE = [
+  'a[href]',
+  'button:not([disabled])',
+  'input:not([disabled])',
+  'select:not([disabled])',
+  'textarea:not([disabled])',
+  '[tabindex]:not([tabindex="-1"])',
+].join(',');
+
+interface DialogProps {
+  // Id of the element that names the dialog, usually its heading
+  labelledBy: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  className?: string;
+  overlayClassName?: string;
+  // Focused when the dialog opens; defaults to the first focusable element
+  initialFocusRef?: React.RefObject<HTMLElement>;
+}
+
+// Open dialogs, innermost last. Only the innermost one handles keys, so a
+// reminder popping up over another dialog doesn't fight it for focus.
+const openDialogs: HTMLElement[] = [];
+
+const focusableIn = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(element => element.offsetParent !== null || element === document.activeElement);
+
+// Modal dialog that moves focus inside when it opens, keeps Tab and
+// Shift+Tab within it, closes on Escape and hands focus back to whatever
+// opened it
+function Dialog({
+  labelledBy,
+  onClose,
+  children,
+  className = 'bg-white p-6 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto',
+  overlayClassName = '',
+  initialFocusRef,
+}: DialogProps) {
+  const dialogRef = useRef<HTMLDivElement>(null);
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const dialog = dialogRef.current;
+    if (!dialog) return;
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    openDialogs.push(dialog);
+    const target = (initialFocusRef && initialFocusRef.current) || focusableIn(dialog)[0] || dialog;
+    target.focus();
+
+    // Listening on the document also catches Tab after the focused element
+    // was removed (e.g. a button replaced by a form) and focus fell to <body>
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Controls inside, such as an open combobox, claim Escape with preventDefault
+      if (openDialogs[openDialogs.length - 1] !== dialog || e.defaultPrevented) return;
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab') return;
+      const focusable = focusableIn(dialog);
+      if (!focusable.length) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      if (e.shiftKey && (active === first || !dialog.contains(active))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (active === last || !dialog.contains(active))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      openDialogs.splice(openDialogs.indexOf(dialog), 1);
+      if (previouslyFocused && document.contains(previouslyFocused)) previouslyFocused.focus();
+    };
+    // Focus moves once when the dialog opens, not on every render
+  }, []);
+
+  return (
+    <div className={`fixed inset-0 bg-gray-600 bg-opacity-50 flex items-center justify-center ${overlayClassName}`}>
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={labelledBy}
+        tabIndex={-1}
+        className={`${className} focus:outline-none`}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
+
+export default Dialog;
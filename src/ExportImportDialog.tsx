@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import Dialog from './Dialog';
+import { createBackup, ImportMode, ImportSummary, importBackup, parseBackup } from './backup';
+import { doseLogFor, remindersFor } from './profiles';
+import { downloadFile, doseLogToCsv, fileSlug, remindersToCsv, remindersToIcs } from './exportFormats';
+import { useLocale } from './locale';
+import { toDateKey } from './schedule';
+import { StoredState } from './storage';
+import { Profile } from './types';
+
+interface ExportImportDialogProps {
+  profile: Profile;
+  storedState: StoredState;
+  onImport: (state: StoredState) => void;
+  onClose: () => void;
+}
+
+function ExportImportDialog({ profile, storedState, onImport, onClose }: ExportImportDialogProps) {
+  const { t } = useLocale();
+  const [incoming, setIncoming] = useState<StoredState | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [importError, setImportError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  const now = new Date();
+  const suffix = `${fileSlug(profile.name, 'profile')}-${toDateKey(now)}`;
+  const reminders = remindersFor(storedState.reminders, profile.id);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    setIncoming(null);
+    setSummary(null);
+    setImportError(null);
+    if (!file) return;
+    file.text()
+      .then(text => setIncoming(parseBackup(text)))
+      .catch(err => {
+        console.error("Failed to read backup:", err);
+        setImportError(err instanceof Error ? err.message : t('exportImport.readFailed'));
+      });
+  };
+
+  const handleImport = () => {
+    if (!incoming) return;
+    if (mode === 'replace' && !window.confirm(t('exportImport.confirmReplace'))) return;
+    const result = importBackup(storedState, incoming, mode);
+    onImport(result.state);
+    setSummary(result.summary);
+    setIncoming(null);
+  };
+
+  return (
+    <Dialog labelledBy="export-import-title" onClose={onClose}>
+      <h3 id="export-import-title" className="text-xl font-semibold mb-4">{t('exportImport.title')}</h3>
+
+      <h4 className="font-semibold text-gray-800 mb-2">{t('exportImport.exportFor', { name: profile.name })}</h4>
+      <div className="flex flex-wrap gap-2 mb-2">
+        <button
+          onClick={() => downloadFile(`reminders-${suffix}.csv`, remindersToCsv(reminders, storedState.profiles), 'text/csv')}
+          disabled={!reminders.length}
+          className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('exportImport.remindersCsv')}
+        </button>
+        <button
+          onClick={() => downloadFile(
+            `dose-history-${suffix}.csv`,
+            doseLogToCsv(doseLogFor(storedState.doseLog, profile.id), storedState.profiles, now),
+            'text/csv'
+          )}
+          className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          {t('exportImport.historyCsv')}
+        </button>
+        <button
+          onClick={() => downloadFile(`reminders-${suffix}.ics`, remindersToIcs(reminders, storedState.profiles, now), 'text/calendar')}
+          disabled={!reminders.length}
+          className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {t('exportImport.calendar')}
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">{t('exportImport.exportHint')}</p>
+
+      <h4 className="font-semibold text-gray-800 mb-2">{t('exportImport.fullBackup')}</h4>
+      <button
+        onClick={() => downloadFile(
+          `medicine-app-backup-${toDateKey(now)}.json`,
+          JSON.stringify(createBackup(storedState, now), null, 2),
+          'application/json'
+        )}
+        className="mb-2 px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+      >
+        {t('exportImport.downloadBackup')}
+      </button>
+      <p className="text-sm text-gray-500 mb-4">{t('exportImport.backupHint')}</p>
+
+      <label className="block mb-2">
+        <span className="text-sm font-medium text-gray-700">{t('exportImport.restore')}</span>
+        <input type="file" accept="application/json,.json" onChange={handleFileChange} className="block w-full mt-1 text-sm" />
+      </label>
+      {importError && <p className="text-sm text-red-600 mb-2">{importError}</p>}
+      {incoming && (
+        <div className="mb-4 p-3 bg-gray-50 rounded-md">
+          <p className="text-sm text-gray-700 mb-2">
+            {t('exportImport.contains', {
+              profiles: t('exportImport.profileCount', { count: incoming.profiles.length }),
+              reminders: t('exportImport.reminderCount', { count: incoming.reminders.length }),
+              entries: t('exportImport.entryCount', { count: incoming.doseLog.length }),
+            })}
+          </p>
+          <label className="flex items-center gap-2 text-sm mb-1">
+            <input type="radio" name="import-mode" checked={mode === 'merge'} onChange={() => setMode('merge')} />
+            {t('exportImport.merge')}
+          </label>
+          <label className="flex items-center gap-2 text-sm mb-3">
+            <input type="radio" name="import-mode" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+            {t('exportImport.replace')}
+          </label>
+          <button onClick={handleImport} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            {t('exportImport.import')}
+          </button>
+        </div>
+      )}
+      {summary && (
+        <p className="text-sm text-green-700 mb-4">
+          {t(summary.duplicates ? 'exportImport.importedWithDuplicates' : 'exportImport.imported', {
+            reminders: t('exportImport.reminderCount', { count: summary.reminders }),
+            profiles: t('exportImport.profileCount', { count: summary.profiles }),
+            entries: t('exportImport.entryCount', { count: summary.doseLog }),
+            duplicates: t('exportImport.duplicatesSkipped', { count: summary.duplicates }),
+          })}
+        </p>
+      )}
+
+      <div className="flex justify-end">
+        <button onClick={onClose} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+          {t('common.close')}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
+
+export default ExportImportDialog;
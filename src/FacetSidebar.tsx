@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { FACET_FIELDS, FACET_LABELS, FacetCounts, FacetField, FacetFilters, hasActiveFilters } from './facets';
+import { useLocale } from './locale';
+
+// Values shown per facet before "Show all"
+const COLLAPSED_VALUE_COUNT = 8;
+
+interface FacetSidebarProps {
+  facets: FacetCounts | null;
+  filters: FacetFilters;
+  onToggle: (field: FacetField, value: string) => void;
+  onClear: () => void;
+}
+
+function FacetSidebar({ facets, filters, onToggle, onClear }: FacetSidebarProps) {
+  const { t } = useLocale();
+  const [expanded, setExpanded] = useState<Partial<Record<FacetField, boolean>>>({});
+
+  if (!facets) {
+    return null;
+  }
+
+  return (
+    <aside className="md:w-64 flex-shrink-0 space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800">{t('facets.title')}</h3>
+        {hasActiveFilters(filters) && (
+          <button onClick={onClear} className="text-sm text-blue-600 hover:text-blue-700">
+            {t('facets.clearAll')}
+          </button>
+        )}
+      </div>
+      {FACET_FIELDS.map(field => {
+        const selected = filters[field] || [];
+        const values = facets[field];
+        const visible = expanded[field]
+          ? values
+          : values.filter((entry, index) => index < COLLAPSED_VALUE_COUNT || selected.includes(entry.value));
+        return (
+          <div key={field}>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{t(FACET_LABELS[field])}</h4>
+            {values.length === 0 && selected.length === 0 && (
+              <p className="text-sm text-gray-500 italic">{t('facets.noValues')}</p>
+            )}
+            <ul className="space-y-1 max-h-64 overflow-y-auto custom-scrollbar">
+              {visible.map(({ value, count }) => (
+                <li key={value}>
+                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(value)}
+                      onChange={() => onToggle(field, value)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="flex-grow truncate" title={value}>{value}</span>
+                    <span className="text-gray-500">{count}</span>
+                  </label>
+                </li>
+              ))}
+              {/* Selected values that no longer match anything still need an off switch */}
+              {selected
+                .filter(value => !values.some(entry => entry.value === value))
+                .map(value => (
+                  <li key={value}>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked
+                        onChange={() => onToggle(field, value)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      <span className="flex-grow truncate" title={value}>{value}</span>
+                      <span className="text-gray-500">0</span>
+                    </label>
+                  </li>
+                ))}
+            </ul>
+            {values.length > COLLAPSED_VALUE_COUNT && (
+              <button
+                onClick={() => setExpanded(prev => ({ ...prev, [field]: !prev[field] }))}
+                className="mt-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                {expanded[field] ? t('facets.showLess') : t('facets.showAll', { count: values.length })}
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </aside>
+  );
+}
+
+export default FacetSidebar;
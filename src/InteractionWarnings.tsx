@@ -0,0 +1,35 @@
+import React from 'react';
+import { MessageKey } from './i18n';
+import { InteractionSeverity } from './interactionRules';
+import { InteractionWarning } from './interactions';
+import { useLocale } from './locale';
+
+export const SEVERITY_STYLES: Record<InteractionSeverity, string> = {
+  major: 'bg-red-100 text-red-700 border-red-200',
+  moderate: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  minor: 'bg-gray-100 text-gray-700 border-gray-200',
+};
+
+interface InteractionWarningsProps {
+  warnings: InteractionWarning[];
+}
+
+function InteractionWarnings({ warnings }: InteractionWarningsProps) {
+  const { t } = useLocale();
+  if (!warnings.length) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {warnings.map((warning, i) => (
+        <li key={i} className={`p-3 border rounded-md text-sm ${SEVERITY_STYLES[warning.severity]}`}>
+          <span className="font-semibold me-2 capitalize">{t(`severity.${warning.severity}` as MessageKey)}:</span>
+          {t(warning.message, warning.params)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default InteractionWarnings;
@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react';
+import { downloadPdf } from './pdf';
+import { timetablePdf } from './printSheets';
+import { Link, paths } from './router';
+import { toDateKey } from './schedule';
+import { buildTimetable } from './timetable';
+import { Profile, Reminder } from './types';
+
+interface MedicationTimetableProps {
+  profile: Profile;
+  reminders: Reminder[];
+}
+
+// Daily grid of every current medication for printing and sticking on the
+// fridge, with a tick box for each dose
+function MedicationTimetable({ profile, reminders }: MedicationTimetableProps) {
+  const today = useMemo(() => new Date(), []);
+  const timetable = useMemo(() => {
+    const todayKey = toDateKey(today);
+    return buildTimetable(reminders.filter(reminder => !reminder.schedule.endDate || reminder.schedule.endDate >= todayKey), today);
+  }, [reminders, today]);
+  const title = `${profile.name}'s medication timetable`;
+
+  return (
+    <div className="max-w-5xl mx-auto">
+      <div className="flex flex-wrap gap-2 mb-4 print:hidden">
+        <Link to={paths.medications} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+          ← Back
+        </Link>
+        <button onClick={() => window.print()} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Print
+        </button>
+        <button
+          onClick={() => downloadPdf(timetablePdf(title, timetable, today), `medication-timetable-${toDateKey(today)}.pdf`)}
+          className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Download PDF
+        </button>
+      </div>
+
+      <div className="bg-white p-8 rounded-lg shadow-md print:shadow-none print:p-0">
+        <h2 className="text-3xl font-bold text-gray-900">{title}</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Printed {today.toLocaleDateString()}. Tick each dose as you take it.
+        </p>
+
+        {timetable.rows.length === 0 ? (
+          <p className="text-gray-600 italic">
+            No medications scheduled. <Link to={paths.medications} className="text-blue-600 hover:underline print:hidden">Add a reminder</Link>
+          </p>
+        ) : (
+          <table className="w-full border-collapse text-left">
+            <thead>
+              <tr className="bg-gray-100">
+                <th className="border border-gray-400 px-3 py-2">Medicine</th>
+                {timetable.slots.map(slot => (
+                  <th key={slot} className="border border-gray-400 px-3 py-2 text-center">{slot}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {timetable.rows.map(({ reminder, days, cells }) => (
+                <tr key={reminder.id} className="break-inside-avoid">
+                  <td className="border border-gray-400 px-3 py-3">
+                    <span className="block font-semibold">{reminder.medicineName}</span>
+                    <span className="block text-xs text-gray-500">{days}</span>
+                  </td>
+                  {timetable.slots.map(slot => (
+                    <td key={slot} className="border border-gray-400 px-3 py-3 text-center whitespace-nowrap">
+                      {cells[slot] && (
+                        <>
+                          <span className="inline-block w-4 h-4 mr-2 align-middle border border-gray-600" aria-hidden="true"></span>
+                          {cells[slot]}
+                        </>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default MedicationTimetable;
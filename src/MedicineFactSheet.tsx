@@ -0,0 +1,96 @@
+import React from 'react';
+import { useMedicine } from './catalog';
+import { fileSlug } from './exportFormats';
+import { useLocale } from './locale';
+import { downloadPdf } from './pdf';
+import { medicineFactSheetPdf } from './printSheets';
+import { Link, paths } from './router';
+
+// Print-friendly single page for a medicine; the toolbar is hidden when printing
+function MedicineFactSheet({ medicineId }: { medicineId: number }) {
+  const { t } = useLocale();
+  const { medicine, isLoading, error } = useMedicine(medicineId);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ml-4 text-lg text-gray-700">{t('medicine.loading')}</p>
+      </div>
+    );
+  }
+
+  if (error || !medicine) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error || 'medicine.notInCatalog', { id: medicineId })}</p>
+      </div>
+    );
+  }
+
+  const printedOn = new Date();
+  const sections: [string, string[]][] = [
+    ['Uses', medicine.uses],
+    ['Side Effects', medicine.sideEffects],
+    ['Substitutes', medicine.substitutes],
+  ];
+  const classes: [string, string][] = [
+    ['Therapeutic Class', medicine["Therapeutic Class"]],
+    ['Action Class', medicine["Action Class"]],
+    ['Chemical Class', medicine["Chemical Class"]],
+    ['Habit Forming', medicine["Habit Forming"]],
+  ];
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex flex-wrap gap-2 mb-4 print:hidden">
+        <Link to={paths.medicine(medicine.id)} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+          ← Back
+        </Link>
+        <button onClick={() => window.print()} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+          Print
+        </button>
+        <button
+          onClick={() => downloadPdf(medicineFactSheetPdf(medicine, printedOn), `${fileSlug(medicine.name, 'medicine')}.pdf`)}
+          className="px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Download PDF
+        </button>
+      </div>
+
+      <article className="bg-white p-8 rounded-lg shadow-md print:shadow-none print:p-0">
+        <h2 className="text-3xl font-bold text-gray-900">{medicine.name}</h2>
+        <p className="text-sm text-gray-500 mb-4">Medicine fact sheet, printed {printedOn.toLocaleDateString()}</p>
+
+        <dl className="grid grid-cols-2 gap-x-6 gap-y-2 mb-6 pb-4 border-b border-gray-300">
+          {classes.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-sm font-semibold text-gray-700">{label}</dt>
+              <dd className="text-gray-800">{value || 'Not available'}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {sections.map(([title, items]) => (
+          <section key={title} className="mb-5 break-inside-avoid">
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">{title}</h3>
+            {items && items.length ? (
+              <ul className="list-disc list-inside space-y-1 text-gray-800">
+                {items.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 italic">No information available.</p>
+            )}
+          </section>
+        ))}
+
+        <p className="text-xs text-gray-500 mt-6">For information only. Follow the advice of your doctor or pharmacist.</p>
+      </article>
+    </div>
+  );
+}
+
+export default MedicineFactSheet;
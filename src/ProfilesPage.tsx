@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import Dialog from './Dialog';
+import { useLocale } from './locale';
+import { AGE_GROUPS, ageGroupLabel, createProfile, parseList } from './profiles';
+import { AgeGroup, Profile } from './types';
+
+interface ProfileFormProps {
+  profile: Profile;
+  onSave: (profile: Profile) => void;
+  onCancel: () => void;
+}
+
+function ProfileForm({ profile, onSave, onCancel }: ProfileFormProps) {
+  const { t } = useLocale();
+  const [name, setName] = useState(profile.name);
+  const [ageGroup, setAgeGroup] = useState<AgeGroup>(profile.ageGroup);
+  const [allergies, setAllergies] = useState(profile.allergies.join(', '));
+  const [conditions, setConditions] = useState(profile.conditions.join(', '));
+  const [pregnant, setPregnant] = useState(profile.pregnant);
+  const [avoidHabitForming, setAvoidHabitForming] = useState(profile.avoidHabitForming);
+  const [notes, setNotes] = useState(profile.notes);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({
+      ...profile,
+      name: name.trim(),
+      ageGroup,
+      allergies: parseList(allergies),
+      conditions: parseList(conditions),
+      pregnant,
+      avoidHabitForming,
+      notes: notes.trim(),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('profiles.name')}</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t('profiles.namePlaceholder')}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+        />
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('profiles.ageGroup')}</span>
+        <select
+          value={ageGroup}
+          onChange={(e) => setAgeGroup(e.target.value as AgeGroup)}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+        >
+          {AGE_GROUPS.map(({ value, label }) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('profiles.allergiesField')}</span>
+        <input
+          type="text"
+          value={allergies}
+          onChange={(e) => setAllergies(e.target.value)}
+          placeholder={t('profiles.allergiesPlaceholder')}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+        />
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('profiles.conditionsField')}</span>
+        <input
+          type="text"
+          value={conditions}
+          onChange={(e) => setConditions(e.target.value)}
+          placeholder={t('profiles.conditionsPlaceholder')}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={pregnant} onChange={(e) => setPregnant(e.target.checked)} />
+        <span className="text-sm text-gray-700">{t('profiles.pregnantField')}</span>
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={avoidHabitForming} onChange={(e) => setAvoidHabitForming(e.target.checked)} />
+        <span className="text-sm text-gray-700">{t('profiles.avoidHabitFormingField')}</span>
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('profiles.notes')}</span>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={3}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="px-4 py-2 text-gray-600 hover:text-gray-700">
+          {t('common.cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={!name.trim()}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {t('common.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface ProfilesPageProps {
+  profiles: Profile[];
+  activeProfileId: number;
+  onSave: (profile: Profile) => void;
+  onDelete: (id: number) => void;
+  onSelect: (id: number) => void;
+}
+
+function ProfilesPage({ profiles, activeProfileId, onSave, onDelete, onSelect }: ProfilesPageProps) {
+  const { t } = useLocale();
+  const [editing, setEditing] = useState<Profile | null>(null);
+
+  const handleDelete = (profile: Profile) => {
+    if (window.confirm(t('profiles.confirmDelete', { name: profile.name }))) {
+      onDelete(profile.id);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <h2 className="text-3xl font-bold mb-6 text-center text-blue-600">{t('profiles.title')}</h2>
+      <p className="text-gray-600 mb-6 text-center">
+        {t('profiles.intro')}
+      </p>
+
+      <button
+        onClick={() => setEditing(createProfile(''))}
+        className="mb-6 bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 transition duration-200"
+      >
+        {t('profiles.add')}
+      </button>
+
+      <div className="grid gap-4">
+        {profiles.map(profile => (
+          <div key={profile.id} className="bg-white p-4 rounded-lg shadow-md flex justify-between items-start gap-4">
+            <div>
+              <h3 className="text-xl font-semibold text-blue-600">
+                {profile.name}
+                {profile.id === activeProfileId && (
+                  <span className="ml-2 align-middle px-2 py-0.5 text-xs font-medium bg-blue-100 text-blue-800 rounded-full">{t('profiles.active')}</span>
+                )}
+              </h3>
+              <p className="text-gray-600">{ageGroupLabel(profile.ageGroup)}</p>
+              {profile.allergies.length > 0 && (
+                <p className="text-sm text-gray-600">{t('profiles.allergies', { list: profile.allergies.join(', ') })}</p>
+              )}
+              {profile.conditions.length > 0 && (
+                <p className="text-sm text-gray-600">{t('profiles.conditions', { list: profile.conditions.join(', ') })}</p>
+              )}
+              {(profile.pregnant || profile.avoidHabitForming) && (
+                <p className="text-sm text-gray-600">
+                  {[profile.pregnant && t('profiles.pregnant'), profile.avoidHabitForming && t('profiles.avoidsHabitForming')].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {profile.notes && <p className="text-sm text-gray-500 mt-1 whitespace-pre-line">{profile.notes}</p>}
+            </div>
+            <div className="flex flex-shrink-0 gap-3">
+              {profile.id !== activeProfileId && (
+                <button onClick={() => onSelect(profile.id)} className="text-blue-600 hover:text-blue-700">
+                  {t('profiles.switch')}
+                </button>
+              )}
+              <button onClick={() => setEditing(profile)} className="text-gray-600 hover:text-gray-700">
+                {t('common.edit')}
+              </button>
+              {profiles.length > 1 && (
+                <button onClick={() => handleDelete(profile)} className="text-red-600 hover:text-red-700">
+                  {t('common.delete')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {editing && (
+        <Dialog labelledBy="profile-form-title" onClose={() => setEditing(null)}>
+          <h3 id="profile-form-title" className="text-xl font-semibold mb-4">
+            {profiles.some(profile => profile.id === editing.id) ? t('profiles.edit') : t('profiles.add')}
+          </h3>
+          <ProfileForm
+            profile={editing}
+            onSave={(profile) => {
+              onSave(profile);
+              setEditing(null);
+            }}
+            onCancel={() => setEditing(null)}
+          />
+        </Dialog>
+      )}
+    </div>
+  );
+}
+
+export default ProfilesPage;
@@ -0,0 +1,206 @@
+import React, { useState } from 'react';
+import { formatDate, formatTime, unitLabel } from './i18n';
+import { createInventory, forecastSupply, recordRefill, validateInventory } from './inventory';
+import { useLocale } from './locale';
+import { Inventory, Reminder } from './types';
+
+const inputClass = 'p-2 border border-gray-300 rounded-md';
+
+interface ReminderInventoryProps {
+  reminder: Reminder;
+  onChange: (reminder: Reminder) => void;
+}
+
+type Mode = 'view' | 'edit' | 'refill' | 'log';
+
+const numberValue = (value: string) => {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+// Supply on hand for one reminder: stock and run-out forecast, refills and
+// the refill log
+function ReminderInventory({ reminder, onChange }: ReminderInventoryProps) {
+  const { t } = useLocale();
+  const { inventory } = reminder;
+  const [mode, setMode] = useState<Mode>('view');
+  const [draft, setDraft] = useState<Inventory>(() => inventory || createInventory(reminder.schedule));
+  const [refillAmount, setRefillAmount] = useState(inventory ? inventory.packSize : 0);
+  const unit = reminder.schedule.dose ? unitLabel(reminder.schedule.dose.unit) : t('inventory.units');
+
+  const startEditing = () => {
+    setDraft(inventory || createInventory(reminder.schedule));
+    setMode('edit');
+  };
+
+  const startRefill = () => {
+    if (!inventory) return;
+    setRefillAmount(inventory.packSize);
+    setMode('refill');
+  };
+
+  if (mode === 'edit') {
+    const draftError = validateInventory(draft);
+    const update = (changes: Partial<Inventory>) => setDraft(prev => ({ ...prev, ...changes }));
+    return (
+      <div className="mt-3 p-3 bg-gray-50 rounded-md space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm font-medium text-gray-700">
+            {t('inventory.packSize', { unit })}
+            <input
+              type="number"
+              min={1}
+              step="any"
+              value={draft.packSize}
+              onChange={(e) => update({ packSize: numberValue(e.target.value) })}
+              className={`w-full mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            {t('inventory.inStock', { unit })}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={draft.stock}
+              onChange={(e) => update({ stock: numberValue(e.target.value) })}
+              className={`w-full mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            {t('inventory.perDose', { unit })}
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={draft.perIntake}
+              onChange={(e) => update({ perIntake: numberValue(e.target.value) })}
+              className={`w-full mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="text-sm font-medium text-gray-700">
+            {t('inventory.alertDays')}
+            <input
+              type="number"
+              min={0}
+              value={draft.alertDaysBefore}
+              onChange={(e) => update({ alertDaysBefore: Math.round(numberValue(e.target.value)) })}
+              className={`w-full mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+        {draftError && <p className="text-sm text-red-600">{draftError}</p>}
+        <div className="flex justify-end gap-2">
+          {inventory && (
+            <button
+              onClick={() => {
+                onChange({ ...reminder, inventory: undefined });
+                setMode('view');
+              }}
+              className="me-auto text-sm text-red-600 hover:text-red-700"
+            >
+              {t('inventory.stopTracking')}
+            </button>
+          )}
+          <button onClick={() => setMode('view')} className="px-3 py-1 text-gray-600 hover:text-gray-700">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => {
+              onChange({ ...reminder, inventory: { ...draft, alertSnoozedUntil: undefined } });
+              setMode('view');
+            }}
+            disabled={!!draftError}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!inventory) {
+    return (
+      <button onClick={startEditing} className="mt-2 text-sm text-blue-600 hover:text-blue-700">
+        {t('inventory.track')}
+      </button>
+    );
+  }
+
+  const now = new Date();
+  const forecast = forecastSupply(reminder, now);
+  const isLow = !!forecast && forecast.daysLeft !== null && forecast.daysLeft <= inventory.alertDaysBefore;
+
+  let runOutText = t('inventory.lastsUntilEnd');
+  if (forecast && forecast.runOutAt) {
+    runOutText = forecast.dosesLeft
+      ? t('inventory.runsOut', { date: formatDate(forecast.runOutAt), days: t('common.days', { count: forecast.daysLeft! }) })
+      : t('inventory.outOfStock');
+  }
+
+  return (
+    <div className="mt-2">
+      <p className={`text-sm ${isLow ? 'text-orange-700 font-medium' : 'text-gray-600'}`}>
+        {t('inventory.summary', {
+          stock: inventory.stock,
+          unit,
+          doses: t('common.doses', { count: forecast ? forecast.dosesLeft : 0 }),
+          runOut: runOutText,
+        })}
+      </p>
+      <div className="flex flex-wrap gap-3 text-sm">
+        <button onClick={startRefill} className="text-blue-600 hover:text-blue-700">{t('inventory.logRefill')}</button>
+        <button onClick={startEditing} className="text-blue-600 hover:text-blue-700">{t('inventory.editSupply')}</button>
+        {inventory.refills.length > 0 && (
+          <button onClick={() => setMode(mode === 'log' ? 'view' : 'log')} className="text-blue-600 hover:text-blue-700">
+            {mode === 'log' ? t('inventory.hideRefillLog') : t('inventory.refillLog', { count: inventory.refills.length })}
+          </button>
+        )}
+      </div>
+
+      {mode === 'refill' && (
+        <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+          {t('inventory.added')}
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={refillAmount}
+            onChange={(e) => setRefillAmount(numberValue(e.target.value))}
+            className={`w-24 ${inputClass}`}
+          />
+          {unit}
+          <button onClick={() => setMode('view')} className="px-3 py-1 text-gray-600 hover:text-gray-700">
+            {t('common.cancel')}
+          </button>
+          <button
+            onClick={() => {
+              onChange(recordRefill(reminder, refillAmount, new Date()));
+              setMode('view');
+            }}
+            disabled={!(refillAmount > 0)}
+            className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {t('common.save')}
+          </button>
+        </div>
+      )}
+
+      {mode === 'log' && (
+        <ul className="mt-2 text-sm text-gray-600 space-y-1">
+          {inventory.refills.map(refill => {
+            const date = new Date(refill.date);
+            return (
+              <li key={refill.date}>
+                {formatDate(date)} {formatTime(date)} · +{refill.amount} {unit}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ReminderInventory;
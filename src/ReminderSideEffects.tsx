@@ -0,0 +1,68 @@
+import React from 'react';
+import { translateTerm } from './i18n';
+import { useLocale } from './locale';
+import { Link, paths } from './router';
+import { aggregateSideEffects } from './sideEffects';
+import { Medicine } from './types';
+
+// "Side effects you may experience" across every scheduled medicine. Side
+// effects listed by more than one of them are flagged, since the chance of
+// noticing them adds up.
+function ReminderSideEffects({ medicines }: { medicines: Medicine[] }) {
+  const { t } = useLocale();
+  const sideEffects = aggregateSideEffects(medicines);
+  const shared = sideEffects.filter(sideEffect => sideEffect.medicines.length > 1);
+  const single = sideEffects.filter(sideEffect => sideEffect.medicines.length === 1);
+
+  if (!sideEffects.length) {
+    return <p className="text-gray-600">{t('reminderSideEffects.none')}</p>;
+  }
+
+  return (
+    <div>
+      {shared.length > 0 && (
+        <div className="mb-4">
+          <h4 className="font-semibold text-orange-700 mb-2">{t('reminderSideEffects.shared')}</h4>
+          <ul className="space-y-2">
+            {shared.map(sideEffect => (
+              <li key={sideEffect.key} className="p-3 bg-orange-50 border border-orange-200 rounded-md">
+                <div className="flex justify-between items-center gap-4">
+                  <Link
+                    to={`${paths.sideEffects}?q=${encodeURIComponent(sideEffect.label)}`}
+                    className="font-medium text-gray-800 hover:underline"
+                  >
+                    {translateTerm(sideEffect.label)}
+                  </Link>
+                  <span className="flex-shrink-0 px-2 py-0.5 bg-orange-200 text-orange-800 rounded-full text-xs font-semibold">
+                    {t('reminderSideEffects.medicineCount', { count: sideEffect.medicines.length })}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">{sideEffect.medicines.map(medicine => medicine.name).join(', ')}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {single.length > 0 && (
+        <div>
+          <h4 className="font-semibold text-gray-700 mb-2">{shared.length ? t('reminderSideEffects.other') : t('medicine.sideEffects')}</h4>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1 text-sm text-gray-700">
+            {single.map(sideEffect => (
+              <li key={sideEffect.key}>
+                <Link to={`${paths.sideEffects}?q=${encodeURIComponent(sideEffect.label)}`} className="hover:underline">
+                  {translateTerm(sideEffect.label)}
+                </Link>
+                <span className="text-gray-500"> ({sideEffect.medicines[0].name})</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <p className="mt-4 text-xs text-gray-500">
+        {t('reminderSideEffects.disclaimer')}
+      </p>
+    </div>
+  );
+}
+
+export default ReminderSideEffects;
@@ -0,0 +1,265 @@
+import React from 'react';
+import { unitLabel, weekdayName } from './i18n';
+import { Message, useLocale } from './locale';
+import { describeSchedule, DOSE_UNITS, WEEKDAY_LABELS } from './schedule';
+import { Recurrence, ReminderSchedule } from './types';
+
+const INTERVAL_HOURS = [4, 6, 8, 12];
+
+interface ScheduleEditorProps {
+  schedule: ReminderSchedule;
+  onChange: (schedule: ReminderSchedule) => void;
+}
+
+const defaultRecurrence = (type: Recurrence['type']): Recurrence => {
+  switch (type) {
+    case 'weekly':
+      return { type, days: [1, 3, 5] };
+    case 'everyNDays':
+      return { type, days: 2 };
+    case 'interval':
+      return { type, hours: 8 };
+    default:
+      return { type: 'daily' };
+  }
+};
+
+const inputClass = 'p-2 border border-gray-300 rounded-md';
+
+function ScheduleEditor({ schedule, onChange }: ScheduleEditorProps) {
+  const { t } = useLocale();
+  const { recurrence } = schedule;
+  const update = (changes: Partial<ReminderSchedule>) => onChange({ ...schedule, ...changes });
+
+  const updateTime = (index: number, value: string) =>
+    update({ times: schedule.times.map((time, i) => (i === index ? value : time)) });
+
+  const toggleWeekday = (day: number) => {
+    if (recurrence.type !== 'weekly') return;
+    const days = recurrence.days.includes(day)
+      ? recurrence.days.filter(d => d !== day)
+      : [...recurrence.days, day];
+    update({ recurrence: { type: 'weekly', days } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('scheduleEditor.repeat')}</label>
+        <select
+          value={recurrence.type}
+          onChange={(e) => {
+            const type = e.target.value as Recurrence['type'];
+            // Interval rules only use the first dose time
+            update({
+              recurrence: defaultRecurrence(type),
+              times: type === 'interval' ? schedule.times.slice(0, 1) : schedule.times,
+            });
+          }}
+          className={`w-full ${inputClass}`}
+        >
+          <option value="daily">{t('scheduleEditor.daily')}</option>
+          <option value="weekly">{t('scheduleEditor.weekly')}</option>
+          <option value="everyNDays">{t('scheduleEditor.everyNDays')}</option>
+          <option value="interval">{t('scheduleEditor.interval')}</option>
+        </select>
+      </div>
+
+      {recurrence.type === 'weekly' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => toggleWeekday(day)}
+              className={`px-3 py-1 rounded-md text-sm border ${
+                recurrence.days.includes(day)
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-blue-50'
+              }`}
+            >
+              {weekdayName(day)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {recurrence.type === 'everyNDays' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <Message
+            id="scheduleEditor.everyNDaysField"
+            values={{
+              days: (
+                <input
+                  type="number"
+                  min={2}
+                  value={recurrence.days}
+                  onChange={(e) => update({ recurrence: { type: 'everyNDays', days: Math.max(2, Number(e.target.value) || 2) } })}
+                  className={`w-20 ${inputClass}`}
+                />
+              ),
+            }}
+          />
+        </label>
+      )}
+
+      {recurrence.type === 'interval' ? (
+        <div className="flex items-center gap-2 text-sm text-gray-700">
+          <Message
+            id="scheduleEditor.intervalField"
+            values={{
+              hours: (
+                <select
+                  value={recurrence.hours}
+                  onChange={(e) => update({ recurrence: { type: 'interval', hours: Number(e.target.value) } })}
+                  className={inputClass}
+                >
+                  {INTERVAL_HOURS.map(hours => (
+                    <option key={hours} value={hours}>{hours}</option>
+                  ))}
+                </select>
+              ),
+              time: (
+                <input
+                  type="time"
+                  value={schedule.times[0] || '08:00'}
+                  onChange={(e) => update({ times: [e.target.value] })}
+                  className={inputClass}
+                />
+              ),
+            }}
+          />
+        </div>
+      ) : (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">{t('scheduleEditor.doseTimes')}</label>
+          <div className="space-y-2">
+            {schedule.times.map((time, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => updateTime(index, e.target.value)}
+                  className={`flex-grow ${inputClass}`}
+                />
+                {schedule.times.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => update({ times: schedule.times.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-700 text-sm"
+                  >
+                    {t('scheduleEditor.remove')}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => update({ times: [...schedule.times, '21:00'] })}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+          >
+            {t('scheduleEditor.addTime')}
+          </button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-sm font-medium text-gray-700">
+          {t('scheduleEditor.startDate')}
+          <input
+            type="date"
+            value={schedule.startDate}
+            onChange={(e) => e.target.value && update({ startDate: e.target.value })}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+        <label className="text-sm font-medium text-gray-700">
+          {t('scheduleEditor.endDate')}
+          <input
+            type="date"
+            value={schedule.endDate || ''}
+            min={schedule.startDate}
+            onChange={(e) => update({ endDate: e.target.value || undefined })}
+            className={`w-full mt-1 ${inputClass}`}
+          />
+        </label>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">{t('scheduleEditor.dose')}</label>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={schedule.dose ? schedule.dose.amount : ''}
+            placeholder={t('scheduleEditor.amount')}
+            onChange={(e) => {
+              const amount = parseFloat(e.target.value);
+              update({
+                dose: isNaN(amount) ? undefined : { amount, unit: schedule.dose ? schedule.dose.unit : DOSE_UNITS[0] },
+              });
+            }}
+            className={`w-24 ${inputClass}`}
+          />
+          <select
+            value={schedule.dose ? schedule.dose.unit : DOSE_UNITS[0]}
+            disabled={!schedule.dose}
+            onChange={(e) => schedule.dose && update({ dose: { ...schedule.dose, unit: e.target.value } })}
+            className={`flex-grow ${inputClass}`}
+          >
+            {DOSE_UNITS.map(unit => (
+              <option key={unit} value={unit}>{unitLabel(unit)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {schedule.dose && (
+        <div>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!schedule.taper}
+              onChange={(e) => update({ taper: e.target.checked ? { decreaseBy: 1, everyDays: 3 } : undefined })}
+            />
+            {t('scheduleEditor.taper')}
+          </label>
+          {schedule.taper && (
+            <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <Message
+                id="scheduleEditor.taperField"
+                values={{
+                  amount: (
+                    <input
+                      type="number"
+                      min={0}
+                      step="any"
+                      value={schedule.taper.decreaseBy}
+                      onChange={(e) => schedule.taper && update({ taper: { ...schedule.taper, decreaseBy: Math.max(0, parseFloat(e.target.value) || 0) } })}
+                      className={`w-20 ${inputClass}`}
+                    />
+                  ),
+                  days: (
+                    <input
+                      type="number"
+                      min={1}
+                      value={schedule.taper.everyDays}
+                      onChange={(e) => schedule.taper && update({ taper: { ...schedule.taper, everyDays: Math.max(1, Number(e.target.value) || 1) } })}
+                      className={`w-20 ${inputClass}`}
+                    />
+                  ),
+                }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      <p className="text-sm text-gray-600 bg-gray-50 p-2 rounded-md">{describeSchedule(schedule)}</p>
+    </div>
+  );
+}
+
+export default ScheduleEditor;
@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useCatalog, useSideEffectIndex } from './catalog';
+import { translateTerm } from './i18n';
+import { useLocale } from './locale';
+import { Link, navigate, paths } from './router';
+import { normalizeSideEffect, searchSideEffects } from './sideEffects';
+import { MedicineSummary } from './types';
+
+// Medicines listed per page for the selected side effect
+const MEDICINES_PAGE_SIZE = 50;
+
+const queryFromUrl = () => new URLSearchParams(window.location.search).get('q') || '';
+
+function SideEffectExplorerPage() {
+  const { t } = useLocale();
+  const { getSummary } = useCatalog();
+  const { index, isLoading, error } = useSideEffectIndex();
+  const [query, setQuery] = useState(queryFromUrl);
+  const [shownCount, setShownCount] = useState(MEDICINES_PAGE_SIZE);
+
+  const matches = useMemo(() => (index ? searchSideEffects(index, query) : []), [index, query]);
+  // The list of medicines is shown once the query names a side effect exactly
+  const selected = matches.length && matches[0].term.key === normalizeSideEffect(query) ? matches[0].term : null;
+  const medicines = useMemo(
+    () => (selected ? selected.medicineIds.map(getSummary).filter((m): m is MedicineSummary => m !== undefined) : []),
+    [selected, getSummary]
+  );
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    navigate(trimmed ? `${paths.sideEffects}?q=${encodeURIComponent(trimmed)}` : paths.sideEffects, { replace: true });
+    setShownCount(MEDICINES_PAGE_SIZE);
+  }, [query]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ml-4 text-lg text-gray-700">{t('sideEffects.loading')}</p>
+      </div>
+    );
+  }
+
+  if (error || !index) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{error && t(error)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl max-w-5xl mx-auto">
+      <h2 className="text-3xl font-bold text-blue-700 mb-2 text-center">{t('sideEffects.title')}</h2>
+      <p className="text-center text-gray-600 mb-6">
+        {t('sideEffects.intro')}
+      </p>
+
+      <input
+        type="search"
+        placeholder={t('sideEffects.placeholder')}
+        value={query}
+        onChange={e => setQuery(e.target.value)}
+        className="w-full p-3 mb-6 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {!query.trim() && (
+        <>
+          <h3 className="text-lg font-semibold text-gray-800 mb-2">{t('sideEffects.mostCommon')}</h3>
+          <ul className="flex flex-wrap gap-2">
+            {index.terms.slice(0, 20).map(term => (
+              <li key={term.key}>
+                <button
+                  onClick={() => setQuery(term.label)}
+                  className="px-3 py-1 bg-blue-50 border border-blue-100 rounded-full text-sm text-blue-800 hover:bg-blue-100"
+                >
+                  {translateTerm(term.label)} <span className="text-gray-500">({term.medicineIds.length})</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {query.trim() && !matches.length && (
+        <p className="text-center text-gray-600">{t('sideEffects.noMatches', { query })}</p>
+      )}
+
+      {query.trim() && !selected && matches.length > 0 && (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-md">
+          {matches.map(({ term, medicineCount }) => (
+            <li key={term.key}>
+              <button
+                onClick={() => setQuery(term.label)}
+                className="w-full px-4 py-2 flex justify-between text-left hover:bg-blue-50"
+              >
+                <span>{translateTerm(term.label)}</span>
+                <span className="text-sm text-gray-500">{t('sideEffects.medicineCount', { count: medicineCount })}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selected && (
+        <section>
+          <h3 className="text-xl font-semibold text-gray-800 mb-1">{translateTerm(selected.label)}</h3>
+          <p className="text-sm text-gray-500 mb-4">{t('sideEffects.listedBy', { count: medicines.length })}</p>
+          {matches.length > 1 && (
+            <p className="text-sm text-gray-600 mb-4">
+              {t('sideEffects.related')}{' '}
+              {matches.slice(1, 6).map(({ term, medicineCount }, i) => (
+                <React.Fragment key={term.key}>
+                  {i > 0 && ', '}
+                  <button onClick={() => setQuery(term.label)} className="text-blue-600 hover:underline">
+                    {translateTerm(term.label)}
+                  </button>{' '}
+                  ({medicineCount})
+                </React.Fragment>
+              ))}
+            </p>
+          )}
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {medicines.slice(0, shownCount).map(medicine => (
+              <li key={medicine.id} className="p-3 bg-gray-50 rounded-md">
+                <Link to={paths.medicine(medicine.id)} className="font-medium text-blue-600 hover:underline">
+                  {medicine.name}
+                </Link>
+                <p className="text-sm text-gray-500">{medicine["Therapeutic Class"]}</p>
+              </li>
+            ))}
+          </ul>
+          {medicines.length > shownCount && (
+            <button
+              onClick={() => setShownCount(count => count + MEDICINES_PAGE_SIZE)}
+              className="mt-4 px-4 py-2 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              {t('sideEffects.showMore', { count: medicines.length - shownCount })}
+            </button>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
+
+export default SideEffectExplorerPage;
@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useCatalog } from './catalog';
+import { translateTerm } from './i18n';
+import { useLocale } from './locale';
+import { Link, navigate, paths } from './router';
+import { buildSymptomDictionary, normalizeSymptom, recommendMedicines, resolveSymptom, suggestSymptoms } from './symptoms';
+
+// Medicines shown per Therapeutic Class before "Show all"
+const COLLAPSED_GROUP_SIZE = 5;
+
+// Symptoms are kept in the URL (comma-separated) so results can be shared
+const symptomsFromUrl = () =>
+  (new URLSearchParams(window.location.search).get('symptoms') || '')
+    .split(',')
+    .map(symptom => symptom.trim())
+    .filter(Boolean);
+
+function SymptomRecommenderPage() {
+  const { t } = useLocale();
+  const { medicines, isLoading, error } = useCatalog();
+  const [symptoms, setSymptoms] = useState<string[]>(symptomsFromUrl);
+  const [input, setInput] = useState('');
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const dictionary = useMemo(() => buildSymptomDictionary(medicines), [medicines]);
+  const suggestions = useMemo(() => suggestSymptoms(dictionary, input), [dictionary, input]);
+  const groups = useMemo(() => recommendMedicines(dictionary, medicines, symptoms), [dictionary, medicines, symptoms]);
+  const total = groups.reduce((sum, group) => sum + group.recommendations.length, 0);
+
+  useEffect(() => {
+    const params = new URLSearchParams();
+    if (symptoms.length) params.set('symptoms', symptoms.join(','));
+    const query = params.toString();
+    navigate(query ? `${paths.symptoms}?${query}` : paths.symptoms, { replace: true });
+  }, [symptoms]);
+
+  const addSymptom = (value: string) => {
+    const symptom = value.replace(/,/g, ' ').trim();
+    setInput('');
+    if (!symptom) return;
+    setSymptoms(prev =>
+      prev.some(existing => normalizeSymptom(existing) === normalizeSymptom(symptom)) ? prev : [...prev, symptom]
+    );
+  };
+
+  const removeSymptom = (symptom: string) => {
+    setSymptoms(prev => prev.filter(existing => existing !== symptom));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addSymptom(input);
+    } else if (e.key === 'Backspace' && !input && symptoms.length) {
+      removeSymptom(symptoms[symptoms.length - 1]);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-full">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+        <p className="ml-4 text-lg text-gray-700">{t('common.loadingMedicines')}</p>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center text-red-600 p-4 rounded-md bg-red-100 max-w-md mx-auto">
+        <p className="font-bold text-lg mb-2">{t('common.errorLoading')}</p>
+        <p>{t(error)}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-xl max-w-5xl mx-auto">
+      <h2 className="text-3xl font-bold text-blue-700 mb-2 text-center">{t('symptoms.title')}</h2>
+      <p className="text-center text-gray-600 mb-6">
+        {t('symptoms.intro')}
+      </p>
+
+      <div className="relative mb-6">
+        <div className="flex flex-wrap items-center gap-2 p-2 border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+          {symptoms.map(symptom => {
+            const recognized = resolveSymptom(dictionary, symptom).length > 0;
+            return (
+              <span
+                key={symptom}
+                title={recognized ? undefined : t('symptoms.notFound')}
+                className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm ${recognized ? 'bg-blue-100 text-blue-800' : 'bg-gray-200 text-gray-500 line-through'}`}
+              >
+                {symptom}
+                <button
+                  onClick={() => removeSymptom(symptom)}
+                  aria-label={t('symptoms.remove', { symptom })}
+                  className="ml-1 text-gray-500 hover:text-gray-800"
+                >
+                  ×
+                </button>
+              </span>
+            );
+          })}
+          <input
+            type="text"
+            placeholder={symptoms.length ? t('symptoms.addAnother') : t('symptoms.placeholder')}
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="flex-grow min-w-[12rem] p-1 outline-none"
+          />
+        </div>
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-60 overflow-y-auto custom-scrollbar">
+            {suggestions.map(term => (
+              <li
+                key={term.key}
+                onClick={() => addSymptom(term.label)}
+                className="px-3 py-2 hover:bg-blue-50 cursor-pointer flex justify-between"
+              >
+                <span>{term.label}</span>
+                <span className="text-sm text-gray-500">{t('symptoms.medicineCount', { count: term.medicineCount })}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {symptoms.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-gray-700">
+          <strong>{t('symptoms.notAdvice')}</strong> {t('symptoms.disclaimer')}
+        </div>
+      )}
+
+      {symptoms.length > 0 && total === 0 && (
+        <p className="text-center text-gray-600">
+          {t('symptoms.noResults')}
+        </p>
+      )}
+
+      {total > 0 && (
+        <p className="text-sm text-gray-500 mb-4">
+          {t('symptoms.summary', {
+            medicines: t('symptoms.medicineCount', { count: total }),
+            classes: t('symptoms.classCount', { count: groups.length }),
+          })}
+        </p>
+      )}
+
+      <div className="space-y-6">
+        {groups.map(({ therapeuticClass, recommendations }) => {
+          const shown = expanded[therapeuticClass] ? recommendations : recommendations.slice(0, COLLAPSED_GROUP_SIZE);
+          return (
+            <section key={therapeuticClass}>
+              <h3 className="text-xl font-semibold text-gray-800 mb-2">
+                {therapeuticClass}
+                <span className="ml-2 text-sm font-normal text-gray-500">({recommendations.length})</span>
+              </h3>
+              <ul className="space-y-2">
+                {shown.map(({ medicine, matches }) => (
+                  <li key={medicine.id} className="p-4 bg-gray-50 rounded-lg shadow-sm">
+                    <div className="flex justify-between items-center gap-4">
+                      <Link to={paths.medicine(medicine.id)} className="text-lg font-medium text-blue-600 hover:underline">
+                        {medicine.name}
+                      </Link>
+                      <span className="flex-shrink-0 text-sm text-gray-600">
+                        {t('symptoms.covers', { matched: matches.length, count: symptoms.length })}
+                      </span>
+                    </div>
+                    <ul className="mt-1 text-sm text-gray-600">
+                      {matches.map(match => (
+                        <li key={match.symptom}>
+                          <span className="font-medium">{match.symptom}:</span> {match.uses.map(translateTerm).join(', ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+              {recommendations.length > COLLAPSED_GROUP_SIZE && (
+                <button
+                  onClick={() => setExpanded(prev => ({ ...prev, [therapeuticClass]: !prev[therapeuticClass] }))}
+                  className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {expanded[therapeuticClass] ? t('symptoms.showFewer') : t('symptoms.showAll', { count: recommendations.length })}
+                </button>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default SymptomRecommenderPage;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { formatDate, formatTime, MessageKey } from './i18n';
+import { Message, useLocale } from './locale';
+import { DEFAULT_SYNC_SERVER } from './sync';
+import { SyncController, SyncStatus } from './useSync';
+
+const STATUS_LABELS: Record<SyncStatus, MessageKey> = {
+  signedOut: 'sync.signedOut',
+  syncing: 'sync.syncing',
+  synced: 'sync.synced',
+  offline: 'sync.offline',
+  error: 'sync.error',
+};
+
+const STATUS_STYLES: Record<SyncStatus, string> = {
+  signedOut: 'bg-gray-100 text-gray-700',
+  syncing: 'bg-blue-100 text-blue-800',
+  synced: 'bg-green-100 text-green-800',
+  offline: 'bg-yellow-100 text-yellow-800',
+  error: 'bg-red-100 text-red-800',
+};
+
+function SignInForm({ onSignIn }: { onSignIn: SyncController['signIn'] }) {
+  const { t } = useLocale();
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SYNC_SERVER);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+    try {
+      await onSignIn(serverUrl.trim(), username.trim(), password);
+    } catch (e) {
+      console.error("Failed to sign in to sync server:", e);
+      setError(e instanceof Error ? e.message : t('sync.signInFailed'));
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('sync.server')}</span>
+        <input
+          type="url"
+          value={serverUrl}
+          onChange={(e) => setServerUrl(e.target.value)}
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+          required
+        />
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('sync.username')}</span>
+        <input
+          type="text"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+          required
+        />
+      </label>
+      <label className="block">
+        <span className="text-sm font-medium text-gray-700">{t('sync.password')}</span>
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="w-full p-2 mt-1 border border-gray-300 rounded-md"
+          required
+        />
+      </label>
+      {error && <p className="text-sm text-red-700" role="alert">{error}</p>}
+      <button
+        type="submit"
+        disabled={isSigningIn}
+        className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 transition duration-200 disabled:opacity-50"
+      >
+        {isSigningIn ? t('sync.signingIn') : t('sync.signIn')}
+      </button>
+    </form>
+  );
+}
+
+// Sign-in and status for syncing profiles, reminders and dose history
+// across devices. Shown under the profiles list.
+function SyncPanel({ sync }: { sync: SyncController }) {
+  const { t } = useLocale();
+  const { session, status, lastSyncedAt, error, signIn, signOut, syncNow } = sync;
+
+  return (
+    <section className="max-w-3xl mx-auto mt-10 bg-white p-6 rounded-lg shadow-md">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-xl font-semibold text-blue-600">{t('sync.title')}</h3>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${STATUS_STYLES[status]}`} role="status">
+          {t(STATUS_LABELS[status])}
+        </span>
+      </div>
+      <p className="text-gray-600 mb-4">
+        {t('sync.intro')}
+      </p>
+      {error && <p className="mb-4 text-sm text-red-700" role="alert">{t(error)}</p>}
+
+      {session ? (
+        <div className="space-y-3">
+          <p className="text-gray-700">
+            <Message
+              id="sync.signedInAs"
+              values={{ username: <span className="font-semibold">{session.username}</span>, server: session.serverUrl }}
+            />
+          </p>
+          {lastSyncedAt && (
+            <p className="text-sm text-gray-500">
+              {t('sync.lastSynced', { date: formatDate(lastSyncedAt), time: formatTime(lastSyncedAt) })}
+            </p>
+          )}
+          <div className="flex gap-3">
+            <button
+              onClick={syncNow}
+              disabled={status === 'syncing'}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition duration-200 disabled:opacity-50"
+            >
+              {t('sync.syncNow')}
+            </button>
+            <button onClick={signOut} className="text-gray-600 hover:text-gray-700">
+              {t('sync.signOut')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <SignInForm onSignIn={signIn} />
+      )}
+    </section>
+  );
+}
+
+export default SyncPanel;
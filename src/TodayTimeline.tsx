@@ -0,0 +1,86 @@
+import React from 'react';
+import { DoseAction, skipReasonLabel } from './adherence';
+import { doseLabel, formatTime } from './i18n';
+import { LocaleContextValue, useLocale } from './locale';
+import { Link, paths } from './router';
+import { activeReminders } from './schedule';
+import { buildTodayTimeline, TIMELINE_SECTIONS, TimelineItem, TimelineStatus } from './today';
+import { DoseLogEntry, Reminder } from './types';
+
+const SECTION_CLASSES: Record<TimelineStatus, string> = {
+  overdue: 'border-red-400 bg-red-50',
+  dueNow: 'border-blue-500 bg-blue-50',
+  upcoming: 'border-gray-300 bg-white',
+  done: 'border-green-400 bg-gray-50',
+};
+
+interface TodayTimelineProps {
+  reminders: Reminder[];
+  doseLog: DoseLogEntry[];
+  onAction: (entryId: string, action: DoseAction) => void;
+}
+
+const doneLabel = (item: TimelineItem, t: LocaleContextValue['t']) => {
+  if (!item.entry || item.entry.status !== 'skipped') return t('today.taken');
+  return item.entry.skipReason ? t('today.skippedBecause', { reason: skipReasonLabel(item.entry.skipReason) }) : t('today.skipped');
+};
+
+// Today's doses grouped into overdue, due now, upcoming and done
+function TodayTimeline({ reminders, doseLog, onAction }: TodayTimelineProps) {
+  const { t } = useLocale();
+  const now = new Date();
+  const items = buildTodayTimeline(activeReminders(reminders), doseLog, now);
+
+  if (!items.length) {
+    return (
+      <p className="text-gray-600">
+        {t('today.nothing')} <Link to={paths.medications} className="text-blue-600 hover:underline">{t('today.addReminder')}</Link>
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {TIMELINE_SECTIONS.map(({ status, labelKey }) => {
+        const label = t(labelKey);
+        const sectionItems = items.filter(item => item.status === status);
+        if (!sectionItems.length) return null;
+        return (
+          <section key={status} aria-label={label}>
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-2">
+              {label} ({sectionItems.length})
+            </h3>
+            <ol className="space-y-2">
+              {sectionItems.map(item => (
+                <li
+                  key={item.id}
+                  className={`flex justify-between items-center gap-4 p-3 border-s-4 rounded-md ${SECTION_CLASSES[status]}`}
+                >
+                  <div>
+                    <span className="font-medium text-gray-900">{formatTime(item.occurrence)}</span>
+                    <span className="ms-3 text-gray-800">{item.reminder.medicineName}</span>
+                    {item.dose && <span className="ms-2 text-sm text-gray-500">{doseLabel(item.dose)}</span>}
+                  </div>
+                  {status === 'done' ? (
+                    <span className={item.entry && item.entry.status === 'skipped' ? 'text-yellow-700 text-sm' : 'text-green-600 text-sm'}>
+                      {doneLabel(item, t)}
+                    </span>
+                  ) : status !== 'upcoming' && (
+                    <button
+                      onClick={() => onAction(item.id, { type: 'taken' })}
+                      className="flex-shrink-0 px-3 py-1 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 transition duration-200"
+                    >
+                      {t('today.taken')}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
+
+export default TodayTimeline;
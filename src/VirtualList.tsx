@@ -0,0 +1,58 @@
+import React, { forwardRef, useState } from 'react';
+
+// Rows rendered above and below the visible window so fast scrolling
+// doesn't flash empty space
+const DEFAULT_OVERSCAN = 8;
+
+interface VirtualListProps<T> {
+  items: T[];
+  rowHeight: number; // every row must render at exactly this height
+  height: number;    // height of the scrolling viewport
+  getKey: (item: T) => React.Key;
+  renderRow: (item: T, index: number) => React.ReactNode;
+  overscan?: number;
+  label?: string;
+}
+
+// Scrolling list that only mounts the rows in view, so tens of thousands of
+// entries stay smooth. The forwarded ref is the scrolling element, for
+// jumping to a row with `scrollTop = index * rowHeight`.
+function VirtualListInner<T>(
+  { items, rowHeight, height, getKey, renderRow, overscan = DEFAULT_OVERSCAN, label }: VirtualListProps<T>,
+  ref: React.ForwardedRef<HTMLDivElement>
+) {
+  const [scrollTop, setScrollTop] = useState(0);
+  const first = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const last = Math.min(items.length, Math.ceil((scrollTop + height) / rowHeight) + overscan);
+
+  return (
+    <div
+      ref={ref}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      style={{ height, overflowY: 'auto' }}
+      className="custom-scrollbar"
+    >
+      <ul role="list" aria-label={label} style={{ height: items.length * rowHeight, position: 'relative' }}>
+        {items.slice(first, last).map((item, offset) => {
+          const index = first + offset;
+          return (
+            <li
+              key={getKey(item)}
+              aria-setsize={items.length}
+              aria-posinset={index + 1}
+              style={{ position: 'absolute', top: index * rowHeight, height: rowHeight, left: 0, right: 0 }}
+            >
+              {renderRow(item, index)}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+const VirtualList = forwardRef(VirtualListInner) as <T>(
+  props: VirtualListProps<T> & { ref?: React.Ref<HTMLDivElement> }
+) => React.ReactElement;
+
+export default VirtualList;
@@ -0,0 +1,122 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import {
+  adherenceStreaks,
+  applyDoseActionById,
+  doseEntryId,
+  effectiveStatus,
+  findMissedDoses,
+  MISSED_AFTER_MS,
+  recordFiredDoses,
+  snoozeDose,
+} from './adherence';
+import { DoseLogEntry, DoseStatus, Reminder } from './types';
+
+// Run with: node test.js (or just this file: node -r ./pipeline/register.js src/adherence.test.ts)
+
+// Days are grouped in local time; pin the zone so results don't depend on
+// the machine
+process.env.TZ = 'Europe/London';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const local = (month: number, day: number, hours = 0, minutes = 0) => new Date(2026, month - 1, day, hours, minutes);
+
+const reminder: Reminder = {
+  id: 1,
+  profileId: 1,
+  medicineName: 'Dolo 650 Tablet',
+  schedule: { times: ['09:00', '21:00'], recurrence: { type: 'daily' }, startDate: '2026-01-01' },
+};
+
+const entry = (scheduledFor: Date, status: DoseStatus = 'pending'): DoseLogEntry => ({
+  id: doseEntryId(reminder.id, scheduledFor),
+  reminderId: reminder.id,
+  profileId: reminder.profileId,
+  medicineName: reminder.medicineName,
+  scheduledFor: scheduledFor.toISOString(),
+  status,
+});
+
+const after = (date: Date, ms: number) => new Date(date.getTime() + ms);
+
+test('an unanswered dose counts as missed once the missed window has passed', () => {
+  const dose = entry(local(1, 5, 9));
+  assert.strictEqual(effectiveStatus(dose, after(local(1, 5, 9), MISSED_AFTER_MS)), 'pending');
+  assert.strictEqual(effectiveStatus(dose, after(local(1, 5, 9), MISSED_AFTER_MS + 1)), 'missed');
+  assert.strictEqual(effectiveStatus({ ...dose, status: 'taken' }, local(1, 6)), 'taken');
+});
+
+test('a snoozed dose counts as missed from the end of its snooze, also once it is due again', () => {
+  const scheduled = local(1, 5, 9);
+  const snoozedAt = after(scheduled, 90 * MINUTE_MS);
+  const snoozed = snoozeDose(entry(scheduled), 30, snoozedAt);
+  const snoozeEnd = after(snoozedAt, 30 * MINUTE_MS);
+  // Past the window counted from the scheduled time, not from the snooze
+  assert.strictEqual(effectiveStatus(snoozed, after(scheduled, MISSED_AFTER_MS + MINUTE_MS)), 'snoozed');
+
+  const [reopened] = recordFiredDoses([snoozed], [], [snoozed]);
+  assert.strictEqual(reopened.status, 'pending');
+  assert.strictEqual(effectiveStatus(reopened, after(snoozeEnd, MISSED_AFTER_MS)), 'pending');
+  assert.strictEqual(effectiveStatus(reopened, after(snoozeEnd, MISSED_AFTER_MS + 1)), 'missed');
+});
+
+test('doses that passed while the app was closed are found, but not ones still alerting or already fired', () => {
+  const graceMs = HOUR_MS;
+  const missed = findMissedDoses([reminder], local(1, 5, 8), local(1, 6, 9, 30), graceMs);
+  assert.deepStrictEqual(missed.map(({ occurrence }) => occurrence.getTime()), [
+    local(1, 5, 9).getTime(),
+    local(1, 5, 21).getTime(),
+  ]);
+
+  const triggered = { ...reminder, lastTriggered: local(1, 5, 9).toISOString() };
+  const sinceTrigger = findMissedDoses([triggered], local(1, 5, 8), local(1, 6, 9, 30), graceMs);
+  assert.deepStrictEqual(sinceTrigger.map(({ occurrence }) => occurrence.getTime()), [local(1, 5, 21).getTime()]);
+});
+
+test('catch-up looks back at most 30 days', () => {
+  const missed = findMissedDoses([reminder], local(1, 1), local(3, 1, 12), HOUR_MS);
+  assert.strictEqual(missed.length, 60);
+  assert.strictEqual(missed[0].occurrence.getTime(), local(1, 30, 21).getTime());
+});
+
+test('streaks count fully taken days and an open today does not break the current one', () => {
+  const now = local(1, 10, 9, 30);
+  const log = [
+    entry(local(1, 6, 9), 'taken'),
+    entry(local(1, 6, 21), 'skipped'),
+    ...[7, 8, 9].flatMap(day => [entry(local(1, day, 9), 'taken'), entry(local(1, day, 21), 'taken')]),
+    // Today: the morning dose is due but still within the missed window
+    entry(local(1, 10, 9)),
+  ];
+  assert.deepStrictEqual(adherenceStreaks(log, now), { current: 3, longest: 3 });
+
+  // Once today's dose is missed, the current streak ends
+  assert.deepStrictEqual(adherenceStreaks(log, local(1, 10, 12)), { current: 0, longest: 3 });
+});
+
+test('a day with a skipped dose ends the longest run', () => {
+  const now = local(1, 20);
+  const log = [
+    ...[1, 2].map(day => entry(local(1, day, 9), 'taken')),
+    entry(local(1, 3, 9), 'skipped'),
+    entry(local(1, 4, 9), 'taken'),
+  ];
+  assert.deepStrictEqual(adherenceStreaks(log, now), { current: 1, longest: 2 });
+});
+
+test('a notification action updates the logged dose, or logs it when it was not logged yet', () => {
+  const now = local(1, 5, 9, 5);
+  const logged = entry(local(1, 5, 9));
+  const updated = applyDoseActionById([logged], logged.id, { type: 'taken' }, [reminder], now);
+  assert.deepStrictEqual(updated.map(e => [e.id, e.status, e.actedAt]), [[logged.id, 'taken', now.toISOString()]]);
+
+  const unloggedId = doseEntryId(reminder.id, local(1, 5, 21));
+  const added = applyDoseActionById([logged], unloggedId, { type: 'skip', reason: 'Ran out' }, [reminder], now);
+  assert.deepStrictEqual(added.map(e => [e.id, e.status]), [[logged.id, 'pending'], [unloggedId, 'skipped']]);
+  assert.strictEqual(added[1].scheduledFor, local(1, 5, 21).toISOString());
+
+  // The reminder is gone: nothing to log
+  assert.deepStrictEqual(applyDoseActionById([logged], unloggedId, { type: 'taken' }, [], now), [logged]);
+});
@@ -0,0 +1,256 @@
+import { MessageKey, t } from './i18n';
+import { doseOn, DueDose, occurrencesBetween, toDateKey } from './schedule';
+import { DoseLogEntry, DoseStatus, Reminder } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Doses left unanswered this long count as missed
+export const MISSED_AFTER_MS = 2 * 60 * 60 * 1000;
+
+// Older log entries are dropped when saving
+const LOG_RETENTION_DAYS = 180;
+
+export const SNOOZE_OPTIONS_MINUTES = [5, 10, 30];
+
+export const SKIP_REASONS = ['Felt better', 'Side effects', 'Ran out', 'Forgot to carry it', 'Doctor advised', 'Other'];
+
+// Skip reasons are logged in English and translated for display
+const SKIP_REASON_KEYS: Record<string, MessageKey> = {
+  'Felt better': 'skipReason.feltBetter',
+  'Side effects': 'skipReason.sideEffects',
+  'Ran out': 'skipReason.ranOut',
+  'Forgot to carry it': 'skipReason.forgot',
+  'Doctor advised': 'skipReason.doctorAdvised',
+  'Other': 'skipReason.other',
+};
+
+export const skipReasonLabel = (reason: string) => (SKIP_REASON_KEYS[reason] ? t(SKIP_REASON_KEYS[reason]) : reason);
+
+// Catch-up looks back at most this far after the app was closed
+const MAX_CATCH_UP_DAYS = 30;
+
+// Log entry ids are derived from the occurrence so the service worker can
+// refer to a dose before the app has logged it
+export const doseEntryId = (reminderId: number, occurrence: Date) => `${reminderId}-${occurrence.toISOString()}`;
+
+const parseDoseEntryId = (id: string) => {
+  const separator = id.indexOf('-');
+  return { reminderId: Number(id.slice(0, separator)), occurrence: new Date(id.slice(separator + 1)) };
+};
+
+export const createLogEntry = ({ reminder, occurrence, dose }: DueDose, status: DoseStatus = 'pending'): DoseLogEntry => ({
+  id: doseEntryId(reminder.id, occurrence),
+  reminderId: reminder.id,
+  profileId: reminder.profileId,
+  medicineName: reminder.medicineName,
+  medicineId: reminder.medicineId,
+  scheduledFor: occurrence.toISOString(),
+  status,
+  dose,
+});
+
+// Adds log entries for newly fired and missed doses and re-opens snoozed
+// ones that are due
+export const recordFiredDoses = (
+  log: DoseLogEntry[],
+  fired: DueDose[],
+  snoozesDue: DoseLogEntry[],
+  missed: DueDose[] = []
+) => {
+  const reopened = new Set(snoozesDue.map(entry => entry.id));
+  const existing = new Set(log.map(entry => entry.id));
+  const updated = log.map(entry =>
+    // snoozedUntil is kept as the time the dose came due again
+    reopened.has(entry.id) ? { ...entry, status: 'pending' as DoseStatus } : entry
+  );
+  const added = [
+    ...missed.map(due => createLogEntry(due, 'missed')),
+    ...fired.map(due => createLogEntry(due)),
+  ].filter(entry => !existing.has(entry.id));
+  return [...updated, ...added];
+};
+
+// Occurrences that passed while the app wasn't running: everything after
+// the last scheduler run (or last trigger) that is already past the grace
+// period in which it would still alert normally
+export const findMissedDoses = (reminders: Reminder[], lastRun: Date, now: Date, graceMs: number): DueDose[] => {
+  const until = new Date(now.getTime() - graceMs);
+  const earliest = new Date(now.getTime() - MAX_CATCH_UP_DAYS * DAY_MS);
+  const missed: DueDose[] = [];
+  reminders.forEach(reminder => {
+    let from = lastRun > earliest ? lastRun : earliest;
+    if (reminder.lastTriggered) {
+      const lastTriggered = new Date(reminder.lastTriggered);
+      if (lastTriggered > from) from = lastTriggered;
+    }
+    if (from >= until) return;
+    occurrencesBetween(reminder.schedule, from, until).forEach(occurrence => {
+      missed.push({ reminder, occurrence, dose: doseOn(reminder.schedule, occurrence) });
+    });
+  });
+  return missed;
+};
+
+// Doses of a paused reminder stay quiet until it's resumed
+const withoutPaused = (log: DoseLogEntry[], reminders: Reminder[]) => {
+  const paused = new Set(reminders.filter(reminder => reminder.pausedAt).map(reminder => reminder.id));
+  return paused.size ? log.filter(entry => !paused.has(entry.reminderId)) : log;
+};
+
+export const findDueSnoozes = (log: DoseLogEntry[], reminders: Reminder[], now: Date) =>
+  withoutPaused(log, reminders)
+    .filter(entry => entry.status === 'snoozed' && entry.snoozedUntil && new Date(entry.snoozedUntil) <= now);
+
+export const nextSnoozeTime = (log: DoseLogEntry[], reminders: Reminder[]): Date | null =>
+  withoutPaused(log, reminders).reduce<Date | null>((earliest, entry) => {
+    if (entry.status !== 'snoozed' || !entry.snoozedUntil) return earliest;
+    const until = new Date(entry.snoozedUntil);
+    return !earliest || until < earliest ? until : earliest;
+  }, null);
+
+export const markTaken = (entry: DoseLogEntry, now: Date): DoseLogEntry =>
+  ({ ...entry, status: 'taken', actedAt: now.toISOString(), snoozedUntil: undefined });
+
+export const markSkipped = (entry: DoseLogEntry, reason: string, now: Date): DoseLogEntry =>
+  ({ ...entry, status: 'skipped', skipReason: reason, actedAt: now.toISOString(), snoozedUntil: undefined });
+
+export const snoozeDose = (entry: DoseLogEntry, minutes: number, now: Date): DoseLogEntry =>
+  ({ ...entry, status: 'snoozed', snoozedUntil: new Date(now.getTime() + minutes * 60 * 1000).toISOString() });
+
+// Status used for display and statistics: unanswered doses turn into missed,
+// counting from the end of the last snooze when there was one
+export const effectiveStatus = (entry: DoseLogEntry, now: Date): DoseStatus => {
+  const dueAt = new Date(entry.snoozedUntil || entry.scheduledFor);
+  if ((entry.status === 'pending' || entry.status === 'snoozed') && now.getTime() - dueAt.getTime() > MISSED_AFTER_MS) {
+    return 'missed';
+  }
+  return entry.status;
+};
+
+// Pending doses still recent enough to be answered from the alert
+export const activeAlerts = (log: DoseLogEntry[], reminders: Reminder[], now: Date) =>
+  withoutPaused(log, reminders)
+    .filter(entry => entry.status === 'pending' && effectiveStatus(entry, now) === 'pending')
+    .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor));
+
+export const pruneDoseLog = (log: DoseLogEntry[], now: Date) => {
+  const cutoff = new Date(now.getTime() - LOG_RETENTION_DAYS * DAY_MS).toISOString();
+  return log.filter(entry => entry.scheduledFor >= cutoff);
+};
+
+export interface AdherenceStats {
+  taken: number;
+  total: number;
+  percentage: number | null; // null when there were no resolved doses
+}
+
+// Share of doses taken over the last `days` days. Doses still awaiting an
+// answer are left out until they're taken, skipped or counted as missed.
+export const adherenceStats = (entries: DoseLogEntry[], days: number, now: Date): AdherenceStats => {
+  const since = now.getTime() - days * DAY_MS;
+  let taken = 0;
+  let total = 0;
+  entries.forEach(entry => {
+    if (new Date(entry.scheduledFor).getTime() < since) return;
+    const status = effectiveStatus(entry, now);
+    if (status === 'pending' || status === 'snoozed') return;
+    total++;
+    if (status === 'taken') taken++;
+  });
+  return { taken, total, percentage: total ? Math.round((taken / total) * 100) : null };
+};
+
+export type DaySummary = 'allTaken' | 'partial' | 'noneTaken' | 'open';
+
+// Per-day outcome keyed by YYYY-MM-DD, for the calendar and streaks
+export const summarizeDays = (entries: DoseLogEntry[], now: Date) => {
+  const byDay = new Map<string, DoseStatus[]>();
+  entries.forEach(entry => {
+    const key = toDateKey(new Date(entry.scheduledFor));
+    const statuses = byDay.get(key) || [];
+    statuses.push(effectiveStatus(entry, now));
+    byDay.set(key, statuses);
+  });
+  const summaries = new Map<string, DaySummary>();
+  byDay.forEach((statuses, key) => {
+    const taken = statuses.filter(status => status === 'taken').length;
+    // A day is only "open" while nothing in it has been skipped or missed
+    const failed = statuses.some(status => status === 'skipped' || status === 'missed');
+    summaries.set(key,
+      taken === statuses.length ? 'allTaken' : !failed ? 'open' : taken > 0 ? 'partial' : 'noneTaken');
+  });
+  return summaries;
+};
+
+// Consecutive days (with at least one dose) on which every dose was taken.
+// Today doesn't break the current streak while its doses are still open.
+export const adherenceStreaks = (entries: DoseLogEntry[], now: Date) => {
+  const summaries = summarizeDays(entries, now);
+  const days = Array.from(summaries.keys()).sort();
+  let longest = 0;
+  let run = 0;
+  days.forEach(day => {
+    const summary = summaries.get(day);
+    if (summary === 'allTaken') {
+      run++;
+      longest = Math.max(longest, run);
+    } else if (summary !== 'open') {
+      run = 0;
+    }
+  });
+
+  let current = 0;
+  const today = toDateKey(now);
+  for (let i = days.length - 1; i >= 0; i--) {
+    const summary = summaries.get(days[i]);
+    if (summary === 'allTaken') current++;
+    else if (summary === 'open' && days[i] === today) continue;
+    else break;
+  }
+  return { current, longest };
+};
+
+export type DoseAction =
+  | { type: 'taken' }
+  | { type: 'skip'; reason: string }
+  | { type: 'snooze'; minutes: number };
+
+// Applies an action that arrived from a system notification. The dose may
+// not be logged yet if the notification was scheduled ahead of time.
+export const applyDoseActionById = (
+  log: DoseLogEntry[],
+  entryId: string,
+  action: DoseAction,
+  reminders: Reminder[],
+  now: Date
+) => {
+  if (log.some(entry => entry.id === entryId)) {
+    return log.map(entry => (entry.id === entryId ? applyDoseAction(entry, action, now) : entry));
+  }
+  const { reminderId, occurrence } = parseDoseEntryId(entryId);
+  const reminder = reminders.find(r => r.id === reminderId);
+  if (!reminder || isNaN(occurrence.getTime())) return log;
+  const entry = createLogEntry({ reminder, occurrence, dose: doseOn(reminder.schedule, occurrence) });
+  return [...log, applyDoseAction(entry, action, now)];
+};
+
+// Reminder whose stock a "taken" action uses up, or null when the action
+// doesn't take a dose or the dose was already taken
+export const newlyTakenReminderId = (log: DoseLogEntry[], entryId: string, action: DoseAction) => {
+  if (action.type !== 'taken') return null;
+  const entry = log.find(e => e.id === entryId);
+  if (entry) return entry.status === 'taken' ? null : entry.reminderId;
+  const { reminderId } = parseDoseEntryId(entryId);
+  return isNaN(reminderId) ? null : reminderId;
+};
+
+export const applyDoseAction = (entry: DoseLogEntry, action: DoseAction, now: Date): DoseLogEntry => {
+  switch (action.type) {
+    case 'taken':
+      return markTaken(entry, now);
+    case 'skip':
+      return markSkipped(entry, action.reason, now);
+    case 'snooze':
+      return snoozeDose(entry, action.minutes, now);
+  }
+};
@@ -0,0 +1,133 @@
+import { doseEntryId } from './adherence';
+import { t } from './i18n';
+import { isObject, normalizeState, RawState, SCHEMA_VERSION, StoredState } from './storage';
+import { DoseLogEntry, Profile, Reminder } from './types';
+
+const BACKUP_FORMAT = 'medicine-app-backup';
+
+export interface Backup extends StoredState {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  profiles: number;
+  reminders: number;
+  duplicates: number;
+  doseLog: number;
+}
+
+export const createBackup = (state: StoredState, now: Date): Backup => ({
+  format: BACKUP_FORMAT,
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: now.toISOString(),
+  ...state,
+});
+
+// Reads a backup file, migrating it if it came from an older version. Throws
+// with a user-facing message when the file isn't a backup.
+export const parseBackup = (text: string): StoredState => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(t('exportImport.notJson'));
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new Error(t('exportImport.notBackup'));
+  }
+  const raw: RawState = {
+    profiles: Array.isArray(data.profiles) ? data.profiles : [],
+    reminders: Array.isArray(data.reminders) ? data.reminders : [],
+    doseLog: Array.isArray(data.doseLog) ? data.doseLog : [],
+  };
+  return normalizeState(raw, typeof data.schemaVersion === 'number' ? data.schemaVersion : 1);
+};
+
+// Two reminders for the same person, medicine and dose times are the same reminder
+const reminderKey = (reminder: Reminder) =>
+  [
+    reminder.profileId,
+    reminder.medicineId ?? reminder.medicineName.trim().toLowerCase(),
+    [...reminder.schedule.times].sort().join(','),
+  ].join('|');
+
+const profileKey = (profile: Profile) => profile.name.trim().toLowerCase();
+
+// Adds what's new in `incoming` to `current`. Profiles match by id or name,
+// reminders by profile, medicine and times; history of duplicate reminders
+// is attached to the existing one.
+const mergeStates = (current: StoredState, incoming: StoredState): { state: StoredState; summary: ImportSummary } => {
+  let nextId = Math.max(Date.now(), ...current.profiles.map(p => p.id), ...current.reminders.map(r => r.id)) + 1;
+
+  const profileIds = new Map<number, number>();
+  const profiles = [...current.profiles];
+  incoming.profiles.forEach(profile => {
+    const match = current.profiles.find(p => p.id === profile.id) ||
+      current.profiles.find(p => profileKey(p) === profileKey(profile));
+    if (match) {
+      profileIds.set(profile.id, match.id);
+    } else {
+      const id = profiles.some(p => p.id === profile.id) ? nextId++ : profile.id;
+      profileIds.set(profile.id, id);
+      profiles.push({ ...profile, id });
+    }
+  });
+
+  const reminderIds = new Map<number, number>();
+  const existingByKey = new Map(current.reminders.map(reminder => [reminderKey(reminder), reminder]));
+  const reminders = [...current.reminders];
+  let duplicates = 0;
+  incoming.reminders.forEach(reminder => {
+    const mapped = { ...reminder, profileId: profileIds.get(reminder.profileId) ?? reminder.profileId };
+    const existing = existingByKey.get(reminderKey(mapped));
+    if (existing) {
+      duplicates++;
+      reminderIds.set(reminder.id, existing.id);
+      return;
+    }
+    const id = reminders.some(r => r.id === mapped.id) ? nextId++ : mapped.id;
+    reminderIds.set(reminder.id, id);
+    const added = { ...mapped, id };
+    reminders.push(added);
+    existingByKey.set(reminderKey(added), added);
+  });
+
+  const logIds = new Set(current.doseLog.map(entry => entry.id));
+  const addedLog: DoseLogEntry[] = [];
+  incoming.doseLog.forEach(entry => {
+    const reminderId = reminderIds.get(entry.reminderId) ?? entry.reminderId;
+    const id = doseEntryId(reminderId, new Date(entry.scheduledFor));
+    if (logIds.has(id)) return;
+    logIds.add(id);
+    addedLog.push({ ...entry, id, reminderId, profileId: profileIds.get(entry.profileId) ?? entry.profileId });
+  });
+
+  return {
+    state: { profiles, reminders, doseLog: [...current.doseLog, ...addedLog] },
+    summary: {
+      profiles: profiles.length - current.profiles.length,
+      reminders: reminders.length - current.reminders.length,
+      duplicates,
+      doseLog: addedLog.length,
+    },
+  };
+};
+
+export const importBackup = (current: StoredState, incoming: StoredState, mode: ImportMode) => {
+  if (mode === 'replace') {
+    return {
+      state: incoming,
+      summary: {
+        profiles: incoming.profiles.length,
+        reminders: incoming.reminders.length,
+        duplicates: 0,
+        doseLog: incoming.doseLog.length,
+      },
+    };
+  }
+  return mergeStates(current, incoming);
+};
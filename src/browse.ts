@@ -0,0 +1,82 @@
+import { MedicineSummary } from './types';
+
+// Shown for medicines the dataset leaves without a class
+export const UNCLASSIFIED = 'Unclassified';
+
+// Names starting with a digit or symbol are filed under '#'
+export const OTHER_LETTER = '#';
+
+export interface LetterSection {
+  letter: string;
+  start: number; // index of the first medicine under this letter
+  count: number;
+}
+
+export interface ActionClassGroup {
+  actionClass: string;
+  medicines: MedicineSummary[];
+}
+
+export interface TherapeuticClassGroup {
+  therapeuticClass: string;
+  count: number;
+  actionClasses: ActionClassGroup[];
+}
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true });
+
+export const sortByName = (medicines: MedicineSummary[]) =>
+  [...medicines].sort((a, b) => collator.compare(a.name, b.name));
+
+export const letterOf = (name: string) => {
+  const first = name.trim().charAt(0).toUpperCase();
+  return first >= 'A' && first <= 'Z' ? first : OTHER_LETTER;
+};
+
+// Where each letter starts in a name-sorted list, for the A–Z jump bar
+export const letterSections = (sorted: MedicineSummary[]): LetterSection[] => {
+  const sections: LetterSection[] = [];
+  sorted.forEach((medicine, index) => {
+    const letter = letterOf(medicine.name);
+    const last = sections[sections.length - 1];
+    if (last && last.letter === letter) last.count++;
+    else sections.push({ letter, start: index, count: 1 });
+  });
+  return sections;
+};
+
+const classOf = (value: string | undefined) => (value && value.trim()) || UNCLASSIFIED;
+
+// Therapeutic Class -> Action Class -> medicines, each level sorted by name
+// with Unclassified last
+export const buildClassTree = (medicines: MedicineSummary[]): TherapeuticClassGroup[] => {
+  const tree = new Map<string, Map<string, MedicineSummary[]>>();
+  medicines.forEach(medicine => {
+    const therapeutic = classOf(medicine["Therapeutic Class"]);
+    const action = classOf(medicine["Action Class"]);
+    let actions = tree.get(therapeutic);
+    if (!actions) {
+      actions = new Map();
+      tree.set(therapeutic, actions);
+    }
+    const list = actions.get(action);
+    if (list) list.push(medicine);
+    else actions.set(action, [medicine]);
+  });
+
+  const compareClasses = (a: string, b: string) =>
+    a === UNCLASSIFIED ? 1 : b === UNCLASSIFIED ? -1 : collator.compare(a, b);
+
+  return Array.from(tree.entries())
+    .sort(([a], [b]) => compareClasses(a, b))
+    .map(([therapeuticClass, actions]) => {
+      const actionClasses = Array.from(actions.entries())
+        .sort(([a], [b]) => compareClasses(a, b))
+        .map(([actionClass, list]) => ({ actionClass, medicines: sortByName(list) }));
+      return {
+        therapeuticClass,
+        count: actionClasses.reduce((sum, group) => sum + group.medicines.length, 0),
+        actionClasses,
+      };
+    });
+};
@@ -0,0 +1,297 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { MessageKey } from './i18n';
+import { buildSideEffectIndex, SideEffectIndex } from './sideEffects';
+import { Medicine, MedicineSummary } from './types';
+
+// Paths written by the data pipeline (pipeline/buildCatalog.ts) at build
+// time. The index and shards are requested with the dataset version so the
+// service worker can cache them per version and drop them when the dataset
+// changes.
+const CATALOG_VERSION_URL = '/catalog/version.json';
+const catalogIndexUrl = (version: string) => `/catalog/index.json?v=${version}`;
+const catalogShardUrl = (version: string, shard: number) => `/catalog/shard-${shard}.json?v=${version}`;
+const sideEffectIndexUrl = (version: string) => `/catalog/side-effects.json?v=${version}`;
+// Unsplit dataset, used by the dev server where the splitter hasn't run
+const FULL_DATASET_URL = '/processed_medicine_data.json';
+
+interface CatalogIndex {
+  version: string;
+  shardCount: number;
+  medicines: MedicineSummary[];
+}
+
+type MedicineDetails = Pick<Medicine, 'sideEffects' | 'substitutes' | 'substituteIds'>;
+type CatalogShard = Record<string, MedicineDetails>;
+
+interface LoadedCatalog {
+  version: string;
+  shardCount: number;
+  medicines: MedicineSummary[];
+  byId: Map<number, MedicineSummary>;
+  byName: Map<string, MedicineSummary>;
+  // Only populated when we fell back to the unsplit dataset
+  fullRecords: Map<number, Medicine> | null;
+}
+
+export interface CatalogContextValue {
+  medicines: MedicineSummary[];
+  version: string | null;
+  isLoading: boolean;
+  error: MessageKey | null;
+  getSummary: (id: number) => MedicineSummary | undefined;
+  // Resolves a free-text name (e.g. an entry in `substitutes`) to a catalog entry
+  findByName: (name: string) => MedicineSummary | undefined;
+  // Catalog entry for each of a medicine's substitutes, using the ids the
+  // data pipeline resolved and falling back to matching by name
+  resolveSubstitutes: (medicine: Medicine) => (MedicineSummary | undefined)[];
+  loadMedicine: (id: number) => Promise<Medicine | null>;
+  loadSideEffectIndex: () => Promise<SideEffectIndex>;
+}
+
+const fetchJson = async <T,>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+const toSummary = ({ sideEffects, substitutes, substituteIds, ...summary }: Medicine): MedicineSummary => summary;
+
+const indexById = (medicines: MedicineSummary[]) =>
+  new Map(medicines.map(medicine => [medicine.id, medicine] as [number, MedicineSummary]));
+
+const nameKey = (name: string) => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const indexByName = (medicines: MedicineSummary[]) => {
+  const byName = new Map<string, MedicineSummary>();
+  medicines.forEach(medicine => {
+    // Keep the first entry when the dataset repeats a name
+    const key = nameKey(medicine.name);
+    if (!byName.has(key)) byName.set(key, medicine);
+  });
+  return byName;
+};
+
+const loadCatalog = async (): Promise<LoadedCatalog> => {
+  try {
+    const { version } = await fetchJson<{ version: string }>(CATALOG_VERSION_URL);
+    const index = await fetchJson<CatalogIndex>(catalogIndexUrl(version));
+    return { ...index, byId: indexById(index.medicines), byName: indexByName(index.medicines), fullRecords: null };
+  } catch (e) {
+    console.warn("Catalog index unavailable, falling back to the full dataset:", e);
+  }
+  const data = await fetchJson<Medicine[]>(FULL_DATASET_URL);
+  const medicines = data.map(toSummary);
+  return {
+    version: 'unsplit',
+    shardCount: 0,
+    medicines,
+    byId: indexById(medicines),
+    byName: indexByName(medicines),
+    fullRecords: new Map(data.map(medicine => [medicine.id, medicine] as [number, Medicine])),
+  };
+};
+
+// Module-level caches so the catalog is downloaded and parsed once per page
+// load, no matter how many times pages mount or the provider re-renders
+let catalogPromise: Promise<LoadedCatalog> | null = null;
+const shardPromises = new Map<number, Promise<CatalogShard>>();
+let sideEffectIndexPromise: Promise<SideEffectIndex> | null = null;
+
+const getCatalog = () => {
+  if (!catalogPromise) {
+    catalogPromise = loadCatalog().catch(e => {
+      // Allow a later mount to retry instead of caching the failure
+      catalogPromise = null;
+      throw e;
+    });
+  }
+  return catalogPromise;
+};
+
+const getShard = (version: string, shard: number) => {
+  let promise = shardPromises.get(shard);
+  if (!promise) {
+    promise = fetchJson<CatalogShard>(catalogShardUrl(version, shard)).catch(e => {
+      shardPromises.delete(shard);
+      throw e;
+    });
+    shardPromises.set(shard, promise);
+  }
+  return promise;
+};
+
+const resolveMedicine = async (id: number): Promise<Medicine | null> => {
+  const catalog = await getCatalog();
+  if (catalog.fullRecords) {
+    return catalog.fullRecords.get(id) ?? null;
+  }
+  const summary = catalog.byId.get(id);
+  if (!summary) return null;
+  const shard = await getShard(catalog.version, id % catalog.shardCount);
+  const details = shard[String(id)];
+  return {
+    ...summary,
+    sideEffects: details?.sideEffects ?? [],
+    substitutes: details?.substitutes ?? [],
+    substituteIds: details?.substituteIds,
+  };
+};
+
+// Only the side effect explorer needs this, so it's fetched on first use
+const getSideEffectIndex = () => {
+  if (!sideEffectIndexPromise) {
+    sideEffectIndexPromise = getCatalog()
+      .then(catalog =>
+        catalog.fullRecords
+          ? buildSideEffectIndex(Array.from(catalog.fullRecords.values()))
+          : fetchJson<SideEffectIndex>(sideEffectIndexUrl(catalog.version))
+      )
+      .catch(e => {
+        sideEffectIndexPromise = null;
+        throw e;
+      });
+  }
+  return sideEffectIndexPromise;
+};
+
+const CatalogContext = createContext<CatalogContextValue | null>(null);
+
+export function CatalogProvider({ children }: { children: React.ReactNode }) {
+  const [catalog, setCatalog] = useState<LoadedCatalog | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCatalog()
+      .then(loaded => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch(e => {
+        console.error("Failed to load medicine data:", e);
+        if (cancelled) return;
+        setError(navigator.onLine ? 'catalog.loadFailed' : 'catalog.offline');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const value = React.useMemo<CatalogContextValue>(() => ({
+    medicines: catalog ? catalog.medicines : [],
+    version: catalog ? catalog.version : null,
+    isLoading: !catalog && !error,
+    error,
+    getSummary: (id: number) => catalog?.byId.get(id),
+    findByName: (name: string) => catalog?.byName.get(nameKey(name)),
+    resolveSubstitutes: (medicine: Medicine) =>
+      (medicine.substitutes || []).map((name, index) => {
+        const id = medicine.substituteIds?.[index];
+        if (id === null) return undefined;
+        return id !== undefined ? catalog?.byId.get(id) : catalog?.byName.get(nameKey(name));
+      }),
+    loadMedicine: resolveMedicine,
+    loadSideEffectIndex: getSideEffectIndex,
+  }), [catalog, error]);
+
+  return <CatalogContext.Provider value={value}>{children}</CatalogContext.Provider>;
+}
+
+export const useCatalog = () => {
+  const context = useContext(CatalogContext);
+  if (!context) {
+    throw new Error('useCatalog must be used within a CatalogProvider');
+  }
+  return context;
+};
+
+// Loads the full record for one medicine, fetching its detail shard on demand.
+// While a new id loads, the previous medicine isn't returned in its place.
+export const useMedicine = (id: number | null) => {
+  const { loadMedicine } = useCatalog();
+  const [loaded, setLoaded] = useState<{ id: number; medicine: Medicine | null } | null>(null);
+  const [failedId, setFailedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (id === null) return;
+    let cancelled = false;
+    loadMedicine(id)
+      .then(result => {
+        if (!cancelled) setLoaded({ id, medicine: result });
+      })
+      .catch(e => {
+        console.error("Failed to load medicine details:", e);
+        if (!cancelled) setFailedId(id);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [id, loadMedicine]);
+
+  const isCurrent = id !== null && loaded !== null && loaded.id === id;
+  const hasFailed = id !== null && failedId === id && !isCurrent;
+  const error: MessageKey | null = hasFailed ? 'catalog.detailsFailed' : null;
+  return {
+    medicine: isCurrent ? loaded!.medicine : null,
+    isLoading: id !== null && !isCurrent && !hasFailed,
+    error,
+  };
+};
+
+// Loads several full records at once, e.g. for side-by-side comparison.
+// Ids that aren't in the catalog are left out of the result.
+export const useMedicines = (ids: number[]) => {
+  const { loadMedicine } = useCatalog();
+  const [medicines, setMedicines] = useState<Medicine[]>([]);
+  const [isLoading, setIsLoading] = useState(ids.length > 0);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const idsKey = ids.join(',');
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    Promise.all(ids.map(id => loadMedicine(id)))
+      .then(results => {
+        if (cancelled) return;
+        setMedicines(results.filter((medicine): medicine is Medicine => medicine !== null));
+        setIsLoading(false);
+      })
+      .catch(e => {
+        console.error("Failed to load medicine details:", e);
+        if (cancelled) return;
+        setError('catalog.detailsFailed');
+        setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+    // idsKey stands in for ids so a new array with the same ids doesn't refetch
+  }, [idsKey, loadMedicine]);
+
+  return { medicines, isLoading, error };
+};
+
+export const useSideEffectIndex = () => {
+  const { loadSideEffectIndex } = useCatalog();
+  const [index, setIndex] = useState<SideEffectIndex | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSideEffectIndex()
+      .then(loaded => {
+        if (!cancelled) setIndex(loaded);
+      })
+      .catch(e => {
+        console.error("Failed to load side effects:", e);
+        if (!cancelled) setError('catalog.sideEffectsFailed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSideEffectIndex]);
+
+  return { index, isLoading: !index && !error, error };
+};
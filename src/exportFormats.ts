@@ -0,0 +1,217 @@
+import { effectiveStatus } from './adherence';
+import { inLocale } from './i18n';
+import { activeReminders, describeSchedule, doseOn, formatDose, occurrencesBetween, parseDateKey, toDateKey } from './schedule';
+import { DoseLogEntry, Profile, Reminder, ReminderSchedule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Length of the calendar event for each dose
+const DOSE_EVENT_MINUTES = 15;
+
+// Upper bound on taper steps turned into separate calendar series
+const MAX_TAPER_SEGMENTS = 100;
+
+// How far to look for the first dose of an open-ended series
+const FIRST_DOSE_LOOKAHEAD_DAYS = 400;
+
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadFile = (filename: string, content: string, type: string) =>
+  downloadBlob(filename, new Blob([content], { type }));
+
+// Lowercase, dash-separated version of a name for use in download filenames
+export const fileSlug = (name: string, fallback: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback;
+
+const profileName = (profiles: Profile[], profileId: number) =>
+  (profiles.find(profile => profile.id === profileId) || { name: '' }).name;
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Files are shared with doctors and calendar apps, so they stay in English
+// whatever language the app is shown in
+const describeInEnglish = (schedule: ReminderSchedule) => inLocale('en', () => describeSchedule(schedule));
+
+const toCsv = (header: string[], rows: (string | number | undefined)[][]) =>
+  [header, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+
+export const remindersToCsv = (reminders: Reminder[], profiles: Profile[]) =>
+  toCsv(
+    ['Profile', 'Medicine', 'Medicine ID', 'Schedule', 'Times', 'Dose', 'Start date', 'End date', 'Paused since'],
+    reminders.map(({ profileId, medicineName, medicineId, schedule, pausedAt }) => [
+      profileName(profiles, profileId),
+      medicineName,
+      medicineId,
+      describeInEnglish(schedule),
+      [...schedule.times].sort().join(' '),
+      schedule.dose ? formatDose(schedule.dose) : '',
+      schedule.startDate,
+      schedule.endDate,
+      pausedAt ? toDateKey(new Date(pausedAt)) : '',
+    ])
+  );
+
+export const doseLogToCsv = (log: DoseLogEntry[], profiles: Profile[], now: Date) =>
+  toCsv(
+    ['Profile', 'Medicine', 'Scheduled for', 'Status', 'Dose', 'Answered at', 'Skip reason'],
+    [...log]
+      .sort((a, b) => a.scheduledFor.localeCompare(b.scheduledFor))
+      .map(entry => [
+        profileName(profiles, entry.profileId),
+        entry.medicineName,
+        new Date(entry.scheduledFor).toLocaleString(),
+        effectiveStatus(entry, now),
+        entry.dose ? formatDose(entry.dose) : '',
+        entry.actedAt ? new Date(entry.actedAt).toLocaleString() : '',
+        entry.skipReason,
+      ])
+  );
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+// Floating local time, so events stay at the same clock time in any zone
+const icsLocal = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const icsUtc = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines, which
+// start with a space
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > 75) {
+      parts.push(current);
+      current = '';
+      size = 1;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const recurrenceRule = (schedule: ReminderSchedule, until?: string) => {
+  const { recurrence } = schedule;
+  let rule: string;
+  switch (recurrence.type) {
+    case 'weekly':
+      rule = `FREQ=WEEKLY;BYDAY=${recurrence.days.slice().sort().map(day => ICS_WEEKDAYS[day]).join(',')}`;
+      break;
+    case 'everyNDays':
+      rule = `FREQ=DAILY;INTERVAL=${Math.max(1, recurrence.days)}`;
+      break;
+    case 'interval':
+      rule = `FREQ=HOURLY;INTERVAL=${Math.max(1, recurrence.hours)}`;
+      break;
+    default:
+      rule = 'FREQ=DAILY';
+  }
+  return until ? `${rule};UNTIL=${until.replace(/-/g, '')}T235959` : rule;
+};
+
+interface ScheduleSegment {
+  startDate: string;
+  endDate?: string;
+}
+
+// A tapered schedule is exported as one series per dose step, since a
+// calendar series can't change its text as the dose goes down
+const scheduleSegments = (schedule: ReminderSchedule): ScheduleSegment[] => {
+  const { taper, dose } = schedule;
+  if (!taper || !dose || taper.everyDays <= 0 || taper.decreaseBy <= 0) {
+    return [{ startDate: schedule.startDate, endDate: schedule.endDate }];
+  }
+  const segments: ScheduleSegment[] = [];
+  const start = parseDateKey(schedule.startDate);
+  for (let step = 0; step < MAX_TAPER_SEGMENTS; step++) {
+    const first = new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * taper.everyDays);
+    const stepDose = doseOn(schedule, first);
+    if (!stepDose || stepDose.amount <= 0) break;
+    if (schedule.endDate && toDateKey(first) > schedule.endDate) break;
+    const last = toDateKey(new Date(first.getFullYear(), first.getMonth(), first.getDate() + taper.everyDays - 1));
+    segments.push({
+      startDate: toDateKey(first),
+      endDate: schedule.endDate && schedule.endDate < last ? schedule.endDate : last,
+    });
+  }
+  return segments;
+};
+
+const reminderEvents = (reminder: Reminder, profiles: Profile[], stamp: string) => {
+  const { schedule } = reminder;
+  const owner = profiles.length > 1 ? ` (${profileName(profiles, reminder.profileId)})` : '';
+  // Interval schedules are one series from the first time; others get one per time of day
+  const timeVariants = schedule.recurrence.type === 'interval' ? [schedule.times.slice().sort()[0]] : schedule.times;
+  const lines: string[] = [];
+
+  scheduleSegments(schedule).forEach(segment => {
+    timeVariants.forEach(time => {
+      const variant: ReminderSchedule = { ...schedule, times: [time] };
+      const segmentStart = parseDateKey(segment.startDate);
+      const horizon = segment.endDate
+        ? new Date(parseDateKey(segment.endDate).getTime() + DAY_MS - 1)
+        : new Date(segmentStart.getTime() + FIRST_DOSE_LOOKAHEAD_DAYS * DAY_MS);
+      const first = occurrencesBetween(variant, new Date(segmentStart.getTime() - 1), horizon, 1)[0];
+      if (!first) return;
+
+      const dose = doseOn(schedule, first);
+      const summary = `Take ${dose ? `${formatDose(dose)} of ` : ''}${reminder.medicineName}${owner}`;
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:reminder-${reminder.id}-${time.replace(':', '')}-${segment.startDate}@medicine-app`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsLocal(first)}`,
+        `DURATION:PT${DOSE_EVENT_MINUTES}M`,
+        `RRULE:${recurrenceRule(schedule, segment.endDate)}`,
+        `SUMMARY:${icsText(summary)}`,
+        `DESCRIPTION:${icsText(describeInEnglish(schedule))}`,
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${icsText(summary)}`,
+        'TRIGGER:PT0M',
+        'END:VALARM',
+        'END:VEVENT'
+      );
+    });
+  });
+  return lines;
+};
+
+// iCalendar file with a recurring event and alarm for every dose time.
+// Paused reminders are left out, as they don't alert in the app either.
+export const remindersToIcs = (reminders: Reminder[], profiles: Profile[], now: Date) => {
+  const stamp = icsUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Medicine App//Medication Reminders//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:Medication reminders',
+    ...activeReminders(reminders).flatMap(reminder => reminderEvents(reminder, profiles, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
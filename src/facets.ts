@@ -0,0 +1,92 @@
+import { MessageKey } from './i18n';
+import { MedicineSummary } from './types';
+
+export const FACET_FIELDS = ["Therapeutic Class", "Action Class", "Chemical Class", "Habit Forming"] as const;
+
+export type FacetField = typeof FACET_FIELDS[number];
+
+// Facet fields are medicine fields, so they share the detail page's headings
+export const FACET_LABELS: Record<FacetField, MessageKey> = {
+  "Therapeutic Class": 'medicine.therapeuticClass',
+  "Action Class": 'medicine.actionClass',
+  "Chemical Class": 'medicine.chemicalClass',
+  "Habit Forming": 'medicine.habitForming',
+};
+
+// Values selected within one facet are OR-ed; different facets are AND-ed
+export type FacetFilters = Partial<Record<FacetField, string[]>>;
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+}
+
+export type FacetCounts = Record<FacetField, FacetValueCount[]>;
+
+// Short, readable query parameter names for shareable URLs
+const FACET_PARAMS: Record<FacetField, string> = {
+  "Therapeutic Class": 'therapeutic',
+  "Action Class": 'action',
+  "Chemical Class": 'chemical',
+  "Habit Forming": 'habitForming',
+};
+
+export const hasActiveFilters = (filters: FacetFilters) =>
+  FACET_FIELDS.some(field => (filters[field] || []).length > 0);
+
+const matchesField = (medicine: MedicineSummary, field: FacetField, filters: FacetFilters) => {
+  const selected = filters[field];
+  return !selected || selected.length === 0 || selected.includes(medicine[field]);
+};
+
+export const matchesFacets = (medicine: MedicineSummary, filters: FacetFilters) =>
+  FACET_FIELDS.every(field => matchesField(medicine, field, filters));
+
+// Disjunctive counts: each facet's values are counted against the medicines
+// matching every *other* active facet, so picking one value doesn't hide
+// the alternatives within the same facet
+export const computeFacetCounts = (medicines: MedicineSummary[], filters: FacetFilters): FacetCounts => {
+  const tallies = FACET_FIELDS.map(() => new Map<string, number>());
+
+  medicines.forEach(medicine => {
+    const failing = FACET_FIELDS.filter(field => !matchesField(medicine, field, filters));
+    if (failing.length > 1) return;
+    FACET_FIELDS.forEach((field, i) => {
+      if (failing.length === 1 && failing[0] !== field) return;
+      const value = medicine[field];
+      if (!value) return;
+      tallies[i].set(value, (tallies[i].get(value) || 0) + 1);
+    });
+  });
+
+  const counts = {} as FacetCounts;
+  FACET_FIELDS.forEach((field, i) => {
+    counts[field] = Array.from(tallies[i].entries())
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  });
+  return counts;
+};
+
+export const toggleFacetValue = (filters: FacetFilters, field: FacetField, value: string): FacetFilters => {
+  const selected = filters[field] || [];
+  const next = selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value];
+  return { ...filters, [field]: next };
+};
+
+export const filtersToParams = (filters: FacetFilters, params = new URLSearchParams()) => {
+  FACET_FIELDS.forEach(field => {
+    params.delete(FACET_PARAMS[field]);
+    (filters[field] || []).forEach(value => params.append(FACET_PARAMS[field], value));
+  });
+  return params;
+};
+
+export const filtersFromParams = (params: URLSearchParams): FacetFilters => {
+  const filters: FacetFilters = {};
+  FACET_FIELDS.forEach(field => {
+    const values = params.getAll(FACET_PARAMS[field]);
+    if (values.length) filters[field] = values;
+  });
+  return filters;
+};
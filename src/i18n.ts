@@ -0,0 +1,124 @@
+import en, { Messages } from './locales/en';
+import hi from './locales/hi';
+import terms from './locales/terms';
+import ur from './locales/ur';
+import { Dose } from './types';
+
+const LOCALE_KEY = 'medicineLocale';
+
+export type LocaleCode = 'en' | 'hi' | 'ur';
+export type MessageKey = keyof Messages;
+export type MessageParams = Record<string, string | number>;
+
+export interface Locale {
+  code: LocaleCode;
+  label: string; // the language's own name
+  dir: 'ltr' | 'rtl';
+  messages: Partial<Messages>;
+}
+
+export const LOCALES: Locale[] = [
+  { code: 'en', label: 'English', dir: 'ltr', messages: en },
+  { code: 'hi', label: 'हिन्दी', dir: 'ltr', messages: hi },
+  { code: 'ur', label: 'اردو', dir: 'rtl', messages: ur },
+];
+
+// Set by LocaleProvider. Kept at module level so plain helpers like
+// describeSchedule and doseMessage can translate without a React context.
+let activeLocale = LOCALES[0];
+
+const findLocale = (code: string | null) => LOCALES.find(locale => locale.code === code);
+
+const browserLanguages = () =>
+  typeof navigator === 'undefined' ? [] : navigator.languages || [navigator.language];
+
+// The saved choice, else the first supported browser language, else English
+export const readLocale = (): LocaleCode => {
+  const stored = findLocale(localStorage.getItem(LOCALE_KEY));
+  if (stored) return stored.code;
+  const preferred = browserLanguages().map(language => findLocale(language.split('-')[0])).find(Boolean);
+  return preferred ? preferred.code : 'en';
+};
+
+export const writeLocale = (code: LocaleCode) => {
+  try {
+    localStorage.setItem(LOCALE_KEY, code);
+  } catch (e) {
+    console.error("Failed to save locale to localStorage:", e);
+  }
+};
+
+export const setActiveLocale = (code: LocaleCode) => {
+  activeLocale = findLocale(code) || LOCALES[0];
+};
+
+export const getActiveLocale = () => activeLocale;
+
+// Runs `fn` with `code` as the active locale, for text that must not follow
+// the user's language (exported files)
+export const inLocale = <T>(code: LocaleCode, fn: () => T): T => {
+  const previous = activeLocale;
+  setActiveLocale(code);
+  try {
+    return fn();
+  } finally {
+    activeLocale = previous;
+  }
+};
+
+// BCP 47 tag for Intl formatting. A regional browser setting for the same
+// language (e.g. en-IN) wins so its 12/24-hour clock and date order are kept.
+const intlLocale = () =>
+  browserLanguages().find(language => language.split('-')[0] === activeLocale.code) || activeLocale.code;
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const pluralCategory = (count: number) => {
+  const tag = intlLocale();
+  if (!pluralRules.has(tag)) pluralRules.set(tag, new Intl.PluralRules(tag));
+  return pluralRules.get(tag)!.select(count);
+};
+
+// Message for `key` in the active locale (English when it isn't translated)
+// with `{name}` placeholders filled from `params`. Plural messages pick their
+// form from `params.count`.
+export const t = (key: MessageKey, params: MessageParams = {}) => {
+  const message = activeLocale.messages[key] || en[key];
+  const text = typeof message === 'string'
+    ? message
+    : pluralCategory(Number(params.count)) === 'one' ? message.one : message.other;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+};
+
+export const formatTime = (date: Date) =>
+  date.toLocaleTimeString(intlLocale(), { hour: 'numeric', minute: '2-digit' });
+
+export const formatDate = (date: Date, options?: Intl.DateTimeFormatOptions) =>
+  date.toLocaleDateString(intlLocale(), options);
+
+// 0 = Sunday ... 6 = Saturday
+export const weekdayName = (day: number, width: 'short' | 'narrow' | 'long' = 'short') =>
+  // 7 January 2024 was a Sunday
+  formatDate(new Date(2024, 0, 7 + day), { weekday: width });
+
+export const unitLabel = (unit: string) => {
+  const key = `unit.${unit}`;
+  return key in en ? t(key as MessageKey) : unit;
+};
+
+// Translated counterpart of schedule's formatDose, for the UI and
+// notifications; exports and printed sheets keep the English form, and use
+// inLocale('en') for anything else that goes through t
+export const doseLabel = (dose: Dose) => `${dose.amount} ${unitLabel(dose.unit)}`;
+
+// Translates a `uses` or `sideEffects` phrase when the active locale's
+// dictionary knows it, otherwise returns it unchanged
+export const translateTerm = (term: string) => {
+  const dictionary = terms[activeLocale.code];
+  if (!dictionary) return term;
+  const text = term.trim().toLowerCase();
+  if (dictionary.phrases[text]) return dictionary.phrases[text];
+  const prefix = Object.keys(dictionary.prefixes).find(p => text.startsWith(`${p} `));
+  const rest = prefix && text.slice(prefix.length + 1);
+  return rest && dictionary.phrases[rest] ? dictionary.prefixes[prefix!].replace('{term}', dictionary.phrases[rest]) : term;
+};
@@ -0,0 +1,42 @@
+import { MessageKey } from './i18n';
+
+// Local interaction pairs checked on top of the built-in duplicate-therapy
+// and habit-forming checks. Extend this list with your own pairs: each side
+// matches a medicine when every given field contains the given text
+// (case-insensitive), so rules can target a single brand or a whole class.
+// A rule's message is a key in the locale catalogs, where `{first}` and
+// `{second}` stand for the two medicine names.
+
+export type InteractionSeverity = 'major' | 'moderate' | 'minor';
+
+export interface MedicineMatcher {
+  name?: string;
+  chemicalClass?: string;
+  therapeuticClass?: string;
+  actionClass?: string;
+}
+
+export interface InteractionRule {
+  id: string;
+  a: MedicineMatcher;
+  b: MedicineMatcher;
+  severity: InteractionSeverity;
+  message: MessageKey;
+}
+
+export const INTERACTION_RULES: InteractionRule[] = [
+  {
+    id: 'opioid-benzodiazepine',
+    a: { actionClass: 'opioid' },
+    b: { chemicalClass: 'benzodiazepine' },
+    severity: 'major',
+    message: 'interactionRule.opioidBenzodiazepine',
+  },
+  {
+    id: 'nsaid-anticoagulant',
+    a: { actionClass: 'nsaid' },
+    b: { actionClass: 'anticoagulant' },
+    severity: 'major',
+    message: 'interactionRule.nsaidAnticoagulant',
+  },
+];
@@ -0,0 +1,127 @@
+import { useMedicines } from './catalog';
+import { MessageKey, MessageParams } from './i18n';
+import { INTERACTION_RULES, InteractionRule, InteractionSeverity, MedicineMatcher } from './interactionRules';
+import { Medicine, Reminder } from './types';
+
+export type InteractionKind = 'duplicateTherapy' | 'substitute' | 'habitForming' | 'rule';
+
+export interface InteractionWarning {
+  kind: InteractionKind;
+  severity: InteractionSeverity;
+  medicineIds: [number, number];
+  // Translated when shown, so the warning follows the current language
+  message: MessageKey;
+  params: MessageParams;
+}
+
+const SEVERITY_ORDER: Record<InteractionSeverity, number> = { major: 0, moderate: 1, minor: 2 };
+
+const normalize = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+// Class values that carry no information and must not count as duplicates
+const isMeaningful = (value: string) => value !== '' && value !== 'na' && value !== 'n/a' && value !== 'unknown';
+
+const MATCHER_FIELDS: Record<keyof MedicineMatcher, keyof Medicine> = {
+  name: 'name',
+  chemicalClass: "Chemical Class",
+  therapeuticClass: "Therapeutic Class",
+  actionClass: "Action Class",
+};
+
+const matches = (medicine: Medicine, matcher: MedicineMatcher) =>
+  (Object.keys(matcher) as (keyof MedicineMatcher)[]).every(key => {
+    const expected = normalize(matcher[key]);
+    return !expected || normalize(String(medicine[MATCHER_FIELDS[key]])).includes(expected);
+  });
+
+const isSubstituteOf = (medicine: Medicine, other: Medicine) =>
+  (medicine.substitutes || []).some(name => normalize(name) === normalize(other.name));
+
+// All warnings for one pair of medicines
+export const checkPair = (a: Medicine, b: Medicine, rules: InteractionRule[] = INTERACTION_RULES): InteractionWarning[] => {
+  const medicineIds: [number, number] = [a.id, b.id];
+  if (a.id === b.id) {
+    return [{
+      kind: 'duplicateTherapy',
+      severity: 'major',
+      medicineIds,
+      message: 'interaction.sameMedicine',
+      params: { first: a.name },
+    }];
+  }
+  const warnings: InteractionWarning[] = [];
+
+  if (isSubstituteOf(a, b) || isSubstituteOf(b, a)) {
+    warnings.push({
+      kind: 'substitute',
+      severity: 'major',
+      medicineIds,
+      message: 'interaction.substitute',
+      params: { first: a.name, second: b.name },
+    });
+  }
+
+  ([["Therapeutic Class", 'interaction.sameTherapeuticClass'], ["Action Class", 'interaction.sameActionClass']] as const).forEach(([field, message]) => {
+    const value = normalize(a[field]);
+    if (isMeaningful(value) && value === normalize(b[field])) {
+      warnings.push({
+        kind: 'duplicateTherapy',
+        severity: 'moderate',
+        medicineIds,
+        message,
+        params: { first: a.name, second: b.name, value: a[field] },
+      });
+    }
+  });
+
+  if (normalize(a["Habit Forming"]) === 'yes' && normalize(b["Habit Forming"]) === 'yes') {
+    warnings.push({
+      kind: 'habitForming',
+      severity: 'moderate',
+      medicineIds,
+      message: 'interaction.habitForming',
+      params: { first: a.name, second: b.name },
+    });
+  }
+
+  rules.forEach(rule => {
+    if ((matches(a, rule.a) && matches(b, rule.b)) || (matches(a, rule.b) && matches(b, rule.a))) {
+      warnings.push({ kind: 'rule', severity: rule.severity, medicineIds, message: rule.message, params: { first: a.name, second: b.name } });
+    }
+  });
+
+  return warnings;
+};
+
+const bySeverity = (a: InteractionWarning, b: InteractionWarning) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity];
+
+// Warnings for adding `candidate` to a list that already holds `current`
+export const checkCandidate = (candidate: Medicine, current: Medicine[], rules?: InteractionRule[]) =>
+  current.flatMap(medicine => checkPair(candidate, medicine, rules)).sort(bySeverity);
+
+// Pairwise warnings across a whole medication list
+export const checkMedicationList = (medicines: Medicine[], rules?: InteractionRule[]) => {
+  const warnings: InteractionWarning[] = [];
+  medicines.forEach((medicine, i) => {
+    medicines.slice(i + 1).forEach(other => warnings.push(...checkPair(medicine, other, rules)));
+  });
+  return warnings.sort(bySeverity);
+};
+
+export const highestSeverity = (warnings: InteractionWarning[]): InteractionSeverity | null =>
+  warnings.length ? [...warnings].sort(bySeverity)[0].severity : null;
+
+const uniqueMedicineIds = (reminders: Reminder[]) =>
+  Array.from(new Set(reminders.map(reminder => reminder.medicineId).filter((id): id is number => id !== undefined)));
+
+// Loads the full records behind a reminder list and checks them against
+// each other; `forReminder` gives the warnings that involve one reminder
+export const useInteractionReport = (reminders: Reminder[]) => {
+  const { medicines, isLoading } = useMedicines(uniqueMedicineIds(reminders));
+  const warnings = checkMedicationList(medicines);
+
+  const forReminder = (reminder: Reminder) =>
+    reminder.medicineId === undefined ? [] : warnings.filter(warning => warning.medicineIds.includes(reminder.medicineId!));
+
+  return { medicines, warnings, forReminder, isLoading };
+};
@@ -0,0 +1,117 @@
+import { t } from './i18n';
+import { occurrencesBetween } from './schedule';
+import { Inventory, Reminder, ReminderSchedule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_REFILL_ALERT_DAYS = 7;
+export const DEFAULT_PACK_SIZE = 30;
+
+// "Remind me later" on a refill alert waits this long
+export const REFILL_SNOOZE_DAYS = 1;
+
+// Forecasts stop looking once the stock outlasts this
+const FORECAST_DAYS = 365;
+
+// Refill log entries kept per reminder
+const MAX_REFILLS = 20;
+
+// Starts from the reminder's dose, so a "2 tablet(s)" dose uses two units
+export const createInventory = (schedule: ReminderSchedule): Inventory => ({
+  packSize: DEFAULT_PACK_SIZE,
+  stock: DEFAULT_PACK_SIZE,
+  perIntake: schedule.dose && schedule.dose.amount > 0 ? schedule.dose.amount : 1,
+  alertDaysBefore: DEFAULT_REFILL_ALERT_DAYS,
+  refills: [],
+});
+
+// Returns a user-facing problem with the inventory, or null when it's usable
+export const validateInventory = (inventory: Inventory): string | null => {
+  if (!(inventory.packSize > 0)) return t('inventory.errorPackSize');
+  if (!(inventory.perIntake > 0)) return t('inventory.errorPerDose');
+  if (!(inventory.stock >= 0)) return t('inventory.errorStock');
+  if (!(inventory.alertDaysBefore >= 0)) return t('inventory.errorAlertDays');
+  return null;
+};
+
+// Avoids float noise from fractional doses such as 0.5 tablets
+const roundUnits = (units: number) => Math.round(units * 100) / 100;
+
+// Takes one dose out of the stock
+export const consumeDose = (reminder: Reminder): Reminder => {
+  const { inventory } = reminder;
+  if (!inventory) return reminder;
+  return { ...reminder, inventory: { ...inventory, stock: roundUnits(Math.max(0, inventory.stock - inventory.perIntake)) } };
+};
+
+export const recordRefill = (reminder: Reminder, amount: number, now: Date): Reminder => {
+  const { inventory } = reminder;
+  if (!inventory || !(amount > 0)) return reminder;
+  return {
+    ...reminder,
+    inventory: {
+      ...inventory,
+      stock: roundUnits(inventory.stock + amount),
+      alertSnoozedUntil: undefined,
+      refills: [{ date: now.toISOString(), amount }, ...inventory.refills].slice(0, MAX_REFILLS),
+    },
+  };
+};
+
+export const snoozeRefillAlert = (reminder: Reminder, now: Date): Reminder => {
+  const { inventory } = reminder;
+  if (!inventory) return reminder;
+  const until = new Date(now.getTime() + REFILL_SNOOZE_DAYS * DAY_MS);
+  return { ...reminder, inventory: { ...inventory, alertSnoozedUntil: until.toISOString() } };
+};
+
+export interface SupplyForecast {
+  dosesLeft: number;
+  // First scheduled dose the stock can't cover; null when the stock lasts
+  // until the schedule ends or beyond the forecast window
+  runOutAt: Date | null;
+  daysLeft: number | null;
+}
+
+export const forecastSupply = (reminder: Reminder, now: Date): SupplyForecast | null => {
+  const { inventory } = reminder;
+  if (!inventory || !(inventory.perIntake > 0)) return null;
+  const dosesLeft = Math.floor(roundUnits(inventory.stock / inventory.perIntake));
+  const horizon = new Date(now.getTime() + FORECAST_DAYS * DAY_MS);
+  const upcoming = occurrencesBetween(reminder.schedule, now, horizon, dosesLeft + 1);
+  const runOutAt = upcoming.length > dosesLeft ? upcoming[dosesLeft] : null;
+  return {
+    dosesLeft,
+    runOutAt,
+    daysLeft: runOutAt ? Math.max(0, Math.floor((runOutAt.getTime() - now.getTime()) / DAY_MS)) : null,
+  };
+};
+
+export interface RefillAlert {
+  reminder: Reminder;
+  forecast: SupplyForecast;
+}
+
+// Reminders whose stock runs out within their alert window, soonest first
+export const findRefillAlerts = (reminders: Reminder[], now: Date): RefillAlert[] => {
+  const alerts: RefillAlert[] = [];
+  reminders.forEach(reminder => {
+    const { inventory } = reminder;
+    if (!inventory || (inventory.alertSnoozedUntil && new Date(inventory.alertSnoozedUntil) > now)) return;
+    const forecast = forecastSupply(reminder, now);
+    if (forecast && forecast.runOutAt && forecast.runOutAt.getTime() - now.getTime() <= inventory.alertDaysBefore * DAY_MS) {
+      alerts.push({ reminder, forecast });
+    }
+  });
+  return alerts.sort((a, b) => a.forecast.runOutAt!.getTime() - b.forecast.runOutAt!.getTime());
+};
+
+export const refillMessage = ({ reminder, forecast }: RefillAlert, ownerName?: string) => {
+  const medicine = ownerName ? t('refill.ownerMedicine', { owner: ownerName, medicine: reminder.medicineName }) : reminder.medicineName;
+  if (!forecast.dosesLeft) return t('refill.ranOut', { medicine });
+  return t('refill.runsOut', {
+    medicine,
+    days: t('common.days', { count: forecast.daysLeft! }),
+    doses: t('common.doses', { count: forecast.dosesLeft }),
+  });
+};
@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useEffect, useLayoutEffect, useState } from 'react';
+import { getActiveLocale, Locale, LocaleCode, LOCALES, MessageKey, readLocale, setActiveLocale, t, writeLocale } from './i18n';
+
+export interface LocaleContextValue {
+  locale: Locale;
+  setLocale: (code: LocaleCode) => void;
+  // Same as i18n's t; taking it from the context makes the caller re-render
+  // when the language changes
+  t: typeof t;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export function LocaleProvider({ children }: { children: React.ReactNode }) {
+  const [code, setCode] = useState<LocaleCode>(readLocale);
+  // The locale the module-level helpers have switched to. Only then is it
+  // handed down, so children re-render with it before the next paint.
+  const [locale, setAppliedLocale] = useState<Locale | null>(null);
+
+  useLayoutEffect(() => {
+    setActiveLocale(code);
+    setAppliedLocale(getActiveLocale());
+  }, [code]);
+
+  useEffect(() => {
+    if (!locale) return;
+    document.documentElement.lang = locale.code;
+    document.documentElement.dir = locale.dir;
+  }, [locale]);
+
+  const value = React.useMemo<LocaleContextValue | null>(() => locale && ({
+    locale,
+    setLocale: (next: LocaleCode) => {
+      writeLocale(next);
+      setCode(next);
+    },
+    t: (...args) => t(...args),
+  }), [locale]);
+
+  // Nothing to show until the saved locale is applied on mount
+  if (!value) return null;
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used within a LocaleProvider');
+  }
+  return context;
+};
+
+// A message with elements such as form fields in its placeholders, so each
+// language can put them where its word order needs them
+export function Message({ id, values }: { id: MessageKey; values: Record<string, React.ReactNode> }) {
+  const { t } = useLocale();
+  // Odd positions are placeholder names
+  const parts = t(id).split(/\{(\w+)\}/);
+  return (
+    <>
+      {parts.map((part, index) => (
+        <React.Fragment key={index}>{index % 2 && part in values ? values[part] : part}</React.Fragment>
+      ))}
+    </>
+  );
+}
+
+export function LanguageSelect({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useLocale();
+  return (
+    <label className={`flex items-center gap-2 text-sm ${className}`}>
+      <span className="sr-only">{t('language.label')}</span>
+      <select
+        value={locale.code}
+        onChange={e => setLocale(e.target.value as LocaleCode)}
+        className="bg-blue-700 text-white rounded-md px-2 py-1 focus:outline-none focus:ring-2 focus:ring-white"
+      >
+        {LOCALES.map(option => (
+          <option key={option.code} value={option.code} lang={option.code}>{option.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,422 @@
+// English messages, the reference catalog. Every other locale translates a
+// subset of these keys and falls back to English for the rest.
+//
+// `{name}` placeholders are filled in by `t`. Messages that depend on a
+// count have `one`/`other` forms, picked with the locale's plural rules.
+
+const en = {
+  'common.loadingMedicines': 'Loading medicine data...',
+  'common.loadingMedications': 'Loading your medications...',
+  'common.loadingData': 'Loading your data...',
+  'common.errorLoading': 'Error Loading Data:',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.close': 'Close',
+  'common.back': 'Back',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.days': { one: '{count} day', other: '{count} days' },
+  'common.doses': { one: '{count} dose', other: '{count} doses' },
+  'common.medicinesFound': {
+    one: '{count} medicine found. Use the up and down arrows to choose it.',
+    other: '{count} medicines found. Use the up and down arrows to choose one.',
+  },
+
+  'language.label': 'Language',
+
+  'nav.home': 'Home',
+  'nav.findMedicine': 'Find Medicine',
+  'nav.browse': 'Browse',
+  'nav.symptoms': 'Symptom Checker',
+  'nav.myMedications': 'My Medications',
+  'nav.profile': 'Profile',
+  'nav.manage': 'Manage',
+
+  'home.welcome': 'Welcome to Medicine App',
+  'home.today': 'Today for {name}',
+  'home.favourites': "{name}'s Favourites",
+  'home.findTitle': 'Find Medicine',
+  'home.findText': 'Search for medicines, learn about their uses, side effects, and find substitutes.',
+  'home.findAction': 'Search Medicines',
+  'home.browseTitle': 'Browse',
+  'home.browseText': 'Explore the whole catalog from A to Z or by therapeutic and action class.',
+  'home.browseAction': 'Browse Medicines',
+  'home.symptomsTitle': 'Symptom Checker',
+  'home.symptomsText': 'Enter several symptoms and see which medicines cover the most of them.',
+  'home.symptomsAction': 'Check Symptoms',
+  'home.sideEffectsTitle': 'Side Effect Explorer',
+  'home.sideEffectsText': 'Look up a side effect and see which medicines list it.',
+  'home.sideEffectsAction': 'Explore Side Effects',
+  'home.medicationsTitle': 'My Medications',
+  'home.medicationsText': 'Set reminders for your medications and track your medicine schedule.',
+  'home.medicationsAction': 'View My Medications',
+
+  'today.overdue': 'Overdue',
+  'today.dueNow': 'Due now',
+  'today.upcoming': 'Upcoming',
+  'today.done': 'Done',
+  'today.nothing': 'Nothing scheduled for today.',
+  'today.addReminder': 'Add a reminder',
+  'today.taken': 'Taken',
+  'today.skipped': 'Skipped',
+  'today.skippedBecause': 'Skipped ({reason})',
+
+  'search.title': 'Find Medicines by Symptom or Name',
+  'search.label': 'Search medicines',
+  'search.placeholder': 'Enter symptom or medicine name (e.g., Headache, Fever)',
+  'search.noResultsFor': 'No medicines found for "{query}". Please try a different symptom or name.',
+  'search.noResultsFilters': 'No medicines match the selected filters.',
+  'search.showing': 'Showing {shown} of {total} results',
+  'search.showingFor': 'Showing {shown} of {total} results for "{query}"',
+  'search.chooseHint': '{results}. Use the up and down arrows to choose one.',
+  'search.severalSymptoms': 'Have several symptoms?',
+  'search.trySymptomChecker': 'Try the symptom checker',
+  'search.results': 'Search results',
+  'search.uses': 'Uses: {uses}',
+  'search.moreConflicts': '(+{count} more)',
+  'search.viewDetails': 'View Details',
+  'search.loading': 'Loading...',
+  'search.loadMore': 'Load more',
+
+  'medicine.loading': 'Loading medicine details...',
+  'medicine.notInCatalog': 'No medicine with id {id} exists in the catalog.',
+  'medicine.printFactSheet': 'Print fact sheet',
+  'medicine.favourite': '★ Favourite',
+  'medicine.addFavourite': '☆ Add to favourites',
+  'medicine.checkFor': 'Check before using this medicine for {name}',
+  'medicine.editProfile': 'Edit health profile',
+  'medicine.uses': 'Uses',
+  'medicine.sideEffects': 'Side Effects',
+  'medicine.substitutes': 'Substitutes',
+  'medicine.noInformation': 'No information available.',
+  'medicine.compareSideBySide': 'Compare side by side →',
+  'medicine.compare': 'Compare',
+  'medicine.chemicalClass': 'Chemical Class',
+  'medicine.habitForming': 'Habit Forming',
+  'medicine.therapeuticClass': 'Therapeutic Class',
+  'medicine.actionClass': 'Action Class',
+
+  'notFound.title': '404 - Not Found',
+  'notFound.message': "The page you're looking for doesn't exist.",
+  'notFound.backHome': 'Back to Home',
+
+  'medications.title': 'My Medications',
+  'medications.subtitle': 'Reminders and history for {name}',
+  'medications.reminders': 'Reminders',
+  'medications.history': 'History',
+  'medications.enableText': 'Get reminders as system notifications, even when this tab is in the background.',
+  'medications.enable': 'Enable',
+  'medications.add': 'Add Reminder',
+  'medications.checkInteractions': 'Check interactions',
+  'medications.hideInteractions': 'Hide interaction check',
+  'medications.sideEffects': 'Side effects',
+  'medications.hideSideEffects': 'Hide side effects',
+  'medications.exportImport': 'Export / Import',
+  'medications.printTimetable': 'Print timetable',
+  'medications.interactionTitle': 'Interaction check',
+  'medications.checking': 'Checking your medications...',
+  'medications.noInteractions': 'No known interactions or duplicate therapies among your medications.',
+  'medications.interactionNote': 'Based on the medicine classes in this catalog and a short list of known pairs. Always check with your doctor or pharmacist.',
+  'medications.sideEffectsTitle': 'Side effects you may experience',
+  'medications.paused': 'Paused',
+
+  'partOfDay.morning': 'Morning',
+  'partOfDay.afternoon': 'Afternoon',
+  'partOfDay.evening': 'Evening',
+  'partOfDay.night': 'Night',
+
+  'reminderForm.title': 'Add Medication Reminder',
+  'reminderForm.medicineLabel': 'Medicine name',
+  'reminderForm.medicinePlaceholder': 'Medicine Name',
+  'reminderForm.noMatches': 'No matching medicines',
+  'reminderForm.pickMedicine': 'Please select a medicine from the suggestions.',
+  'reminderForm.conflicts': "Conflicts with {name}'s health profile:",
+  'reminderForm.confirmConflicts': 'A doctor or pharmacist has confirmed this medicine is fine for {name}',
+  'reminderForm.checkBeforeAdding': 'Check before adding {medicine}:',
+  'reminderForm.checkBeforeSwitching': 'Check before switching to {medicine}:',
+  'reminderForm.add': 'Add',
+  'reminderForm.addAnyway': 'Add Anyway',
+
+  'reminder.nextDose': 'Next dose: {date} {time}',
+  'reminder.finished': 'Schedule finished',
+  'reminder.pausedSince': 'Paused since {date}',
+  'reminder.pause': 'Pause',
+  'reminder.resume': 'Resume',
+  'reminder.warnings': { one: '{count} {severity} warning', other: '{count} {severity} warnings' },
+
+  'severity.major': 'major',
+  'severity.moderate': 'moderate',
+  'severity.minor': 'minor',
+
+  'schedule.daily': 'Daily at {times}',
+  'schedule.weekly': '{days} at {times}',
+  'schedule.everyNDays': 'Every {count} days at {times}',
+  'schedule.interval': 'Every {count} hours from {times}',
+  'schedule.tapering': 'tapering by {amount} every {count} days',
+  'schedule.until': 'until {date}',
+  'schedule.errorTimes': 'Please enter at least one valid dose time.',
+  'schedule.errorWeekdays': 'Please pick at least one weekday.',
+  'schedule.errorEndDate': 'The end date must be on or after the start date.',
+
+  'unit.tablet(s)': 'tablet(s)',
+  'unit.capsule(s)': 'capsule(s)',
+  'unit.ml': 'ml',
+  'unit.mg': 'mg',
+  'unit.drop(s)': 'drop(s)',
+  'unit.puff(s)': 'puff(s)',
+  'unit.unit(s)': 'unit(s)',
+
+  'inventory.track': 'Track supply',
+  'inventory.packSize': 'Pack size ({unit})',
+  'inventory.inStock': 'In stock ({unit})',
+  'inventory.perDose': 'Used per dose ({unit})',
+  'inventory.alertDays': 'Alert days before running out',
+  'inventory.stopTracking': 'Stop tracking',
+  'inventory.summary': '{stock} {unit} in stock · {doses} · {runOut}',
+  'inventory.lastsUntilEnd': 'Lasts until the schedule ends',
+  'inventory.runsOut': 'Runs out {date} ({days})',
+  'inventory.outOfStock': 'Out of stock',
+  'inventory.logRefill': 'Log refill',
+  'inventory.editSupply': 'Edit supply',
+  'inventory.refillLog': 'Refill log ({count})',
+  'inventory.hideRefillLog': 'Hide refill log',
+  'inventory.added': 'Added',
+  'inventory.units': 'units',
+  'inventory.errorPackSize': 'The pack size must be more than zero.',
+  'inventory.errorPerDose': 'The amount per dose must be more than zero.',
+  'inventory.errorStock': "The stock can't be negative.",
+  'inventory.errorAlertDays': "The alert days can't be negative.",
+
+  'notification.title': 'Medication reminder',
+  'notification.scheduledFor': 'Scheduled for {time}',
+  'notification.taken': 'Taken',
+  'notification.skip': 'Skip',
+  'notification.skipDose': 'Skip Dose',
+  'notification.snooze': 'Snooze {minutes}m',
+  'notification.refilled': 'Refilled (+{amount})',
+  'notification.remindTomorrow': 'Remind me tomorrow',
+
+  'skipReason.feltBetter': 'Felt better',
+  'skipReason.sideEffects': 'Side effects',
+  'skipReason.ranOut': 'Ran out',
+  'skipReason.forgot': 'Forgot to carry it',
+  'skipReason.doctorAdvised': 'Doctor advised',
+  'skipReason.other': 'Other',
+
+  'dose.take': 'Time to take {what}!',
+  'dose.takeFor': 'Time for {owner} to take {what}!',
+  'dose.amountOf': '{dose} of {medicine}',
+
+  'refill.ranOut': '{medicine} has run out. Time to refill!',
+  'refill.runsOut': '{medicine} runs out in {days} ({doses} left). Time to refill!',
+  'refill.ownerMedicine': "{owner}'s {medicine}",
+
+  'scheduleEditor.repeat': 'Repeat',
+  'scheduleEditor.daily': 'Every day',
+  'scheduleEditor.weekly': 'On specific weekdays',
+  'scheduleEditor.everyNDays': 'Every few days',
+  'scheduleEditor.interval': 'Every few hours',
+  'scheduleEditor.everyNDaysField': 'Every {days} days',
+  'scheduleEditor.intervalField': 'Every {hours} hours, starting at {time}',
+  'scheduleEditor.doseTimes': 'Dose times',
+  'scheduleEditor.remove': 'Remove',
+  'scheduleEditor.addTime': '+ Add another time',
+  'scheduleEditor.startDate': 'Start date',
+  'scheduleEditor.endDate': 'End date (optional)',
+  'scheduleEditor.dose': 'Dose',
+  'scheduleEditor.amount': 'Amount',
+  'scheduleEditor.taper': 'Taper the dose',
+  'scheduleEditor.taperField': 'Reduce by {amount} every {days} days',
+
+  'facets.title': 'Filters',
+  'facets.clearAll': 'Clear all',
+  'facets.noValues': 'No values',
+  'facets.showLess': 'Show less',
+  'facets.showAll': 'Show all ({count})',
+
+  'reminderSideEffects.none': 'None of your medicines list any side effects.',
+  'reminderSideEffects.shared': 'Listed by more than one of your medicines',
+  'reminderSideEffects.medicineCount': { one: '{count} medicine', other: '{count} medicines' },
+  'reminderSideEffects.other': 'Other side effects',
+  'reminderSideEffects.disclaimer': 'Listed side effects are possible, not expected. Talk to your doctor or pharmacist if one bothers you.',
+
+  'exportImport.title': 'Export & Import',
+  'exportImport.exportFor': "Export {name}'s medications",
+  'exportImport.remindersCsv': 'Reminders (CSV)',
+  'exportImport.historyCsv': 'Dose history (CSV)',
+  'exportImport.calendar': 'Calendar (.ics)',
+  'exportImport.exportHint': 'CSV opens in any spreadsheet; the calendar file adds each dose time with an alert.',
+  'exportImport.fullBackup': 'Full backup',
+  'exportImport.downloadBackup': 'Download backup (JSON)',
+  'exportImport.backupHint': 'Includes every profile, reminder and dose history entry.',
+  'exportImport.restore': 'Restore from a backup',
+  'exportImport.readFailed': 'Failed to read the backup file.',
+  'exportImport.notJson': "This file isn't valid JSON.",
+  'exportImport.notBackup': "This file isn't a Medicine App backup.",
+  'exportImport.profileCount': { one: '{count} profile', other: '{count} profiles' },
+  'exportImport.reminderCount': { one: '{count} reminder', other: '{count} reminders' },
+  'exportImport.entryCount': { one: '{count} history entry', other: '{count} history entries' },
+  'exportImport.duplicatesSkipped': { one: '{count} duplicate reminder skipped', other: '{count} duplicate reminders skipped' },
+  'exportImport.contains': 'Backup contains {profiles}, {reminders} and {entries}.',
+  'exportImport.merge': "Merge: add what's new and skip reminders you already have",
+  'exportImport.replace': 'Replace: discard current data and use the backup',
+  'exportImport.confirmReplace': 'Replace all profiles, reminders and history with the backup?',
+  'exportImport.import': 'Import',
+  'exportImport.imported': 'Imported {reminders}, {profiles} and {entries}.',
+  'exportImport.importedWithDuplicates': 'Imported {reminders}, {profiles} and {entries} ({duplicates}).',
+
+  'ageGroup.infant': 'Infant (under 2)',
+  'ageGroup.child': 'Child (2-12)',
+  'ageGroup.teen': 'Teen (13-17)',
+  'ageGroup.adult': 'Adult',
+  'ageGroup.senior': 'Senior (65+)',
+
+  'profiles.title': 'Profiles',
+  'profiles.intro': "Keep each person's reminders, dose history and favourites separate. Reminders for every profile still alert.",
+  'profiles.add': 'Add Profile',
+  'profiles.edit': 'Edit Profile',
+  'profiles.active': 'Active',
+  'profiles.switch': 'Switch',
+  'profiles.confirmDelete': "Delete {name}'s profile along with their reminders and dose history?",
+  'profiles.allergies': 'Allergies: {list}',
+  'profiles.conditions': 'Conditions: {list}',
+  'profiles.pregnant': 'Pregnant',
+  'profiles.avoidsHabitForming': 'Avoids habit-forming medicines',
+  'profiles.name': 'Name',
+  'profiles.namePlaceholder': 'e.g., Mum',
+  'profiles.ageGroup': 'Age group',
+  'profiles.allergiesField': 'Allergies (chemical classes or ingredients, comma-separated)',
+  'profiles.allergiesPlaceholder': 'e.g., Penicillin, Sulfonamide, Ibuprofen',
+  'profiles.conditionsField': 'Conditions (comma-separated)',
+  'profiles.conditionsPlaceholder': 'e.g., Asthma, Diabetes, Kidney disease',
+  'profiles.pregnantField': 'Pregnant or planning a pregnancy',
+  'profiles.avoidHabitFormingField': 'Avoid habit-forming medicines',
+  'profiles.notes': 'Notes',
+
+  'browse.title': 'Browse Medicines',
+  'browse.az': 'A–Z',
+  'browse.byClass': 'By class',
+  'browse.jumpToLetter': 'Jump to letter',
+  'browse.medicineCount': { one: '{count} medicine', other: '{count} medicines' },
+  'browse.azLabel': 'Medicines A to Z',
+  'browse.breadcrumb': 'Breadcrumb',
+  'browse.allClasses': 'All classes',
+  'browse.noMedicinesInClass': 'No medicines are filed under this class.',
+  'browse.classLabel': '{name} medicines',
+  'browse.actionClasses': 'Action classes',
+  'browse.therapeuticClasses': 'Therapeutic classes',
+
+  'symptoms.title': 'Symptom Checker',
+  'symptoms.intro': 'Add one or more symptoms to see which medicines are listed for them.',
+  'symptoms.notFound': 'Not found in the catalog',
+  'symptoms.remove': 'Remove {symptom}',
+  'symptoms.addAnother': 'Add another symptom',
+  'symptoms.placeholder': 'Type a symptom and press Enter (e.g., Fever, Headache)',
+  'symptoms.medicineCount': { one: '{count} medicine', other: '{count} medicines' },
+  'symptoms.classCount': { one: '{count} therapeutic class', other: '{count} therapeutic classes' },
+  'symptoms.summary': '{medicines} in {classes}',
+  'symptoms.notAdvice': 'Not medical advice.',
+  'symptoms.disclaimer': 'These results only show which medicines list your symptoms among their uses. They are not a diagnosis or a prescription; talk to a doctor or pharmacist before taking any medicine.',
+  'symptoms.noResults': 'No medicines found for these symptoms. Try different or more general wording.',
+  'symptoms.covers': { one: 'Covers {matched} of {count} symptom', other: 'Covers {matched} of {count} symptoms' },
+  'symptoms.showFewer': 'Show fewer',
+  'symptoms.showAll': 'Show all {count}',
+
+  'sync.title': 'Sync across devices',
+  'sync.intro': "Sign in to keep every profile's reminders and dose history the same on all your devices. Everything stays saved on this device too, so the app keeps working offline.",
+  'sync.signedOut': 'Not signed in',
+  'sync.syncing': 'Syncing…',
+  'sync.synced': 'Up to date',
+  'sync.offline': 'Offline, will sync when the connection is back',
+  'sync.error': 'Sync failed',
+  'sync.sessionExpired': 'Your sync session has expired. Please sign in again.',
+  'sync.unreachable': "Couldn't reach the sync server. Your changes are saved on this device and will be sent later.",
+  'sync.server': 'Server',
+  'sync.username': 'Username',
+  'sync.password': 'Password',
+  'sync.signIn': 'Sign in',
+  'sync.signingIn': 'Signing in…',
+  'sync.signInFailed': 'Could not sign in',
+  'sync.signedInAs': 'Signed in as {username} on {server}',
+  'sync.lastSynced': 'Last synced {date} {time}',
+  'sync.syncNow': 'Sync now',
+  'sync.signOut': 'Sign out',
+
+  'connection.online': 'Online',
+  'connection.offline': 'Offline',
+  'connection.connected': 'Connected',
+  'connection.offlineHint': 'No connection: showing saved reminders and cached medicine data',
+  'connection.dataVersion': 'data {version}',
+
+  'history.empty': 'No doses recorded yet. Entries appear here once reminders fire.',
+  'history.last7Days': 'Last 7 days',
+  'history.last30Days': 'Last 30 days',
+  'history.currentStreak': 'Current streak (days)',
+  'history.longestStreak': 'Longest streak (days)',
+  'history.reminderDeleted': '(reminder deleted)',
+  'history.summary': '7 days: {week} · 30 days: {month} · Streak: {current} (best {longest})',
+  'history.previousMonth': 'Previous month',
+  'history.nextMonth': 'Next month',
+  'history.noDoses': 'No doses',
+  'history.allTaken': 'All doses taken',
+  'history.partial': 'Some doses taken',
+  'history.noneTaken': 'No doses taken',
+  'history.open': 'Doses still due',
+  'history.pending': 'Awaiting response',
+  'history.taken': 'Taken',
+  'history.skipped': 'Skipped',
+  'history.snoozed': 'Snoozed',
+  'history.missed': 'Missed',
+
+  'sideEffects.title': 'Side Effect Explorer',
+  'sideEffects.intro': 'Search a side effect to see which medicines list it.',
+  'sideEffects.loading': 'Loading side effects...',
+  'sideEffects.placeholder': 'Search side effects (e.g., Drowsiness, Nausea)',
+  'sideEffects.mostCommon': 'Most commonly listed',
+  'sideEffects.noMatches': 'No side effects match "{query}".',
+  'sideEffects.medicineCount': { one: '{count} medicine', other: '{count} medicines' },
+  'sideEffects.listedBy': { one: 'Listed by {count} medicine', other: 'Listed by {count} medicines' },
+  'sideEffects.related': 'Related:',
+  'sideEffects.showMore': 'Show more ({count} left)',
+
+  'compare.title': 'Compare Medicines',
+  'compare.loading': 'Loading medicines to compare...',
+  'compare.pickTwo': 'Pick at least two medicines to compare. Open a medicine and use "Compare" next to one of its substitutes.',
+  'compare.findMedicines': 'Find Medicines',
+  'compare.intro': 'Highlighted entries differ between the medicines; entries marked "only this one" appear for a single medicine.',
+  'compare.onlyThisOne': '(only this one)',
+  'compare.uniqueHint': 'Only this medicine lists this',
+  'compare.sharedHint': 'Listed by all compared medicines',
+  'compare.someHint': 'Listed by some of the compared medicines',
+  'compare.remove': 'Remove',
+  'compare.notSpecified': 'Not specified',
+  'compare.addSubstitute': 'Add a substitute to the comparison',
+
+  'storage.newerVersion': 'Your reminders were saved by a newer version of this app. Please reload the page to get the latest version; nothing has been changed.',
+  'storage.loadFailed': 'Failed to load your saved reminders. Please reload the page.',
+
+  'interaction.sameMedicine': '{first} is already on the list, so this would be the same medicine twice.',
+  'interaction.substitute': '{first} and {second} are substitutes for each other, so this may be the same medicine twice.',
+  'interaction.sameTherapeuticClass': '{first} and {second} share the therapeutic class "{value}" (possible duplicate therapy).',
+  'interaction.sameActionClass': '{first} and {second} share the action class "{value}" (possible duplicate therapy).',
+  'interaction.habitForming': '{first} and {second} are both habit forming; combining them raises the risk of dependence and sedation.',
+
+  'interactionRule.opioidBenzodiazepine': '{first} + {second}: Opioids combined with benzodiazepines can cause severe drowsiness and slowed breathing.',
+  'interactionRule.nsaidAnticoagulant': '{first} + {second}: NSAIDs taken with anticoagulants increase the risk of bleeding.',
+
+  'screening.allergy': '{name} is allergic to {allergy}, which matches this medicine ({match}).',
+  'screening.condition': "Listed side effects ({sideEffects}) may affect {name}'s {condition}.",
+  'screening.pregnancyClass': 'Medicines in the {class} class are generally avoided during pregnancy.',
+  'screening.pregnancyHabitForming': "Habit-forming medicines need a doctor's advice during pregnancy.",
+  'screening.habitForming': 'This medicine is habit forming, which {name} prefers to avoid.',
+
+  'catalog.loadFailed': 'Failed to load medicines. Please try again later.',
+  'catalog.offline': "You're offline and the medicine data hasn't been saved on this device yet. Connect once to use it offline.",
+  'catalog.detailsFailed': 'Failed to load medicine details. Please try again later.',
+  'catalog.sideEffectsFailed': 'Failed to load side effects. Please try again later.',
+};
+
+export type PluralMessage = { one: string; other: string };
+export type Messages = { [K in keyof typeof en]: string | PluralMessage };
+
+export default en as Messages;
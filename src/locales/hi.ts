@@ -0,0 +1,416 @@
+import { Messages } from './en';
+
+// Hindi
+const hi: Partial<Messages> = {
+  'common.loadingMedicines': 'दवाओं की जानकारी लोड हो रही है...',
+  'common.loadingMedications': 'आपकी दवाएँ लोड हो रही हैं...',
+  'common.loadingData': 'आपका डेटा लोड हो रहा है...',
+  'common.errorLoading': 'डेटा लोड करने में त्रुटि:',
+  'common.cancel': 'रद्द करें',
+  'common.save': 'सहेजें',
+  'common.close': 'बंद करें',
+  'common.back': 'वापस',
+  'common.edit': 'बदलें',
+  'common.delete': 'हटाएँ',
+  'common.days': { one: '{count} दिन', other: '{count} दिन' },
+  'common.doses': { one: '{count} खुराक', other: '{count} खुराकें' },
+  'common.medicinesFound': {
+    one: '{count} दवा मिली। चुनने के लिए ऊपर और नीचे तीर कुंजियों का उपयोग करें।',
+    other: '{count} दवाएँ मिलीं। चुनने के लिए ऊपर और नीचे तीर कुंजियों का उपयोग करें।',
+  },
+
+  'language.label': 'भाषा',
+
+  'nav.home': 'होम',
+  'nav.findMedicine': 'दवा खोजें',
+  'nav.browse': 'ब्राउज़ करें',
+  'nav.symptoms': 'लक्षण जाँच',
+  'nav.myMedications': 'मेरी दवाएँ',
+  'nav.profile': 'प्रोफ़ाइल',
+  'nav.manage': 'प्रबंधित करें',
+
+  'home.welcome': 'मेडिसिन ऐप में आपका स्वागत है',
+  'home.today': '{name} के लिए आज',
+  'home.favourites': '{name} की पसंदीदा दवाएँ',
+  'home.findTitle': 'दवा खोजें',
+  'home.findText': 'दवाएँ खोजें, उनके उपयोग और दुष्प्रभाव जानें, और विकल्प ढूँढें।',
+  'home.findAction': 'दवाएँ खोजें',
+  'home.browseTitle': 'ब्राउज़ करें',
+  'home.browseText': 'पूरी सूची A से Z तक या चिकित्सीय और क्रिया वर्ग के अनुसार देखें।',
+  'home.browseAction': 'दवाएँ ब्राउज़ करें',
+  'home.symptomsTitle': 'लक्षण जाँच',
+  'home.symptomsText': 'कई लक्षण लिखें और देखें कि कौन-सी दवाएँ उनमें से सबसे अधिक को कवर करती हैं।',
+  'home.symptomsAction': 'लक्षण जाँचें',
+  'home.sideEffectsTitle': 'दुष्प्रभाव खोज',
+  'home.sideEffectsText': 'कोई दुष्प्रभाव खोजें और देखें कि किन दवाओं में वह लिखा है।',
+  'home.sideEffectsAction': 'दुष्प्रभाव देखें',
+  'home.medicationsTitle': 'मेरी दवाएँ',
+  'home.medicationsText': 'अपनी दवाओं के लिए रिमाइंडर सेट करें और अपनी दवा की समय-सारणी पर नज़र रखें।',
+  'home.medicationsAction': 'मेरी दवाएँ देखें',
+
+  'today.overdue': 'समय निकल गया',
+  'today.dueNow': 'अभी लेनी है',
+  'today.upcoming': 'आने वाली',
+  'today.done': 'हो गया',
+  'today.nothing': 'आज के लिए कुछ निर्धारित नहीं है।',
+  'today.addReminder': 'रिमाइंडर जोड़ें',
+  'today.taken': 'ले ली',
+  'today.skipped': 'छोड़ दी',
+  'today.skippedBecause': 'छोड़ दी ({reason})',
+
+  'search.title': 'लक्षण या नाम से दवाएँ खोजें',
+  'search.label': 'दवाएँ खोजें',
+  'search.placeholder': 'लक्षण या दवा का नाम लिखें (जैसे Headache, Fever)',
+  'search.noResultsFor': '"{query}" के लिए कोई दवा नहीं मिली। कृपया कोई दूसरा लक्षण या नाम आज़माएँ।',
+  'search.noResultsFilters': 'चुने गए फ़िल्टर से कोई दवा मेल नहीं खाती।',
+  'search.showing': '{total} में से {shown} परिणाम',
+  'search.showingFor': '"{query}" के लिए {total} में से {shown} परिणाम',
+  'search.chooseHint': '{results}। चुनने के लिए ऊपर और नीचे तीर कुंजियों का उपयोग करें।',
+  'search.severalSymptoms': 'एक से अधिक लक्षण हैं?',
+  'search.trySymptomChecker': 'लक्षण जाँच आज़माएँ',
+  'search.results': 'खोज परिणाम',
+  'search.uses': 'उपयोग: {uses}',
+  'search.moreConflicts': '(+{count} और)',
+  'search.viewDetails': 'विवरण देखें',
+  'search.loading': 'लोड हो रहा है...',
+  'search.loadMore': 'और दिखाएँ',
+
+  'medicine.loading': 'दवा की जानकारी लोड हो रही है...',
+  'medicine.notInCatalog': 'कैटलॉग में आईडी {id} वाली कोई दवा नहीं है।',
+  'medicine.printFactSheet': 'जानकारी पत्र प्रिंट करें',
+  'medicine.favourite': '★ पसंदीदा',
+  'medicine.addFavourite': '☆ पसंदीदा में जोड़ें',
+  'medicine.checkFor': '{name} के लिए यह दवा लेने से पहले जाँच लें',
+  'medicine.editProfile': 'स्वास्थ्य प्रोफ़ाइल बदलें',
+  'medicine.uses': 'उपयोग',
+  'medicine.sideEffects': 'दुष्प्रभाव',
+  'medicine.substitutes': 'विकल्प',
+  'medicine.noInformation': 'कोई जानकारी उपलब्ध नहीं है।',
+  'medicine.compareSideBySide': 'साथ-साथ तुलना करें →',
+  'medicine.compare': 'तुलना करें',
+  'medicine.chemicalClass': 'रासायनिक वर्ग',
+  'medicine.habitForming': 'आदत बनाने वाली',
+  'medicine.therapeuticClass': 'चिकित्सीय वर्ग',
+  'medicine.actionClass': 'क्रिया वर्ग',
+
+  'notFound.title': '404 - पेज नहीं मिला',
+  'notFound.message': 'आप जो पेज ढूँढ रहे हैं वह मौजूद नहीं है।',
+  'notFound.backHome': 'होम पर वापस जाएँ',
+
+  'medications.title': 'मेरी दवाएँ',
+  'medications.subtitle': '{name} के रिमाइंडर और इतिहास',
+  'medications.reminders': 'रिमाइंडर',
+  'medications.history': 'इतिहास',
+  'medications.enableText': 'रिमाइंडर सिस्टम सूचनाओं के रूप में पाएँ, तब भी जब यह टैब पीछे खुला हो।',
+  'medications.enable': 'चालू करें',
+  'medications.add': 'रिमाइंडर जोड़ें',
+  'medications.checkInteractions': 'पारस्परिक प्रभाव जाँचें',
+  'medications.hideInteractions': 'पारस्परिक प्रभाव जाँच छिपाएँ',
+  'medications.sideEffects': 'दुष्प्रभाव',
+  'medications.hideSideEffects': 'दुष्प्रभाव छिपाएँ',
+  'medications.exportImport': 'निर्यात / आयात',
+  'medications.printTimetable': 'समय-सारणी प्रिंट करें',
+  'medications.interactionTitle': 'पारस्परिक प्रभाव जाँच',
+  'medications.checking': 'आपकी दवाएँ जाँची जा रही हैं...',
+  'medications.noInteractions': 'आपकी दवाओं में कोई ज्ञात पारस्परिक प्रभाव या दोहराई गई चिकित्सा नहीं है।',
+  'medications.interactionNote': 'इस सूची के दवा वर्गों और ज्ञात जोड़ियों की एक छोटी सूची पर आधारित। हमेशा अपने डॉक्टर या फ़ार्मासिस्ट से पूछें।',
+  'medications.sideEffectsTitle': 'दुष्प्रभाव जो आपको हो सकते हैं',
+  'medications.paused': 'रोके गए',
+
+  'partOfDay.morning': 'सुबह',
+  'partOfDay.afternoon': 'दोपहर',
+  'partOfDay.evening': 'शाम',
+  'partOfDay.night': 'रात',
+
+  'reminderForm.title': 'दवा रिमाइंडर जोड़ें',
+  'reminderForm.medicineLabel': 'दवा का नाम',
+  'reminderForm.medicinePlaceholder': 'दवा का नाम',
+  'reminderForm.noMatches': 'कोई मिलती-जुलती दवा नहीं',
+  'reminderForm.pickMedicine': 'कृपया सुझावों में से एक दवा चुनें।',
+  'reminderForm.conflicts': '{name} की स्वास्थ्य प्रोफ़ाइल से टकराव:',
+  'reminderForm.confirmConflicts': 'डॉक्टर या फ़ार्मासिस्ट ने पुष्टि की है कि यह दवा {name} के लिए ठीक है',
+  'reminderForm.checkBeforeAdding': '{medicine} जोड़ने से पहले जाँचें:',
+  'reminderForm.checkBeforeSwitching': '{medicine} पर बदलने से पहले जाँचें:',
+  'reminderForm.add': 'जोड़ें',
+  'reminderForm.addAnyway': 'फिर भी जोड़ें',
+
+  'reminder.nextDose': 'अगली खुराक: {date} {time}',
+  'reminder.finished': 'समय-सारणी पूरी हुई',
+  'reminder.pausedSince': '{date} से रुका हुआ',
+  'reminder.pause': 'रोकें',
+  'reminder.resume': 'फिर शुरू करें',
+  'reminder.warnings': { one: '{count} {severity} चेतावनी', other: '{count} {severity} चेतावनियाँ' },
+
+  'severity.major': 'गंभीर',
+  'severity.moderate': 'मध्यम',
+  'severity.minor': 'हल्की',
+
+  'schedule.daily': 'रोज़ {times} पर',
+  'schedule.weekly': '{days} को {times} पर',
+  'schedule.everyNDays': 'हर {count} दिन में {times} पर',
+  'schedule.interval': '{times} से हर {count} घंटे',
+  'schedule.tapering': 'हर {count} दिन में {amount} कम',
+  'schedule.until': '{date} तक',
+  'schedule.errorTimes': 'कृपया कम से कम एक सही खुराक समय डालें।',
+  'schedule.errorWeekdays': 'कृपया कम से कम एक दिन चुनें।',
+  'schedule.errorEndDate': 'खत्म होने की तारीख शुरू होने की तारीख के दिन या उसके बाद की होनी चाहिए।',
+
+  'unit.tablet(s)': 'गोली',
+  'unit.capsule(s)': 'कैप्सूल',
+  'unit.ml': 'मि.ली.',
+  'unit.mg': 'मि.ग्रा.',
+  'unit.drop(s)': 'बूँद',
+  'unit.puff(s)': 'पफ़',
+  'unit.unit(s)': 'यूनिट',
+
+  'inventory.track': 'स्टॉक पर नज़र रखें',
+  'inventory.packSize': 'पैक का आकार ({unit})',
+  'inventory.inStock': 'स्टॉक में ({unit})',
+  'inventory.perDose': 'हर खुराक में ({unit})',
+  'inventory.alertDays': 'खत्म होने से कितने दिन पहले सूचना दें',
+  'inventory.stopTracking': 'नज़र रखना बंद करें',
+  'inventory.summary': 'स्टॉक में {stock} {unit} · {doses} · {runOut}',
+  'inventory.lastsUntilEnd': 'समय-सारणी के अंत तक चलेगा',
+  'inventory.runsOut': '{date} को खत्म होगा ({days})',
+  'inventory.outOfStock': 'स्टॉक खत्म',
+  'inventory.logRefill': 'रीफ़िल दर्ज करें',
+  'inventory.editSupply': 'स्टॉक बदलें',
+  'inventory.refillLog': 'रीफ़िल रिकॉर्ड ({count})',
+  'inventory.hideRefillLog': 'रीफ़िल रिकॉर्ड छिपाएँ',
+  'inventory.added': 'जोड़ा गया',
+  'inventory.units': 'यूनिट',
+  'inventory.errorPackSize': 'पैक का आकार शून्य से अधिक होना चाहिए।',
+  'inventory.errorPerDose': 'हर खुराक की मात्रा शून्य से अधिक होनी चाहिए।',
+  'inventory.errorStock': 'स्टॉक ऋणात्मक नहीं हो सकता।',
+  'inventory.errorAlertDays': 'सूचना के दिन ऋणात्मक नहीं हो सकते।',
+
+  'notification.title': 'दवा रिमाइंडर',
+  'notification.scheduledFor': '{time} के लिए निर्धारित',
+  'notification.taken': 'ले ली',
+  'notification.skip': 'छोड़ें',
+  'notification.skipDose': 'खुराक छोड़ें',
+  'notification.snooze': '{minutes} मिनट बाद',
+  'notification.refilled': 'रीफ़िल किया (+{amount})',
+  'notification.remindTomorrow': 'कल याद दिलाएँ',
+
+  'skipReason.feltBetter': 'बेहतर महसूस हुआ',
+  'skipReason.sideEffects': 'दुष्प्रभाव',
+  'skipReason.ranOut': 'दवा खत्म हो गई',
+  'skipReason.forgot': 'साथ ले जाना भूल गए',
+  'skipReason.doctorAdvised': 'डॉक्टर की सलाह',
+  'skipReason.other': 'अन्य',
+
+  'dose.take': '{what} लेने का समय!',
+  'dose.takeFor': '{owner} के लिए {what} लेने का समय!',
+  'dose.amountOf': '{medicine} की {dose}',
+
+  'refill.ranOut': '{medicine} खत्म हो गई है। रीफ़िल का समय!',
+  'refill.runsOut': '{medicine} {days} में खत्म होगी ({doses} बची हैं)। रीफ़िल का समय!',
+  'refill.ownerMedicine': '{owner} की {medicine}',
+
+  'scheduleEditor.repeat': 'दोहराएँ',
+  'scheduleEditor.daily': 'हर दिन',
+  'scheduleEditor.weekly': 'चुने हुए दिनों पर',
+  'scheduleEditor.everyNDays': 'कुछ दिनों में एक बार',
+  'scheduleEditor.interval': 'कुछ घंटों में एक बार',
+  'scheduleEditor.everyNDaysField': 'हर {days} दिन में',
+  'scheduleEditor.intervalField': 'हर {hours} घंटे में, {time} से शुरू',
+  'scheduleEditor.doseTimes': 'खुराक का समय',
+  'scheduleEditor.remove': 'हटाएँ',
+  'scheduleEditor.addTime': '+ एक और समय जोड़ें',
+  'scheduleEditor.startDate': 'शुरू होने की तारीख',
+  'scheduleEditor.endDate': 'खत्म होने की तारीख (वैकल्पिक)',
+  'scheduleEditor.dose': 'खुराक',
+  'scheduleEditor.amount': 'मात्रा',
+  'scheduleEditor.taper': 'खुराक धीरे-धीरे कम करें',
+  'scheduleEditor.taperField': 'हर {days} दिन में {amount} कम करें',
+
+  'facets.title': 'फ़िल्टर',
+  'facets.clearAll': 'सब हटाएँ',
+  'facets.noValues': 'कोई मान नहीं',
+  'facets.showLess': 'कम दिखाएँ',
+  'facets.showAll': 'सभी दिखाएँ ({count})',
+
+  'reminderSideEffects.none': 'आपकी किसी भी दवा में कोई दुष्प्रभाव नहीं लिखा है।',
+  'reminderSideEffects.shared': 'आपकी एक से ज़्यादा दवाओं में लिखे हुए',
+  'reminderSideEffects.medicineCount': { one: '{count} दवा', other: '{count} दवाएँ' },
+  'reminderSideEffects.other': 'अन्य दुष्प्रभाव',
+  'reminderSideEffects.disclaimer': 'लिखे हुए दुष्प्रभाव हो सकते हैं, ज़रूरी नहीं कि हों। अगर कोई परेशान करे तो अपने डॉक्टर या फ़ार्मासिस्ट से बात करें।',
+
+  'exportImport.title': 'निर्यात और आयात',
+  'exportImport.exportFor': '{name} की दवाएँ निर्यात करें',
+  'exportImport.remindersCsv': 'रिमाइंडर (CSV)',
+  'exportImport.historyCsv': 'खुराक इतिहास (CSV)',
+  'exportImport.calendar': 'कैलेंडर (.ics)',
+  'exportImport.exportHint': 'CSV किसी भी स्प्रेडशीट में खुलती है; कैलेंडर फ़ाइल हर खुराक का समय अलर्ट के साथ जोड़ती है।',
+  'exportImport.fullBackup': 'पूरा बैकअप',
+  'exportImport.downloadBackup': 'बैकअप डाउनलोड करें (JSON)',
+  'exportImport.backupHint': 'इसमें हर प्रोफ़ाइल, रिमाइंडर और खुराक इतिहास शामिल है।',
+  'exportImport.restore': 'बैकअप से वापस लाएँ',
+  'exportImport.readFailed': 'बैकअप फ़ाइल पढ़ी नहीं जा सकी।',
+  'exportImport.notJson': 'यह फ़ाइल सही JSON नहीं है।',
+  'exportImport.notBackup': 'यह फ़ाइल Medicine App का बैकअप नहीं है।',
+  'exportImport.profileCount': { one: '{count} प्रोफ़ाइल', other: '{count} प्रोफ़ाइल' },
+  'exportImport.reminderCount': { one: '{count} रिमाइंडर', other: '{count} रिमाइंडर' },
+  'exportImport.entryCount': { one: '{count} इतिहास प्रविष्टि', other: '{count} इतिहास प्रविष्टियाँ' },
+  'exportImport.duplicatesSkipped': { one: '{count} दोहराया गया रिमाइंडर छोड़ा गया', other: '{count} दोहराए गए रिमाइंडर छोड़े गए' },
+  'exportImport.contains': 'बैकअप में {profiles}, {reminders} और {entries} हैं।',
+  'exportImport.merge': 'मिलाएँ: नया जोड़ें और पहले से मौजूद रिमाइंडर छोड़ दें',
+  'exportImport.replace': 'बदलें: मौजूदा डेटा हटाकर बैकअप इस्तेमाल करें',
+  'exportImport.confirmReplace': 'सभी प्रोफ़ाइल, रिमाइंडर और इतिहास को बैकअप से बदलें?',
+  'exportImport.import': 'आयात करें',
+  'exportImport.imported': '{reminders}, {profiles} और {entries} आयात किए गए।',
+  'exportImport.importedWithDuplicates': '{reminders}, {profiles} और {entries} आयात किए गए ({duplicates})।',
+
+  'ageGroup.infant': 'शिशु (2 से कम)',
+  'ageGroup.child': 'बच्चा (2-12)',
+  'ageGroup.teen': 'किशोर (13-17)',
+  'ageGroup.adult': 'वयस्क',
+  'ageGroup.senior': 'बुज़ुर्ग (65+)',
+
+  'profiles.title': 'प्रोफ़ाइल',
+  'profiles.intro': 'हर व्यक्ति के रिमाइंडर, खुराक इतिहास और पसंदीदा अलग रखें। हर प्रोफ़ाइल के रिमाइंडर फिर भी अलर्ट देते हैं।',
+  'profiles.add': 'प्रोफ़ाइल जोड़ें',
+  'profiles.edit': 'प्रोफ़ाइल बदलें',
+  'profiles.active': 'चालू',
+  'profiles.switch': 'बदलें',
+  'profiles.confirmDelete': '{name} की प्रोफ़ाइल, उसके रिमाइंडर और खुराक इतिहास के साथ हटाएँ?',
+  'profiles.allergies': 'एलर्जी: {list}',
+  'profiles.conditions': 'बीमारियाँ: {list}',
+  'profiles.pregnant': 'गर्भवती',
+  'profiles.avoidsHabitForming': 'आदत बनाने वाली दवाओं से बचते हैं',
+  'profiles.name': 'नाम',
+  'profiles.namePlaceholder': 'जैसे, माँ',
+  'profiles.ageGroup': 'आयु वर्ग',
+  'profiles.allergiesField': 'एलर्जी (रासायनिक वर्ग या घटक, अल्पविराम से अलग)',
+  'profiles.allergiesPlaceholder': 'जैसे, Penicillin, Sulfonamide, Ibuprofen',
+  'profiles.conditionsField': 'बीमारियाँ (अल्पविराम से अलग)',
+  'profiles.conditionsPlaceholder': 'जैसे, Asthma, Diabetes, Kidney disease',
+  'profiles.pregnantField': 'गर्भवती या गर्भधारण की योजना',
+  'profiles.avoidHabitFormingField': 'आदत बनाने वाली दवाओं से बचें',
+  'profiles.notes': 'नोट्स',
+
+  'browse.title': 'दवाएँ देखें',
+  'browse.az': 'A–Z',
+  'browse.byClass': 'वर्ग के अनुसार',
+  'browse.jumpToLetter': 'अक्षर पर जाएँ',
+  'browse.medicineCount': { one: '{count} दवा', other: '{count} दवाएँ' },
+  'browse.azLabel': 'दवाएँ A से Z',
+  'browse.breadcrumb': 'आप यहाँ हैं',
+  'browse.allClasses': 'सभी वर्ग',
+  'browse.noMedicinesInClass': 'इस वर्ग में कोई दवा नहीं है।',
+  'browse.classLabel': '{name} दवाएँ',
+  'browse.actionClasses': 'क्रिया वर्ग',
+  'browse.therapeuticClasses': 'चिकित्सीय वर्ग',
+
+  'symptoms.title': 'लक्षण जाँच',
+  'symptoms.intro': 'एक या ज़्यादा लक्षण जोड़ें और देखें कि उनके लिए कौन-सी दवाएँ लिखी हैं।',
+  'symptoms.notFound': 'सूची में नहीं मिला',
+  'symptoms.remove': '{symptom} हटाएँ',
+  'symptoms.addAnother': 'एक और लक्षण जोड़ें',
+  'symptoms.placeholder': 'लक्षण लिखें और Enter दबाएँ (जैसे, Fever, Headache)',
+  'symptoms.medicineCount': { one: '{count} दवा', other: '{count} दवाएँ' },
+  'symptoms.classCount': { one: '{count} चिकित्सीय वर्ग', other: '{count} चिकित्सीय वर्ग' },
+  'symptoms.summary': '{classes} में {medicines}',
+  'symptoms.notAdvice': 'यह चिकित्सा सलाह नहीं है।',
+  'symptoms.disclaimer': 'ये नतीजे सिर्फ़ यह दिखाते हैं कि किन दवाओं के उपयोगों में आपके लक्षण लिखे हैं। ये न तो निदान हैं और न ही पर्चा; कोई भी दवा लेने से पहले डॉक्टर या फ़ार्मासिस्ट से बात करें।',
+  'symptoms.noResults': 'इन लक्षणों के लिए कोई दवा नहीं मिली। अलग या ज़्यादा सामान्य शब्द आज़माएँ।',
+  'symptoms.covers': { one: '{count} में से {matched} लक्षण', other: '{count} में से {matched} लक्षण' },
+  'symptoms.showFewer': 'कम दिखाएँ',
+  'symptoms.showAll': 'सभी {count} दिखाएँ',
+
+  'sync.title': 'सभी डिवाइस पर सिंक करें',
+  'sync.intro': 'साइन इन करें ताकि हर प्रोफ़ाइल के रिमाइंडर और खुराक इतिहास आपके सभी डिवाइस पर एक जैसे रहें। सब कुछ इस डिवाइस पर भी सहेजा रहता है, इसलिए ऐप ऑफ़लाइन भी चलता रहता है।',
+  'sync.signedOut': 'साइन इन नहीं है',
+  'sync.syncing': 'सिंक हो रहा है…',
+  'sync.synced': 'अप टू डेट',
+  'sync.offline': 'ऑफ़लाइन, कनेक्शन लौटने पर सिंक होगा',
+  'sync.error': 'सिंक नहीं हो सका',
+  'sync.sessionExpired': 'आपका सिंक सत्र खत्म हो गया है। कृपया फिर से साइन इन करें।',
+  'sync.unreachable': 'सिंक सर्वर तक नहीं पहुँच सके। आपके बदलाव इस डिवाइस पर सहेजे गए हैं और बाद में भेजे जाएँगे।',
+  'sync.server': 'सर्वर',
+  'sync.username': 'यूज़रनेम',
+  'sync.password': 'पासवर्ड',
+  'sync.signIn': 'साइन इन करें',
+  'sync.signingIn': 'साइन इन हो रहा है…',
+  'sync.signInFailed': 'साइन इन नहीं हो सका',
+  'sync.signedInAs': '{server} पर {username} के रूप में साइन इन',
+  'sync.lastSynced': 'पिछला सिंक {date} {time}',
+  'sync.syncNow': 'अभी सिंक करें',
+  'sync.signOut': 'साइन आउट करें',
+
+  'connection.online': 'ऑनलाइन',
+  'connection.offline': 'ऑफ़लाइन',
+  'connection.connected': 'कनेक्टेड',
+  'connection.offlineHint': 'कनेक्शन नहीं है: सहेजे गए रिमाइंडर और पहले से रखा दवा डेटा दिखाया जा रहा है',
+  'connection.dataVersion': 'डेटा {version}',
+
+  'history.empty': 'अभी तक कोई खुराक दर्ज नहीं हुई। रिमाइंडर बजने पर यहाँ प्रविष्टियाँ दिखेंगी।',
+  'history.last7Days': 'पिछले 7 दिन',
+  'history.last30Days': 'पिछले 30 दिन',
+  'history.currentStreak': 'मौजूदा सिलसिला (दिन)',
+  'history.longestStreak': 'सबसे लंबा सिलसिला (दिन)',
+  'history.reminderDeleted': '(रिमाइंडर हटाया गया)',
+  'history.summary': '7 दिन: {week} · 30 दिन: {month} · सिलसिला: {current} (सबसे अच्छा {longest})',
+  'history.previousMonth': 'पिछला महीना',
+  'history.nextMonth': 'अगला महीना',
+  'history.noDoses': 'कोई खुराक नहीं',
+  'history.allTaken': 'सभी खुराकें ली गईं',
+  'history.partial': 'कुछ खुराकें ली गईं',
+  'history.noneTaken': 'कोई खुराक नहीं ली गई',
+  'history.open': 'खुराकें अभी बाकी हैं',
+  'history.pending': 'जवाब का इंतज़ार',
+  'history.taken': 'ली गई',
+  'history.skipped': 'छोड़ी गई',
+  'history.snoozed': 'बाद के लिए टाली गई',
+  'history.missed': 'छूट गई',
+
+  'sideEffects.title': 'दुष्प्रभाव खोजें',
+  'sideEffects.intro': 'कोई दुष्प्रभाव खोजें और देखें कि किन दवाओं में वह लिखा है।',
+  'sideEffects.loading': 'दुष्प्रभाव लोड हो रहे हैं...',
+  'sideEffects.placeholder': 'दुष्प्रभाव खोजें (जैसे, Drowsiness, Nausea)',
+  'sideEffects.mostCommon': 'सबसे ज़्यादा लिखे गए',
+  'sideEffects.noMatches': '"{query}" से कोई दुष्प्रभाव मेल नहीं खाता।',
+  'sideEffects.medicineCount': { one: '{count} दवा', other: '{count} दवाएँ' },
+  'sideEffects.listedBy': { one: '{count} दवा में लिखा है', other: '{count} दवाओं में लिखा है' },
+  'sideEffects.related': 'संबंधित:',
+  'sideEffects.showMore': 'और दिखाएँ ({count} बाकी)',
+
+  'compare.title': 'दवाओं की तुलना करें',
+  'compare.loading': 'तुलना के लिए दवाएँ लोड हो रही हैं...',
+  'compare.pickTwo': 'तुलना के लिए कम से कम दो दवाएँ चुनें। कोई दवा खोलें और उसके किसी विकल्प के पास "तुलना करें" इस्तेमाल करें।',
+  'compare.findMedicines': 'दवाएँ खोजें',
+  'compare.intro': 'हाइलाइट की गई प्रविष्टियाँ दवाओं में अलग हैं; "सिर्फ़ इसमें" वाली प्रविष्टियाँ केवल एक दवा में हैं।',
+  'compare.onlyThisOne': '(सिर्फ़ इसमें)',
+  'compare.uniqueHint': 'सिर्फ़ यही दवा इसे लिखती है',
+  'compare.sharedHint': 'तुलना की गई सभी दवाओं में लिखा है',
+  'compare.someHint': 'तुलना की गई कुछ दवाओं में लिखा है',
+  'compare.remove': 'हटाएँ',
+  'compare.notSpecified': 'नहीं बताया गया',
+  'compare.addSubstitute': 'तुलना में कोई विकल्प जोड़ें',
+
+  'storage.newerVersion': 'आपके रिमाइंडर इस ऐप के नए संस्करण से सहेजे गए थे। नया संस्करण पाने के लिए कृपया पेज फिर से लोड करें; कुछ भी बदला नहीं गया है।',
+  'storage.loadFailed': 'आपके सहेजे गए रिमाइंडर लोड नहीं हो सके। कृपया पेज फिर से लोड करें।',
+
+  'interaction.sameMedicine': '{first} पहले से सूची में है, इसलिए यह एक ही दवा दो बार होगी।',
+  'interaction.substitute': '{first} और {second} एक-दूसरे के विकल्प हैं, इसलिए यह एक ही दवा दो बार हो सकती है।',
+  'interaction.sameTherapeuticClass': '{first} और {second} का चिकित्सीय वर्ग "{value}" एक ही है (शायद एक ही इलाज दो बार)।',
+  'interaction.sameActionClass': '{first} और {second} का क्रिया वर्ग "{value}" एक ही है (शायद एक ही इलाज दो बार)।',
+  'interaction.habitForming': '{first} और {second} दोनों आदत बनाने वाली हैं; इन्हें साथ लेने से निर्भरता और सुस्ती का खतरा बढ़ता है।',
+
+  'interactionRule.opioidBenzodiazepine': '{first} + {second}: ओपिओइड और बेंज़ोडायज़ेपीन साथ लेने से बहुत ज़्यादा नींद और धीमी साँस हो सकती है।',
+  'interactionRule.nsaidAnticoagulant': '{first} + {second}: NSAID को खून पतला करने वाली दवाओं के साथ लेने से खून बहने का खतरा बढ़ता है।',
+
+  'screening.allergy': '{name} को {allergy} से एलर्जी है, जो इस दवा ({match}) से मेल खाती है।',
+  'screening.condition': 'लिखे हुए दुष्प्रभाव ({sideEffects}) {name} की {condition} पर असर डाल सकते हैं।',
+  'screening.pregnancyClass': '{class} वर्ग की दवाओं से आमतौर पर गर्भावस्था में बचा जाता है।',
+  'screening.pregnancyHabitForming': 'गर्भावस्था में आदत बनाने वाली दवाओं के लिए डॉक्टर की सलाह ज़रूरी है।',
+  'screening.habitForming': 'यह दवा आदत बनाने वाली है, जिससे {name} बचना चाहते हैं।',
+
+  'catalog.loadFailed': 'दवाएँ लोड नहीं हो सकीं। कृपया बाद में फिर कोशिश करें।',
+  'catalog.offline': 'आप ऑफ़लाइन हैं और दवा का डेटा अभी इस डिवाइस पर सहेजा नहीं गया है। ऑफ़लाइन इस्तेमाल के लिए एक बार कनेक्ट करें।',
+  'catalog.detailsFailed': 'दवा की जानकारी लोड नहीं हो सकी। कृपया बाद में फिर कोशिश करें।',
+  'catalog.sideEffectsFailed': 'दुष्प्रभाव लोड नहीं हो सके। कृपया बाद में फिर कोशिश करें।',
+};
+
+export default hi;
@@ -0,0 +1,179 @@
+// Optional translations for the most common phrases in the catalog's `uses`
+// and `sideEffects`. The catalog itself is English; a phrase that isn't
+// listed here is shown as written.
+//
+// Keys are lowercase. A use like "Treatment of Fever" is matched by its
+// prefix, and the condition after it is looked up in `phrases`.
+
+export interface TermDictionary {
+  phrases: Record<string, string>;
+  prefixes: Record<string, string>; // lowercase prefix -> template with {term}
+}
+
+const hi: TermDictionary = {
+  phrases: {
+    'headache': 'सिरदर्द',
+    'fever': 'बुखार',
+    'pain relief': 'दर्द से राहत',
+    'pain': 'दर्द',
+    'nausea': 'मतली',
+    'vomiting': 'उल्टी',
+    'diarrhea': 'दस्त',
+    'diarrhoea': 'दस्त',
+    'constipation': 'कब्ज़',
+    'dizziness': 'चक्कर आना',
+    'sleepiness': 'नींद आना',
+    'drowsiness': 'उनींदापन',
+    'dry mouth': 'मुँह सूखना',
+    'stomach pain': 'पेट दर्द',
+    'abdominal pain': 'पेट दर्द',
+    'indigestion': 'अपच',
+    'flatulence': 'पेट फूलना',
+    'fatigue': 'थकान',
+    'weakness': 'कमज़ोरी',
+    'rash': 'चकत्ते',
+    'skin rash': 'त्वचा पर चकत्ते',
+    'itching': 'खुजली',
+    'allergic reaction': 'एलर्जी की प्रतिक्रिया',
+    'loss of appetite': 'भूख न लगना',
+    'increased appetite': 'भूख बढ़ना',
+    'weight gain': 'वज़न बढ़ना',
+    'insomnia': 'अनिद्रा',
+    'anxiety': 'चिंता',
+    'depression': 'अवसाद',
+    'cough': 'खाँसी',
+    'common cold': 'सर्दी-ज़ुकाम',
+    'sneezing': 'छींक',
+    'runny nose': 'नाक बहना',
+    'nasal congestion': 'नाक बंद होना',
+    'sore throat': 'गले में खराश',
+    'bacterial infections': 'जीवाणु संक्रमण',
+    'fungal infections': 'फंगल संक्रमण',
+    'viral infections': 'वायरल संक्रमण',
+    'hypertension': 'उच्च रक्तचाप',
+    'high blood pressure': 'उच्च रक्तचाप',
+    'low blood pressure': 'निम्न रक्तचाप',
+    'hypotension': 'निम्न रक्तचाप',
+    'diabetes': 'मधुमेह',
+    'type 2 diabetes mellitus': 'टाइप 2 मधुमेह',
+    'type 1 diabetes mellitus': 'टाइप 1 मधुमेह',
+    'hypoglycemia (low blood glucose level)': 'हाइपोग्लाइसीमिया (ब्लड शुगर कम होना)',
+    'asthma': 'दमा',
+    'acidity': 'एसिडिटी',
+    'heartburn': 'सीने में जलन',
+    'peptic ulcer disease': 'पेप्टिक अल्सर',
+    'angina (heart-related chest pain)': 'एनजाइना (हृदय से जुड़ा सीने का दर्द)',
+    'heart attack': 'दिल का दौरा',
+    'heart failure': 'हृदय विफलता',
+    'stroke': 'स्ट्रोक',
+    'high cholesterol': 'उच्च कोलेस्ट्रॉल',
+    'arthritis': 'गठिया',
+    'joint pain': 'जोड़ों का दर्द',
+    'muscle pain': 'मांसपेशियों में दर्द',
+    'back pain': 'कमर दर्द',
+    'epilepsy': 'मिर्गी',
+    'migraine': 'माइग्रेन',
+    'anemia': 'खून की कमी',
+    'edema': 'सूजन',
+    'swelling': 'सूजन',
+    'blurred vision': 'धुंधला दिखना',
+    'sweating': 'पसीना आना',
+    'tremors': 'कंपकंपी',
+    'palpitations': 'दिल की धड़कन तेज़ होना',
+    'urinary tract infection': 'मूत्र मार्ग संक्रमण',
+  },
+  prefixes: {
+    'treatment and prevention of': '{term} का इलाज और रोकथाम',
+    'prevention and treatment of': '{term} की रोकथाम और इलाज',
+    'treatment of': '{term} का इलाज',
+    'prevention of': '{term} की रोकथाम',
+    'relief of': '{term} से राहत',
+    'relief from': '{term} से राहत',
+    'management of': '{term} का प्रबंधन',
+  },
+};
+
+const ur: TermDictionary = {
+  phrases: {
+    'headache': 'سر درد',
+    'fever': 'بخار',
+    'pain relief': 'درد سے آرام',
+    'pain': 'درد',
+    'nausea': 'متلی',
+    'vomiting': 'قے',
+    'diarrhea': 'اسہال',
+    'diarrhoea': 'اسہال',
+    'constipation': 'قبض',
+    'dizziness': 'چکر آنا',
+    'sleepiness': 'نیند آنا',
+    'drowsiness': 'غنودگی',
+    'dry mouth': 'منہ خشک ہونا',
+    'stomach pain': 'پیٹ درد',
+    'abdominal pain': 'پیٹ درد',
+    'indigestion': 'بدہضمی',
+    'flatulence': 'پیٹ پھولنا',
+    'fatigue': 'تھکاوٹ',
+    'weakness': 'کمزوری',
+    'rash': 'دانے',
+    'skin rash': 'جلد پر دانے',
+    'itching': 'خارش',
+    'allergic reaction': 'الرجی کا ردعمل',
+    'loss of appetite': 'بھوک نہ لگنا',
+    'increased appetite': 'بھوک بڑھنا',
+    'weight gain': 'وزن بڑھنا',
+    'insomnia': 'بے خوابی',
+    'anxiety': 'بے چینی',
+    'depression': 'ڈپریشن',
+    'cough': 'کھانسی',
+    'common cold': 'نزلہ زکام',
+    'sneezing': 'چھینکیں',
+    'runny nose': 'ناک بہنا',
+    'nasal congestion': 'ناک بند ہونا',
+    'sore throat': 'گلے کی خراش',
+    'bacterial infections': 'بیکٹیریائی انفیکشن',
+    'fungal infections': 'فنگل انفیکشن',
+    'viral infections': 'وائرل انفیکشن',
+    'hypertension': 'ہائی بلڈ پریشر',
+    'high blood pressure': 'ہائی بلڈ پریشر',
+    'low blood pressure': 'لو بلڈ پریشر',
+    'hypotension': 'لو بلڈ پریشر',
+    'diabetes': 'ذیابیطس',
+    'type 2 diabetes mellitus': 'ٹائپ 2 ذیابیطس',
+    'type 1 diabetes mellitus': 'ٹائپ 1 ذیابیطس',
+    'asthma': 'دمہ',
+    'acidity': 'تیزابیت',
+    'heartburn': 'سینے کی جلن',
+    'peptic ulcer disease': 'معدے کا السر',
+    'heart attack': 'دل کا دورہ',
+    'heart failure': 'دل کی ناکامی',
+    'stroke': 'فالج',
+    'high cholesterol': 'زیادہ کولیسٹرول',
+    'arthritis': 'جوڑوں کی سوزش',
+    'joint pain': 'جوڑوں کا درد',
+    'muscle pain': 'پٹھوں کا درد',
+    'back pain': 'کمر درد',
+    'epilepsy': 'مرگی',
+    'migraine': 'آدھے سر کا درد',
+    'anemia': 'خون کی کمی',
+    'edema': 'سوجن',
+    'swelling': 'سوجن',
+    'blurred vision': 'دھندلا نظر آنا',
+    'sweating': 'پسینہ آنا',
+    'tremors': 'کپکپی',
+    'palpitations': 'دل کی دھڑکن تیز ہونا',
+    'urinary tract infection': 'پیشاب کی نالی کا انفیکشن',
+  },
+  prefixes: {
+    'treatment and prevention of': '{term} کا علاج اور روک تھام',
+    'prevention and treatment of': '{term} کی روک تھام اور علاج',
+    'treatment of': '{term} کا علاج',
+    'prevention of': '{term} کی روک تھام',
+    'relief of': '{term} سے آرام',
+    'relief from': '{term} سے آرام',
+    'management of': '{term} کا انتظام',
+  },
+};
+
+const terms: Record<string, TermDictionary> = { hi, ur };
+
+export default terms;
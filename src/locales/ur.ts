@@ -0,0 +1,416 @@
+import { Messages } from './en';
+
+// Urdu, written right to left
+const ur: Partial<Messages> = {
+  'common.loadingMedicines': 'دواؤں کی معلومات لوڈ ہو رہی ہیں...',
+  'common.loadingMedications': 'آپ کی دوائیں لوڈ ہو رہی ہیں...',
+  'common.loadingData': 'آپ کا ڈیٹا لوڈ ہو رہا ہے...',
+  'common.errorLoading': 'ڈیٹا لوڈ کرنے میں خرابی:',
+  'common.cancel': 'منسوخ کریں',
+  'common.save': 'محفوظ کریں',
+  'common.close': 'بند کریں',
+  'common.back': 'واپس',
+  'common.edit': 'ترمیم',
+  'common.delete': 'حذف کریں',
+  'common.days': { one: '{count} دن', other: '{count} دن' },
+  'common.doses': { one: '{count} خوراک', other: '{count} خوراکیں' },
+  'common.medicinesFound': {
+    one: '{count} دوا ملی۔ منتخب کرنے کے لیے اوپر اور نیچے کے تیر استعمال کریں۔',
+    other: '{count} دوائیں ملیں۔ منتخب کرنے کے لیے اوپر اور نیچے کے تیر استعمال کریں۔',
+  },
+
+  'language.label': 'زبان',
+
+  'nav.home': 'ہوم',
+  'nav.findMedicine': 'دوا تلاش کریں',
+  'nav.browse': 'فہرست',
+  'nav.symptoms': 'علامات کی جانچ',
+  'nav.myMedications': 'میری دوائیں',
+  'nav.profile': 'پروفائل',
+  'nav.manage': 'انتظام',
+
+  'home.welcome': 'میڈیسن ایپ میں خوش آمدید',
+  'home.today': '{name} کے لیے آج',
+  'home.favourites': '{name} کی پسندیدہ دوائیں',
+  'home.findTitle': 'دوا تلاش کریں',
+  'home.findText': 'دوائیں تلاش کریں، ان کے استعمال اور مضر اثرات جانیں، اور متبادل ڈھونڈیں۔',
+  'home.findAction': 'دوائیں تلاش کریں',
+  'home.browseTitle': 'فہرست',
+  'home.browseText': 'پوری فہرست A سے Z تک یا علاجی اور عملی درجے کے مطابق دیکھیں۔',
+  'home.browseAction': 'دوائیں دیکھیں',
+  'home.symptomsTitle': 'علامات کی جانچ',
+  'home.symptomsText': 'کئی علامات لکھیں اور دیکھیں کہ کون سی دوائیں ان میں سے زیادہ تر کا احاطہ کرتی ہیں۔',
+  'home.symptomsAction': 'علامات جانچیں',
+  'home.sideEffectsTitle': 'مضر اثرات کی تلاش',
+  'home.sideEffectsText': 'کوئی مضر اثر تلاش کریں اور دیکھیں کہ کن دواؤں میں یہ درج ہے۔',
+  'home.sideEffectsAction': 'مضر اثرات دیکھیں',
+  'home.medicationsTitle': 'میری دوائیں',
+  'home.medicationsText': 'اپنی دواؤں کے لیے یاد دہانیاں لگائیں اور اپنے دوا کے شیڈول پر نظر رکھیں۔',
+  'home.medicationsAction': 'میری دوائیں دیکھیں',
+
+  'today.overdue': 'وقت گزر گیا',
+  'today.dueNow': 'ابھی لینی ہے',
+  'today.upcoming': 'آنے والی',
+  'today.done': 'مکمل',
+  'today.nothing': 'آج کے لیے کچھ مقرر نہیں۔',
+  'today.addReminder': 'یاد دہانی شامل کریں',
+  'today.taken': 'لے لی',
+  'today.skipped': 'چھوڑ دی',
+  'today.skippedBecause': 'چھوڑ دی ({reason})',
+
+  'search.title': 'علامت یا نام سے دوائیں تلاش کریں',
+  'search.label': 'دوائیں تلاش کریں',
+  'search.placeholder': 'علامت یا دوا کا نام لکھیں (مثلاً Headache, Fever)',
+  'search.noResultsFor': '"{query}" کے لیے کوئی دوا نہیں ملی۔ براہ کرم کوئی اور علامت یا نام آزمائیں۔',
+  'search.noResultsFilters': 'منتخب فلٹرز سے کوئی دوا نہیں ملتی۔',
+  'search.showing': '{total} میں سے {shown} نتائج',
+  'search.showingFor': '"{query}" کے لیے {total} میں سے {shown} نتائج',
+  'search.chooseHint': '{results}۔ منتخب کرنے کے لیے اوپر اور نیچے کے تیر استعمال کریں۔',
+  'search.severalSymptoms': 'ایک سے زیادہ علامات ہیں؟',
+  'search.trySymptomChecker': 'علامات کی جانچ آزمائیں',
+  'search.results': 'تلاش کے نتائج',
+  'search.uses': 'استعمال: {uses}',
+  'search.moreConflicts': '(+{count} مزید)',
+  'search.viewDetails': 'تفصیل دیکھیں',
+  'search.loading': 'لوڈ ہو رہا ہے...',
+  'search.loadMore': 'مزید دکھائیں',
+
+  'medicine.loading': 'دوا کی تفصیلات لوڈ ہو رہی ہیں...',
+  'medicine.notInCatalog': 'کیٹلاگ میں آئی ڈی {id} والی کوئی دوا نہیں ہے۔',
+  'medicine.printFactSheet': 'معلوماتی صفحہ پرنٹ کریں',
+  'medicine.favourite': '★ پسندیدہ',
+  'medicine.addFavourite': '☆ پسندیدہ میں شامل کریں',
+  'medicine.checkFor': '{name} کے لیے یہ دوا استعمال کرنے سے پہلے جانچ لیں',
+  'medicine.editProfile': 'صحت کی پروفائل میں ترمیم کریں',
+  'medicine.uses': 'استعمال',
+  'medicine.sideEffects': 'مضر اثرات',
+  'medicine.substitutes': 'متبادل',
+  'medicine.noInformation': 'کوئی معلومات دستیاب نہیں۔',
+  'medicine.compareSideBySide': 'ساتھ ساتھ موازنہ کریں ←',
+  'medicine.compare': 'موازنہ کریں',
+  'medicine.chemicalClass': 'کیمیائی زمرہ',
+  'medicine.habitForming': 'عادت ڈالنے والی',
+  'medicine.therapeuticClass': 'علاجی زمرہ',
+  'medicine.actionClass': 'عمل کا زمرہ',
+
+  'notFound.title': '404 - صفحہ نہیں ملا',
+  'notFound.message': 'آپ جو صفحہ تلاش کر رہے ہیں وہ موجود نہیں ہے۔',
+  'notFound.backHome': 'ہوم پر واپس جائیں',
+
+  'medications.title': 'میری دوائیں',
+  'medications.subtitle': '{name} کی یاد دہانیاں اور تاریخ',
+  'medications.reminders': 'یاد دہانیاں',
+  'medications.history': 'تاریخ',
+  'medications.enableText': 'یاد دہانیاں سسٹم نوٹیفکیشن کے طور پر حاصل کریں، چاہے یہ ٹیب پیچھے کھلا ہو۔',
+  'medications.enable': 'فعال کریں',
+  'medications.add': 'یاد دہانی شامل کریں',
+  'medications.checkInteractions': 'باہمی اثرات جانچیں',
+  'medications.hideInteractions': 'باہمی اثرات کی جانچ چھپائیں',
+  'medications.sideEffects': 'مضر اثرات',
+  'medications.hideSideEffects': 'مضر اثرات چھپائیں',
+  'medications.exportImport': 'برآمد / درآمد',
+  'medications.printTimetable': 'نظام الاوقات پرنٹ کریں',
+  'medications.interactionTitle': 'باہمی اثرات کی جانچ',
+  'medications.checking': 'آپ کی دوائیں جانچی جا رہی ہیں...',
+  'medications.noInteractions': 'آپ کی دواؤں میں کوئی معلوم باہمی اثر یا دہرا علاج نہیں۔',
+  'medications.interactionNote': 'اس فہرست کے دوا کے درجوں اور معلوم جوڑوں کی مختصر فہرست پر مبنی۔ ہمیشہ اپنے ڈاکٹر یا فارماسسٹ سے پوچھیں۔',
+  'medications.sideEffectsTitle': 'مضر اثرات جو آپ کو ہو سکتے ہیں',
+  'medications.paused': 'رکی ہوئی',
+
+  'partOfDay.morning': 'صبح',
+  'partOfDay.afternoon': 'دوپہر',
+  'partOfDay.evening': 'شام',
+  'partOfDay.night': 'رات',
+
+  'reminderForm.title': 'دوا کی یاد دہانی شامل کریں',
+  'reminderForm.medicineLabel': 'دوا کا نام',
+  'reminderForm.medicinePlaceholder': 'دوا کا نام',
+  'reminderForm.noMatches': 'کوئی ملتی جلتی دوا نہیں',
+  'reminderForm.pickMedicine': 'براہ کرم تجاویز میں سے ایک دوا منتخب کریں۔',
+  'reminderForm.conflicts': '{name} کی صحت پروفائل سے ٹکراؤ:',
+  'reminderForm.confirmConflicts': 'ڈاکٹر یا فارماسسٹ نے تصدیق کی ہے کہ یہ دوا {name} کے لیے ٹھیک ہے',
+  'reminderForm.checkBeforeAdding': '{medicine} شامل کرنے سے پہلے جانچیں:',
+  'reminderForm.checkBeforeSwitching': '{medicine} پر بدلنے سے پہلے جانچیں:',
+  'reminderForm.add': 'شامل کریں',
+  'reminderForm.addAnyway': 'پھر بھی شامل کریں',
+
+  'reminder.nextDose': 'اگلی خوراک: {date} {time}',
+  'reminder.finished': 'شیڈول مکمل',
+  'reminder.pausedSince': '{date} سے رکی ہوئی',
+  'reminder.pause': 'روکیں',
+  'reminder.resume': 'دوبارہ شروع کریں',
+  'reminder.warnings': { one: '{count} {severity} انتباہ', other: '{count} {severity} انتباہات' },
+
+  'severity.major': 'سنگین',
+  'severity.moderate': 'درمیانہ',
+  'severity.minor': 'معمولی',
+
+  'schedule.daily': 'روزانہ {times} بجے',
+  'schedule.weekly': '{days} کو {times} بجے',
+  'schedule.everyNDays': 'ہر {count} دن بعد {times} بجے',
+  'schedule.interval': '{times} سے ہر {count} گھنٹے',
+  'schedule.tapering': 'ہر {count} دن بعد {amount} کم',
+  'schedule.until': '{date} تک',
+  'schedule.errorTimes': 'براہ کرم کم از کم ایک درست خوراک کا وقت درج کریں۔',
+  'schedule.errorWeekdays': 'براہ کرم کم از کم ایک دن منتخب کریں۔',
+  'schedule.errorEndDate': 'اختتام کی تاریخ شروع کی تاریخ کے دن یا اس کے بعد کی ہونی چاہیے۔',
+
+  'unit.tablet(s)': 'گولی',
+  'unit.capsule(s)': 'کیپسول',
+  'unit.ml': 'ملی لیٹر',
+  'unit.mg': 'ملی گرام',
+  'unit.drop(s)': 'قطرے',
+  'unit.puff(s)': 'پف',
+  'unit.unit(s)': 'یونٹ',
+
+  'inventory.track': 'ذخیرے پر نظر رکھیں',
+  'inventory.packSize': 'پیک کا سائز ({unit})',
+  'inventory.inStock': 'ذخیرے میں ({unit})',
+  'inventory.perDose': 'ہر خوراک میں ({unit})',
+  'inventory.alertDays': 'ختم ہونے سے کتنے دن پہلے اطلاع دیں',
+  'inventory.stopTracking': 'نظر رکھنا بند کریں',
+  'inventory.summary': 'ذخیرے میں {stock} {unit} · {doses} · {runOut}',
+  'inventory.lastsUntilEnd': 'شیڈول کے آخر تک چلے گی',
+  'inventory.runsOut': '{date} کو ختم ہو گی ({days})',
+  'inventory.outOfStock': 'ذخیرہ ختم',
+  'inventory.logRefill': 'ری فل درج کریں',
+  'inventory.editSupply': 'ذخیرہ بدلیں',
+  'inventory.refillLog': 'ری فل ریکارڈ ({count})',
+  'inventory.hideRefillLog': 'ری فل ریکارڈ چھپائیں',
+  'inventory.added': 'شامل کیا',
+  'inventory.units': 'یونٹ',
+  'inventory.errorPackSize': 'پیک کا سائز صفر سے زیادہ ہونا چاہیے۔',
+  'inventory.errorPerDose': 'ہر خوراک کی مقدار صفر سے زیادہ ہونی چاہیے۔',
+  'inventory.errorStock': 'ذخیرہ منفی نہیں ہو سکتا۔',
+  'inventory.errorAlertDays': 'اطلاع کے دن منفی نہیں ہو سکتے۔',
+
+  'notification.title': 'دوا کی یاد دہانی',
+  'notification.scheduledFor': '{time} کے لیے مقرر',
+  'notification.taken': 'لے لی',
+  'notification.skip': 'چھوڑیں',
+  'notification.skipDose': 'خوراک چھوڑیں',
+  'notification.snooze': '{minutes} منٹ بعد',
+  'notification.refilled': 'دوبارہ بھر لی (+{amount})',
+  'notification.remindTomorrow': 'کل یاد دلائیں',
+
+  'skipReason.feltBetter': 'بہتر محسوس ہوا',
+  'skipReason.sideEffects': 'مضر اثرات',
+  'skipReason.ranOut': 'دوا ختم ہو گئی',
+  'skipReason.forgot': 'ساتھ لے جانا بھول گئے',
+  'skipReason.doctorAdvised': 'ڈاکٹر کا مشورہ',
+  'skipReason.other': 'دیگر',
+
+  'dose.take': '{what} لینے کا وقت!',
+  'dose.takeFor': '{owner} کے لیے {what} لینے کا وقت!',
+  'dose.amountOf': '{medicine} کی {dose}',
+
+  'refill.ranOut': '{medicine} ختم ہو گئی ہے۔ دوبارہ بھرنے کا وقت!',
+  'refill.runsOut': '{medicine} {days} میں ختم ہو جائے گی ({doses} باقی)۔ دوبارہ بھرنے کا وقت!',
+  'refill.ownerMedicine': '{owner} کی {medicine}',
+
+  'scheduleEditor.repeat': 'دہرائیں',
+  'scheduleEditor.daily': 'ہر روز',
+  'scheduleEditor.weekly': 'مخصوص دنوں پر',
+  'scheduleEditor.everyNDays': 'چند دن بعد',
+  'scheduleEditor.interval': 'چند گھنٹے بعد',
+  'scheduleEditor.everyNDaysField': 'ہر {days} دن بعد',
+  'scheduleEditor.intervalField': 'ہر {hours} گھنٹے بعد، {time} سے شروع',
+  'scheduleEditor.doseTimes': 'خوراک کے اوقات',
+  'scheduleEditor.remove': 'ہٹائیں',
+  'scheduleEditor.addTime': '+ ایک اور وقت شامل کریں',
+  'scheduleEditor.startDate': 'شروع کی تاریخ',
+  'scheduleEditor.endDate': 'اختتام کی تاریخ (اختیاری)',
+  'scheduleEditor.dose': 'خوراک',
+  'scheduleEditor.amount': 'مقدار',
+  'scheduleEditor.taper': 'خوراک بتدریج کم کریں',
+  'scheduleEditor.taperField': 'ہر {days} دن بعد {amount} کم کریں',
+
+  'facets.title': 'فلٹر',
+  'facets.clearAll': 'سب صاف کریں',
+  'facets.noValues': 'کوئی قدر نہیں',
+  'facets.showLess': 'کم دکھائیں',
+  'facets.showAll': 'سب دکھائیں ({count})',
+
+  'reminderSideEffects.none': 'آپ کی کسی بھی دوا میں کوئی مضر اثر درج نہیں ہے۔',
+  'reminderSideEffects.shared': 'آپ کی ایک سے زیادہ دواؤں میں درج',
+  'reminderSideEffects.medicineCount': { one: '{count} دوا', other: '{count} دوائیں' },
+  'reminderSideEffects.other': 'دیگر مضر اثرات',
+  'reminderSideEffects.disclaimer': 'درج مضر اثرات ہو سکتے ہیں، ضروری نہیں کہ ہوں۔ اگر کوئی پریشان کرے تو اپنے ڈاکٹر یا فارماسسٹ سے بات کریں۔',
+
+  'exportImport.title': 'برآمد اور درآمد',
+  'exportImport.exportFor': '{name} کی دوائیں برآمد کریں',
+  'exportImport.remindersCsv': 'یاد دہانیاں (CSV)',
+  'exportImport.historyCsv': 'خوراک کی تاریخ (CSV)',
+  'exportImport.calendar': 'کیلنڈر (.ics)',
+  'exportImport.exportHint': 'CSV کسی بھی اسپریڈشیٹ میں کھلتی ہے؛ کیلنڈر فائل ہر خوراک کا وقت الرٹ کے ساتھ شامل کرتی ہے۔',
+  'exportImport.fullBackup': 'مکمل بیک اپ',
+  'exportImport.downloadBackup': 'بیک اپ ڈاؤن لوڈ کریں (JSON)',
+  'exportImport.backupHint': 'اس میں ہر پروفائل، یاد دہانی اور خوراک کی تاریخ شامل ہے۔',
+  'exportImport.restore': 'بیک اپ سے بحال کریں',
+  'exportImport.readFailed': 'بیک اپ فائل پڑھی نہیں جا سکی۔',
+  'exportImport.notJson': 'یہ فائل درست JSON نہیں ہے۔',
+  'exportImport.notBackup': 'یہ فائل Medicine App کا بیک اپ نہیں ہے۔',
+  'exportImport.profileCount': { one: '{count} پروفائل', other: '{count} پروفائل' },
+  'exportImport.reminderCount': { one: '{count} یاد دہانی', other: '{count} یاد دہانیاں' },
+  'exportImport.entryCount': { one: '{count} تاریخی اندراج', other: '{count} تاریخی اندراجات' },
+  'exportImport.duplicatesSkipped': { one: '{count} دہری یاد دہانی چھوڑ دی گئی', other: '{count} دہری یاد دہانیاں چھوڑ دی گئیں' },
+  'exportImport.contains': 'بیک اپ میں {profiles}، {reminders} اور {entries} ہیں۔',
+  'exportImport.merge': 'ملائیں: نیا شامل کریں اور پہلے سے موجود یاد دہانیاں چھوڑ دیں',
+  'exportImport.replace': 'بدلیں: موجودہ ڈیٹا ہٹا کر بیک اپ استعمال کریں',
+  'exportImport.confirmReplace': 'تمام پروفائل، یاد دہانیاں اور تاریخ بیک اپ سے بدل دیں؟',
+  'exportImport.import': 'درآمد کریں',
+  'exportImport.imported': '{reminders}، {profiles} اور {entries} درآمد کیے گئے۔',
+  'exportImport.importedWithDuplicates': '{reminders}، {profiles} اور {entries} درآمد کیے گئے ({duplicates})۔',
+
+  'ageGroup.infant': 'شیر خوار (2 سے کم)',
+  'ageGroup.child': 'بچہ (2-12)',
+  'ageGroup.teen': 'نوعمر (13-17)',
+  'ageGroup.adult': 'بالغ',
+  'ageGroup.senior': 'بزرگ (65+)',
+
+  'profiles.title': 'پروفائل',
+  'profiles.intro': 'ہر شخص کی یاد دہانیاں، خوراک کی تاریخ اور پسندیدہ الگ رکھیں۔ ہر پروفائل کی یاد دہانیاں پھر بھی الرٹ دیتی ہیں۔',
+  'profiles.add': 'پروفائل شامل کریں',
+  'profiles.edit': 'پروفائل میں ترمیم کریں',
+  'profiles.active': 'فعال',
+  'profiles.switch': 'تبدیل کریں',
+  'profiles.confirmDelete': '{name} کا پروفائل، اس کی یاد دہانیوں اور خوراک کی تاریخ سمیت حذف کریں؟',
+  'profiles.allergies': 'الرجی: {list}',
+  'profiles.conditions': 'بیماریاں: {list}',
+  'profiles.pregnant': 'حاملہ',
+  'profiles.avoidsHabitForming': 'عادت ڈالنے والی دواؤں سے پرہیز',
+  'profiles.name': 'نام',
+  'profiles.namePlaceholder': 'مثلاً، امی',
+  'profiles.ageGroup': 'عمر کا گروپ',
+  'profiles.allergiesField': 'الرجی (کیمیائی درجے یا اجزاء، کاما سے الگ)',
+  'profiles.allergiesPlaceholder': 'مثلاً، Penicillin، Sulfonamide، Ibuprofen',
+  'profiles.conditionsField': 'بیماریاں (کاما سے الگ)',
+  'profiles.conditionsPlaceholder': 'مثلاً، Asthma، Diabetes، Kidney disease',
+  'profiles.pregnantField': 'حاملہ یا حمل کا ارادہ',
+  'profiles.avoidHabitFormingField': 'عادت ڈالنے والی دواؤں سے بچیں',
+  'profiles.notes': 'نوٹس',
+
+  'browse.title': 'دوائیں دیکھیں',
+  'browse.az': 'A–Z',
+  'browse.byClass': 'درجے کے لحاظ سے',
+  'browse.jumpToLetter': 'حرف پر جائیں',
+  'browse.medicineCount': { one: '{count} دوا', other: '{count} دوائیں' },
+  'browse.azLabel': 'دوائیں A سے Z',
+  'browse.breadcrumb': 'آپ یہاں ہیں',
+  'browse.allClasses': 'تمام درجے',
+  'browse.noMedicinesInClass': 'اس درجے میں کوئی دوا نہیں ہے۔',
+  'browse.classLabel': '{name} دوائیں',
+  'browse.actionClasses': 'عمل کے درجے',
+  'browse.therapeuticClasses': 'علاجی درجے',
+
+  'symptoms.title': 'علامات کی جانچ',
+  'symptoms.intro': 'ایک یا زیادہ علامات شامل کریں اور دیکھیں کہ ان کے لیے کون سی دوائیں درج ہیں۔',
+  'symptoms.notFound': 'فہرست میں نہیں ملا',
+  'symptoms.remove': '{symptom} ہٹائیں',
+  'symptoms.addAnother': 'ایک اور علامت شامل کریں',
+  'symptoms.placeholder': 'علامت لکھیں اور Enter دبائیں (مثلاً، Fever، Headache)',
+  'symptoms.medicineCount': { one: '{count} دوا', other: '{count} دوائیں' },
+  'symptoms.classCount': { one: '{count} علاجی درجہ', other: '{count} علاجی درجے' },
+  'symptoms.summary': '{classes} میں {medicines}',
+  'symptoms.notAdvice': 'یہ طبی مشورہ نہیں ہے۔',
+  'symptoms.disclaimer': 'یہ نتائج صرف یہ دکھاتے ہیں کہ کن دواؤں کے استعمال میں آپ کی علامات درج ہیں۔ یہ نہ تشخیص ہیں نہ نسخہ؛ کوئی بھی دوا لینے سے پہلے ڈاکٹر یا فارماسسٹ سے بات کریں۔',
+  'symptoms.noResults': 'ان علامات کے لیے کوئی دوا نہیں ملی۔ مختلف یا زیادہ عام الفاظ آزمائیں۔',
+  'symptoms.covers': { one: '{count} میں سے {matched} علامت', other: '{count} میں سے {matched} علامات' },
+  'symptoms.showFewer': 'کم دکھائیں',
+  'symptoms.showAll': 'تمام {count} دکھائیں',
+
+  'sync.title': 'تمام آلات پر ہم آہنگ کریں',
+  'sync.intro': 'سائن ان کریں تاکہ ہر پروفائل کی یاد دہانیاں اور خوراک کی تاریخ آپ کے تمام آلات پر ایک جیسی رہیں۔ سب کچھ اس آلے پر بھی محفوظ رہتا ہے، اس لیے ایپ آف لائن بھی چلتی رہتی ہے۔',
+  'sync.signedOut': 'سائن ان نہیں',
+  'sync.syncing': 'ہم آہنگ ہو رہا ہے…',
+  'sync.synced': 'تازہ ترین',
+  'sync.offline': 'آف لائن، کنکشن واپس آنے پر ہم آہنگ ہوگا',
+  'sync.error': 'ہم آہنگی ناکام رہی',
+  'sync.sessionExpired': 'آپ کا ہم آہنگی کا سیشن ختم ہو گیا ہے۔ براہ کرم دوبارہ سائن ان کریں۔',
+  'sync.unreachable': 'ہم آہنگی سرور تک نہیں پہنچ سکے۔ آپ کی تبدیلیاں اس آلے پر محفوظ ہیں اور بعد میں بھیجی جائیں گی۔',
+  'sync.server': 'سرور',
+  'sync.username': 'صارف نام',
+  'sync.password': 'پاس ورڈ',
+  'sync.signIn': 'سائن ان کریں',
+  'sync.signingIn': 'سائن ان ہو رہا ہے…',
+  'sync.signInFailed': 'سائن ان نہیں ہو سکا',
+  'sync.signedInAs': '{server} پر {username} کے طور پر سائن ان',
+  'sync.lastSynced': 'آخری ہم آہنگی {date} {time}',
+  'sync.syncNow': 'ابھی ہم آہنگ کریں',
+  'sync.signOut': 'سائن آؤٹ کریں',
+
+  'connection.online': 'آن لائن',
+  'connection.offline': 'آف لائن',
+  'connection.connected': 'منسلک',
+  'connection.offlineHint': 'کنکشن نہیں ہے: محفوظ یاد دہانیاں اور پہلے سے رکھا دوا کا ڈیٹا دکھایا جا رہا ہے',
+  'connection.dataVersion': 'ڈیٹا {version}',
+
+  'history.empty': 'ابھی تک کوئی خوراک درج نہیں ہوئی۔ یاد دہانیاں بجنے پر یہاں اندراجات دکھائی دیں گے۔',
+  'history.last7Days': 'پچھلے 7 دن',
+  'history.last30Days': 'پچھلے 30 دن',
+  'history.currentStreak': 'موجودہ سلسلہ (دن)',
+  'history.longestStreak': 'سب سے طویل سلسلہ (دن)',
+  'history.reminderDeleted': '(یاد دہانی حذف کر دی گئی)',
+  'history.summary': '7 دن: {week} · 30 دن: {month} · سلسلہ: {current} (بہترین {longest})',
+  'history.previousMonth': 'پچھلا مہینہ',
+  'history.nextMonth': 'اگلا مہینہ',
+  'history.noDoses': 'کوئی خوراک نہیں',
+  'history.allTaken': 'تمام خوراکیں لی گئیں',
+  'history.partial': 'کچھ خوراکیں لی گئیں',
+  'history.noneTaken': 'کوئی خوراک نہیں لی گئی',
+  'history.open': 'خوراکیں ابھی باقی ہیں',
+  'history.pending': 'جواب کا انتظار',
+  'history.taken': 'لی گئی',
+  'history.skipped': 'چھوڑ دی گئی',
+  'history.snoozed': 'بعد کے لیے ٹال دی گئی',
+  'history.missed': 'رہ گئی',
+
+  'sideEffects.title': 'مضر اثرات کی تلاش',
+  'sideEffects.intro': 'کوئی مضر اثر تلاش کریں اور دیکھیں کہ کن دواؤں میں وہ درج ہے۔',
+  'sideEffects.loading': 'مضر اثرات لوڈ ہو رہے ہیں...',
+  'sideEffects.placeholder': 'مضر اثرات تلاش کریں (مثلاً، Drowsiness، Nausea)',
+  'sideEffects.mostCommon': 'سب سے زیادہ درج',
+  'sideEffects.noMatches': '"{query}" سے کوئی مضر اثر میل نہیں کھاتا۔',
+  'sideEffects.medicineCount': { one: '{count} دوا', other: '{count} دوائیں' },
+  'sideEffects.listedBy': { one: '{count} دوا میں درج ہے', other: '{count} دواؤں میں درج ہے' },
+  'sideEffects.related': 'متعلقہ:',
+  'sideEffects.showMore': 'مزید دکھائیں ({count} باقی)',
+
+  'compare.title': 'دواؤں کا موازنہ کریں',
+  'compare.loading': 'موازنے کے لیے دوائیں لوڈ ہو رہی ہیں...',
+  'compare.pickTwo': 'موازنے کے لیے کم از کم دو دوائیں منتخب کریں۔ کوئی دوا کھولیں اور اس کے کسی متبادل کے ساتھ "موازنہ کریں" استعمال کریں۔',
+  'compare.findMedicines': 'دوائیں تلاش کریں',
+  'compare.intro': 'نمایاں اندراجات دواؤں میں مختلف ہیں؛ "صرف اسی میں" والے اندراجات صرف ایک دوا میں ہیں۔',
+  'compare.onlyThisOne': '(صرف اسی میں)',
+  'compare.uniqueHint': 'صرف یہی دوا اسے درج کرتی ہے',
+  'compare.sharedHint': 'موازنہ کی گئی تمام دواؤں میں درج ہے',
+  'compare.someHint': 'موازنہ کی گئی کچھ دواؤں میں درج ہے',
+  'compare.remove': 'ہٹائیں',
+  'compare.notSpecified': 'درج نہیں',
+  'compare.addSubstitute': 'موازنے میں کوئی متبادل شامل کریں',
+
+  'storage.newerVersion': 'آپ کی یاد دہانیاں اس ایپ کے نئے ورژن سے محفوظ کی گئی تھیں۔ نیا ورژن حاصل کرنے کے لیے براہ کرم صفحہ دوبارہ لوڈ کریں؛ کچھ بھی تبدیل نہیں کیا گیا۔',
+  'storage.loadFailed': 'آپ کی محفوظ یاد دہانیاں لوڈ نہیں ہو سکیں۔ براہ کرم صفحہ دوبارہ لوڈ کریں۔',
+
+  'interaction.sameMedicine': '{first} پہلے سے فہرست میں ہے، اس لیے یہ ایک ہی دوا دو بار ہوگی۔',
+  'interaction.substitute': '{first} اور {second} ایک دوسرے کے متبادل ہیں، اس لیے یہ ایک ہی دوا دو بار ہو سکتی ہے۔',
+  'interaction.sameTherapeuticClass': '{first} اور {second} کا علاجی درجہ "{value}" ایک ہی ہے (ممکنہ طور پر ایک ہی علاج دو بار)۔',
+  'interaction.sameActionClass': '{first} اور {second} کا عمل کا درجہ "{value}" ایک ہی ہے (ممکنہ طور پر ایک ہی علاج دو بار)۔',
+  'interaction.habitForming': '{first} اور {second} دونوں عادت ڈالنے والی ہیں؛ انہیں ساتھ لینے سے انحصار اور غنودگی کا خطرہ بڑھتا ہے۔',
+
+  'interactionRule.opioidBenzodiazepine': '{first} + {second}: اوپیئڈ اور بینزوڈیازپین ساتھ لینے سے شدید غنودگی اور سانس کی رفتار سست ہو سکتی ہے۔',
+  'interactionRule.nsaidAnticoagulant': '{first} + {second}: NSAID کو خون پتلا کرنے والی دواؤں کے ساتھ لینے سے خون بہنے کا خطرہ بڑھتا ہے۔',
+
+  'screening.allergy': '{name} کو {allergy} سے الرجی ہے، جو اس دوا ({match}) سے میل کھاتی ہے۔',
+  'screening.condition': 'درج مضر اثرات ({sideEffects}) {name} کی {condition} پر اثر ڈال سکتے ہیں۔',
+  'screening.pregnancyClass': '{class} درجے کی دواؤں سے عام طور پر حمل کے دوران پرہیز کیا جاتا ہے۔',
+  'screening.pregnancyHabitForming': 'حمل کے دوران عادت ڈالنے والی دواؤں کے لیے ڈاکٹر کا مشورہ ضروری ہے۔',
+  'screening.habitForming': 'یہ دوا عادت ڈالنے والی ہے، جس سے {name} بچنا چاہتے ہیں۔',
+
+  'catalog.loadFailed': 'دوائیں لوڈ نہیں ہو سکیں۔ براہ کرم بعد میں دوبارہ کوشش کریں۔',
+  'catalog.offline': 'آپ آف لائن ہیں اور دوا کا ڈیٹا ابھی اس آلے پر محفوظ نہیں ہوا۔ آف لائن استعمال کے لیے ایک بار منسلک ہوں۔',
+  'catalog.detailsFailed': 'دوا کی تفصیلات لوڈ نہیں ہو سکیں۔ براہ کرم بعد میں دوبارہ کوشش کریں۔',
+  'catalog.sideEffectsFailed': 'مضر اثرات لوڈ نہیں ہو سکے۔ براہ کرم بعد میں دوبارہ کوشش کریں۔',
+};
+
+export default ur;
@@ -0,0 +1,129 @@
+import { DoseAction, doseEntryId } from './adherence';
+import { doseLabel, t } from './i18n';
+import { doseOwnerName } from './profiles';
+import { doseOn, occurrencesBetween } from './schedule';
+import { Dose, DoseLogEntry, Profile, Reminder } from './types';
+
+const SERVICE_WORKER_URL = '/service-worker.js';
+
+// How far ahead doses are handed to the service worker
+const SCHEDULE_AHEAD_MS = 24 * 60 * 60 * 1000;
+const MAX_SCHEDULED_NOTIFICATIONS = 50;
+
+// Must match SNOOZE_MINUTES in public/service-worker.js
+export const NOTIFICATION_SNOOZE_MINUTES = 10;
+
+// Payload understood by the service worker's message handler. The worker
+// has no catalogs, so the button titles are translated here.
+interface DoseNotification {
+  id: string;
+  title: string;
+  body: string;
+  timestamp: number;
+  actionTitles: { taken: string; snooze: string };
+}
+
+interface DoseActionMessage {
+  type: 'dose-action';
+  entryId: string;
+  action: DoseAction | null;
+}
+
+export const doseMessage = (medicineName: string, dose?: Dose, ownerName?: string) => {
+  const what = dose ? t('dose.amountOf', { dose: doseLabel(dose), medicine: medicineName }) : medicineName;
+  return ownerName ? t('dose.takeFor', { owner: ownerName, what }) : t('dose.take', { what });
+};
+
+const actionTitles = () => ({
+  taken: t('notification.taken'),
+  snooze: t('notification.snooze', { minutes: NOTIFICATION_SNOOZE_MINUTES }),
+});
+
+const isSupported = () => 'serviceWorker' in navigator && 'Notification' in window;
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  isSupported() ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async () => {
+  if (!isSupported()) return 'unsupported';
+  return Notification.requestPermission();
+};
+
+export const registerServiceWorker = async () => {
+  if (!('serviceWorker' in navigator)) return null;
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (e) {
+    console.error("Failed to register service worker:", e);
+    return null;
+  }
+};
+
+const postToServiceWorker = async (message: object) => {
+  if (notificationPermission() !== 'granted') return;
+  const registration = await navigator.serviceWorker.ready;
+  if (registration.active) registration.active.postMessage(message);
+};
+
+// Shows system notifications for doses that just fired; tags dedupe them
+// against notifications the service worker already scheduled
+export const showDoseNotifications = (entries: DoseLogEntry[], profiles: Profile[]) => {
+  if (!entries.length) return;
+  const doses: DoseNotification[] = entries.map(entry => ({
+    id: entry.id,
+    title: t('notification.title'),
+    body: doseMessage(entry.medicineName, entry.dose, doseOwnerName(profiles, entry.profileId)),
+    timestamp: new Date(entry.scheduledFor).getTime(),
+    actionTitles: actionTitles(),
+  }));
+  postToServiceWorker({ type: 'show-doses', doses }).catch(e => console.error("Failed to show notification:", e));
+};
+
+// Hands the next day's doses to the service worker so they can be shown
+// even when no tab is open (where the browser supports notification triggers)
+export const scheduleDoseNotifications = (reminders: Reminder[], profiles: Profile[], now: Date) => {
+  const until = new Date(now.getTime() + SCHEDULE_AHEAD_MS);
+  const doses: DoseNotification[] = [];
+  reminders.forEach(reminder => {
+    occurrencesBetween(reminder.schedule, now, until, MAX_SCHEDULED_NOTIFICATIONS).forEach(occurrence => {
+      doses.push({
+        id: doseEntryId(reminder.id, occurrence),
+        title: t('notification.title'),
+        body: doseMessage(reminder.medicineName, doseOn(reminder.schedule, occurrence), doseOwnerName(profiles, reminder.profileId)),
+        timestamp: occurrence.getTime(),
+        actionTitles: actionTitles(),
+      });
+    });
+  });
+  doses.sort((a, b) => a.timestamp - b.timestamp);
+  postToServiceWorker({ type: 'schedule-doses', doses: doses.slice(0, MAX_SCHEDULED_NOTIFICATIONS) })
+    .catch(e => console.error("Failed to schedule notifications:", e));
+};
+
+const toDoseAction = (action: string | null): DoseAction | null => {
+  if (action === 'taken') return { type: 'taken' };
+  if (action === 'snooze') return { type: 'snooze', minutes: NOTIFICATION_SNOOZE_MINUTES };
+  return null;
+};
+
+// Calls back with Taken/Snooze presses from system notifications. A null
+// action means the notification body was clicked, which only opens the app.
+export const subscribeToDoseActions = (handler: (entryId: string, action: DoseAction | null) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent<DoseActionMessage>) => {
+    if (event.data && event.data.type === 'dose-action') {
+      handler(event.data.entryId, event.data.action);
+    }
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+// When a notification action opens a fresh window, the service worker
+// passes the action along in the URL instead
+export const takeDoseActionFromUrl = () => {
+  const params = new URLSearchParams(window.location.search);
+  const entryId = params.get('dose');
+  if (!entryId) return null;
+  return { entryId, action: toDoseAction(params.get('doseAction')) };
+};
@@ -0,0 +1,125 @@
+import { downloadBlob } from './exportFormats';
+
+// Minimal PDF writer for the printable sheets: A4 pages with Helvetica text,
+// lines and rectangles. Coordinates are in points from the top-left corner.
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// Average Helvetica glyph width as a share of the font size, used to wrap text
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// Characters outside Latin-1 that Helvetica's WinAnsi encoding still has
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '•': 0x95, // bullet
+  '–': 0x96, // en dash
+  '—': 0x97, // em dash
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '…': 0x85, // ellipsis
+};
+
+const encodeText = (text: string) =>
+  Array.from(text).map(char => {
+    const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    if (code > 0xff || char.length > 1) return '?';
+    if (code < 0x20 || code > 0x7e) return `\\${code.toString(8).padStart(3, '0')}`;
+    return char;
+  }).join('');
+
+const number = (value: number) => (Math.round(value * 100) / 100).toString();
+
+export const textWidth = (text: string, size: number) => text.length * size * AVERAGE_CHAR_WIDTH;
+
+// Splits text into lines that fit `maxWidth` at the given font size
+export const wrapText = (text: string, maxWidth: number, size: number) => {
+  const maxChars = Math.max(1, Math.floor(maxWidth / (size * AVERAGE_CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    while (word.length > maxChars) {
+      if (line) lines.push(line);
+      lines.push(word.slice(0, maxChars));
+      word = word.slice(maxChars);
+      line = '';
+    }
+    if (!line) line = word;
+    else if (line.length + 1 + word.length <= maxChars) line += ` ${word}`;
+    else {
+      lines.push(line);
+      line = word;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  gray?: number; // 0 = black, 1 = white
+}
+
+export const createPdfDocument = () => {
+  const pages: string[][] = [];
+  let current: string[] = [];
+  pages.push(current);
+
+  const y = (top: number) => PAGE_HEIGHT - top;
+
+  return {
+    addPage: () => {
+      current = [];
+      pages.push(current);
+    },
+    // `top` is the text baseline
+    text: (x: number, top: number, text: string, { size = 11, bold = false, gray = 0 }: TextOptions = {}) => {
+      current.push(`${number(gray)} g BT /${bold ? 'F2' : 'F1'} ${number(size)} Tf ${number(x)} ${number(y(top))} Td (${encodeText(text)}) Tj ET`);
+    },
+    line: (x1: number, top1: number, x2: number, top2: number, width = 0.5) => {
+      current.push(`0 G ${number(width)} w ${number(x1)} ${number(y(top1))} m ${number(x2)} ${number(y(top2))} l S`);
+    },
+    rect: (x: number, top: number, width: number, height: number, { fill, stroke = true }: { fill?: number; stroke?: boolean } = {}) => {
+      const path = `${number(x)} ${number(y(top + height))} ${number(width)} ${number(height)} re`;
+      if (fill !== undefined) current.push(`${number(fill)} g ${path} f`);
+      if (stroke) current.push(`0 G 0.5 w ${path} S`);
+    },
+    toBlob: () => {
+      // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page and its content per page
+      const objects: string[] = [];
+      const pageIds = pages.map((_, i) => 5 + i * 2);
+      objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+      objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+      objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+      pages.forEach((commands, i) => {
+        const content = commands.join('\n');
+        objects.push(
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+        );
+        objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      });
+
+      // Everything is ASCII, so string length equals byte offset
+      let output = '%PDF-1.4\n';
+      const offsets = objects.map((object, i) => {
+        const offset = output.length;
+        output += `${i + 1} 0 obj\n${object}\nendobj\n`;
+        return offset;
+      });
+      const xref = output.length;
+      output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+      output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+      output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+      return new Blob([output], { type: 'application/pdf' });
+    },
+  };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
+
+export const downloadPdf = (doc: PdfDocument, filename: string) => downloadBlob(filename, doc.toBlob());
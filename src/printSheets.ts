@@ -0,0 +1,148 @@
+import { createPdfDocument, PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, textWidth, wrapText } from './pdf';
+import { Timetable } from './timetable';
+import { Medicine } from './types';
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const LINE_HEIGHT = 1.35;
+
+// Writes wrapped lines top to bottom, starting a new page when one fills up
+const createFlow = (doc: PdfDocument) => {
+  let top = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (top + height > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      top = MARGIN;
+    }
+  };
+
+  return {
+    paragraph: (text: string, { size = 11, bold = false, gray = 0, indent = 0 } = {}) => {
+      wrapText(text, CONTENT_WIDTH - indent, size).forEach(line => {
+        ensureSpace(size * LINE_HEIGHT);
+        top += size * LINE_HEIGHT;
+        doc.text(MARGIN + indent, top, line, { size, bold, gray });
+      });
+    },
+    bullets: (items: string[], size = 11) => {
+      items.forEach(item => {
+        wrapText(item, CONTENT_WIDTH - 14, size).forEach((line, i) => {
+          ensureSpace(size * LINE_HEIGHT);
+          top += size * LINE_HEIGHT;
+          if (i === 0) doc.text(MARGIN + 2, top, '•', { size });
+          doc.text(MARGIN + 14, top, line, { size });
+        });
+      });
+    },
+    gap: (height: number) => {
+      top += height;
+    },
+    rule: () => {
+      ensureSpace(8);
+      top += 6;
+      doc.line(MARGIN, top, PAGE_WIDTH - MARGIN, top);
+    },
+  };
+};
+
+export const medicineFactSheetPdf = (medicine: Medicine, printedOn: Date) => {
+  const doc = createPdfDocument();
+  const flow = createFlow(doc);
+
+  flow.paragraph(medicine.name, { size: 22, bold: true });
+  flow.paragraph(`Medicine fact sheet, printed ${printedOn.toLocaleDateString()}`, { size: 9, gray: 0.4 });
+  flow.rule();
+  flow.gap(6);
+
+  const classes: [string, string][] = [
+    ['Therapeutic class', medicine["Therapeutic Class"]],
+    ['Action class', medicine["Action Class"]],
+    ['Chemical class', medicine["Chemical Class"]],
+    ['Habit forming', medicine["Habit Forming"]],
+  ];
+  classes.forEach(([label, value]) => flow.paragraph(`${label}: ${value || 'Not available'}`, { size: 10 }));
+
+  const sections: [string, string[]][] = [
+    ['Uses', medicine.uses],
+    ['Side effects', medicine.sideEffects],
+    ['Substitutes', medicine.substitutes],
+  ];
+  sections.forEach(([title, items]) => {
+    flow.gap(12);
+    flow.paragraph(title, { size: 14, bold: true });
+    flow.gap(2);
+    if (items && items.length) flow.bullets(items);
+    else flow.paragraph('No information available.', { gray: 0.4 });
+  });
+
+  flow.gap(18);
+  flow.paragraph('For information only. Follow the advice of your doctor or pharmacist.', { size: 9, gray: 0.4 });
+  return doc;
+};
+
+const ROW_HEIGHT = 34;
+const HEADER_HEIGHT = 24;
+const MEDICINE_COLUMN_WIDTH = 170;
+// Beyond this many times a day the grid is split across pages
+const MAX_SLOTS_PER_PAGE = 6;
+
+const centered = (doc: PdfDocument, x: number, width: number, top: number, text: string, size: number, bold = false) =>
+  doc.text(x + Math.max(2, (width - textWidth(text, size)) / 2), top, text, { size, bold });
+
+// Daily timetable grid: one row per medicine, one column per dose time, with
+// an empty tick box beside each dose
+export const timetablePdf = (title: string, timetable: Timetable, printedOn: Date) => {
+  const doc = createPdfDocument();
+  const slotPages: string[][] = [];
+  for (let i = 0; i < Math.max(1, timetable.slots.length); i += MAX_SLOTS_PER_PAGE) {
+    slotPages.push(timetable.slots.slice(i, i + MAX_SLOTS_PER_PAGE));
+  }
+  const rowsPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2 - 60 - HEADER_HEIGHT) / ROW_HEIGHT);
+
+  let firstPage = true;
+  slotPages.forEach(slots => {
+    for (let start = 0; start < Math.max(1, timetable.rows.length); start += rowsPerPage) {
+      if (!firstPage) doc.addPage();
+      firstPage = false;
+
+      doc.text(MARGIN, MARGIN + 18, title, { size: 18, bold: true });
+      doc.text(MARGIN, MARGIN + 34, `Printed ${printedOn.toLocaleDateString()}. Tick each dose as you take it.`, { size: 9, gray: 0.4 });
+
+      const gridTop = MARGIN + 60;
+      const slotWidth = (CONTENT_WIDTH - MEDICINE_COLUMN_WIDTH) / Math.max(1, slots.length);
+      const rows = timetable.rows.slice(start, start + rowsPerPage);
+
+      doc.rect(MARGIN, gridTop, CONTENT_WIDTH, HEADER_HEIGHT, { fill: 0.9 });
+      doc.text(MARGIN + 6, gridTop + 16, 'Medicine', { size: 10, bold: true });
+      slots.forEach((slot, i) => {
+        centered(doc, MARGIN + MEDICINE_COLUMN_WIDTH + i * slotWidth, slotWidth, gridTop + 16, slot, 10, true);
+      });
+
+      rows.forEach((row, r) => {
+        const rowTop = gridTop + HEADER_HEIGHT + r * ROW_HEIGHT;
+        doc.rect(MARGIN, rowTop, CONTENT_WIDTH, ROW_HEIGHT);
+        const name = wrapText(row.reminder.medicineName, MEDICINE_COLUMN_WIDTH - 12, 10)[0] || '';
+        doc.text(MARGIN + 6, rowTop + 14, name, { size: 10, bold: true });
+        doc.text(MARGIN + 6, rowTop + 27, row.days, { size: 8, gray: 0.4 });
+        slots.forEach((slot, i) => {
+          const cellLeft = MARGIN + MEDICINE_COLUMN_WIDTH + i * slotWidth;
+          const dose = row.cells[slot];
+          if (!dose) return;
+          doc.rect(cellLeft + 6, rowTop + (ROW_HEIGHT - 10) / 2, 10, 10);
+          doc.text(cellLeft + 22, rowTop + ROW_HEIGHT / 2 + 3, dose, { size: 9 });
+        });
+      });
+
+      const gridBottom = gridTop + HEADER_HEIGHT + rows.length * ROW_HEIGHT;
+      doc.line(MARGIN + MEDICINE_COLUMN_WIDTH, gridTop, MARGIN + MEDICINE_COLUMN_WIDTH, gridBottom);
+      slots.forEach((_, i) => {
+        if (i === 0) return;
+        const x = MARGIN + MEDICINE_COLUMN_WIDTH + i * slotWidth;
+        doc.line(x, gridTop, x, gridBottom);
+      });
+      if (!rows.length) doc.text(MARGIN + 6, gridTop + HEADER_HEIGHT + 16, 'No medications scheduled.', { size: 10, gray: 0.4 });
+    }
+  });
+  return doc;
+};
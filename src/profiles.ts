@@ -0,0 +1,78 @@
+import { MessageKey, t } from './i18n';
+import { AgeGroup, DoseLogEntry, Profile, Reminder } from './types';
+
+const ACTIVE_PROFILE_KEY = 'medicineActiveProfile';
+
+export const AGE_GROUPS: { value: AgeGroup; label: MessageKey }[] = [
+  { value: 'infant', label: 'ageGroup.infant' },
+  { value: 'child', label: 'ageGroup.child' },
+  { value: 'teen', label: 'ageGroup.teen' },
+  { value: 'adult', label: 'ageGroup.adult' },
+  { value: 'senior', label: 'ageGroup.senior' },
+];
+
+export const ageGroupLabel = (ageGroup: AgeGroup) => {
+  const group = AGE_GROUPS.find(({ value }) => value === ageGroup);
+  return group ? t(group.label) : ageGroup;
+};
+
+export const createProfile = (name: string, ageGroup: AgeGroup = 'adult'): Profile => ({
+  id: Date.now(),
+  name,
+  ageGroup,
+  allergies: [],
+  conditions: [],
+  pregnant: false,
+  avoidHabitForming: false,
+  notes: '',
+  favourites: [],
+});
+
+// Every device starts out with this profile, so there's always someone to
+// add reminders for
+export const createDefaultProfile = () => createProfile('Me');
+
+// A default profile nobody has edited: nothing but its id tells it apart
+// from another device's
+export const isUntouchedDefaultProfile = (profile: Profile) => {
+  const { id, ...defaults } = createDefaultProfile();
+  return Object.keys(profile).length === Object.keys(defaults).length + 1 &&
+    (Object.keys(defaults) as (keyof typeof defaults)[]).every(key => JSON.stringify(profile[key]) === JSON.stringify(defaults[key]));
+};
+
+export const readActiveProfileId = (profiles: Profile[]) => {
+  const stored = Number(localStorage.getItem(ACTIVE_PROFILE_KEY));
+  return profiles.some(profile => profile.id === stored) ? stored : profiles[0].id;
+};
+
+export const writeActiveProfileId = (id: number) => {
+  try {
+    localStorage.setItem(ACTIVE_PROFILE_KEY, String(id));
+  } catch (e) {
+    console.error("Failed to save active profile to localStorage:", e);
+  }
+};
+
+export const remindersFor = (reminders: Reminder[], profileId: number) =>
+  reminders.filter(reminder => reminder.profileId === profileId);
+
+export const doseLogFor = (log: DoseLogEntry[], profileId: number) =>
+  log.filter(entry => entry.profileId === profileId);
+
+// Name to put in reminder texts. With a single profile there's no doubt
+// whose dose it is, so it's left out.
+export const doseOwnerName = (profiles: Profile[], profileId: number) => {
+  if (profiles.length < 2) return undefined;
+  const owner = profiles.find(profile => profile.id === profileId);
+  return owner ? owner.name : undefined;
+};
+
+export const toggleFavourite = (profile: Profile, medicineId: number): Profile => ({
+  ...profile,
+  favourites: profile.favourites.includes(medicineId)
+    ? profile.favourites.filter(id => id !== medicineId)
+    : [...profile.favourites, medicineId],
+});
+
+export const parseList = (text: string) =>
+  Array.from(new Set(text.split(',').map(item => item.trim()).filter(Boolean)));
@@ -0,0 +1,124 @@
+import React, { useEffect, useState } from 'react';
+
+export type Route =
+  | { page: 'home' }
+  | { page: 'findMedicine' }
+  | { page: 'symptoms' }
+  | { page: 'sideEffects' }
+  | { page: 'browse'; view: 'az' | 'classes'; therapeuticClass?: string; actionClass?: string }
+  | { page: 'myMedications'; view: 'reminders' | 'history' }
+  | { page: 'medicineDetail'; medicineId: number }
+  | { page: 'medicineFactSheet'; medicineId: number }
+  | { page: 'timetable' }
+  | { page: 'compare'; medicineIds: number[] }
+  | { page: 'profiles' }
+  | { page: 'notFound' };
+
+export const paths = {
+  home: '/',
+  search: '/search',
+  symptoms: '/symptoms',
+  sideEffects: '/side-effects',
+  browse: '/browse',
+  browseClasses: (therapeuticClass?: string, actionClass?: string) => {
+    const params = new URLSearchParams();
+    if (therapeuticClass) params.set('therapeutic', therapeuticClass);
+    if (actionClass) params.set('action', actionClass);
+    const query = params.toString();
+    return query ? `/browse/classes?${query}` : '/browse/classes';
+  },
+  medications: '/medications',
+  medicationHistory: '/medications/history',
+  medicationTimetable: '/medications/print',
+  medicine: (id: number) => `/medicine/${id}`,
+  medicineFactSheet: (id: number) => `/medicine/${id}/print`,
+  compare: (ids: number[]) => `/compare?ids=${ids.join(',')}`,
+  profiles: '/profiles',
+};
+
+// Fired on pushState/replaceState, which unlike back/forward don't emit popstate
+const LOCATION_CHANGE_EVENT = 'locationchange';
+
+export const parseRoute = (pathname: string, search = ''): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+  if (path === paths.home) return { page: 'home' };
+  if (path === paths.search) return { page: 'findMedicine' };
+  if (path === paths.symptoms) return { page: 'symptoms' };
+  if (path === paths.sideEffects) return { page: 'sideEffects' };
+  if (path === paths.browse) return { page: 'browse', view: 'az' };
+  if (path === '/browse/classes') {
+    const params = new URLSearchParams(search);
+    return {
+      page: 'browse',
+      view: 'classes',
+      therapeuticClass: params.get('therapeutic') || undefined,
+      actionClass: params.get('action') || undefined,
+    };
+  }
+  if (path === paths.medications) return { page: 'myMedications', view: 'reminders' };
+  if (path === paths.medicationHistory) return { page: 'myMedications', view: 'history' };
+  if (path === paths.medicationTimetable) return { page: 'timetable' };
+  if (path === paths.profiles) return { page: 'profiles' };
+  if (path === '/compare') {
+    const ids = (new URLSearchParams(search).get('ids') || '')
+      .split(',')
+      .filter(id => /^\d+$/.test(id))
+      .map(Number);
+    return { page: 'compare', medicineIds: Array.from(new Set(ids)) };
+  }
+  const medicineMatch = path.match(/^\/medicine\/(\d+)$/);
+  if (medicineMatch) return { page: 'medicineDetail', medicineId: Number(medicineMatch[1]) };
+  const factSheetMatch = path.match(/^\/medicine\/(\d+)\/print$/);
+  if (factSheetMatch) return { page: 'medicineFactSheet', medicineId: Number(factSheetMatch[1]) };
+  return { page: 'notFound' };
+};
+
+export const navigate = (to: string, { replace = false }: { replace?: boolean } = {}) => {
+  const current = window.location.pathname + window.location.search;
+  if (to === current) return;
+  if (replace) {
+    window.history.replaceState(null, '', to);
+  } else {
+    window.history.pushState(null, '', to);
+    window.scrollTo(0, 0);
+  }
+  window.dispatchEvent(new Event(LOCATION_CHANGE_EVENT));
+};
+
+const currentLocation = () => ({ pathname: window.location.pathname, search: window.location.search });
+
+export const useLocation = () => {
+  const [location, setLocation] = useState(currentLocation);
+
+  useEffect(() => {
+    const handleChange = () => setLocation(currentLocation());
+    window.addEventListener('popstate', handleChange);
+    window.addEventListener(LOCATION_CHANGE_EVENT, handleChange);
+    return () => {
+      window.removeEventListener('popstate', handleChange);
+      window.removeEventListener(LOCATION_CHANGE_EVENT, handleChange);
+    };
+  }, []);
+
+  return location;
+};
+
+type LinkProps = Omit<React.AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string };
+
+// Anchor that navigates client-side but still supports opening in a new tab
+export function Link({ to, onClick, children, ...props }: LinkProps) {
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (onClick) onClick(e);
+    if (e.defaultPrevented || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return (
+    <a href={to} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+}
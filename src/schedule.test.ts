@@ -0,0 +1,98 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { doseOn, findDueDoses, nextOccurrence, occurrencesBetween } from './schedule';
+import { Reminder, ReminderSchedule } from './types';
+
+// Run with: node test.js (or just this file: node -r ./pipeline/register.js src/schedule.test.ts)
+
+// Schedules are in local time; pin a zone with daylight saving so the
+// clock-change cases mean the same thing on every machine. In 2026 the UK
+// moves to summer time on 29 March.
+process.env.TZ = 'Europe/London';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const local = (month: number, day: number, hours = 0, minutes = 0) => new Date(2026, month - 1, day, hours, minutes);
+
+const schedule = (overrides: Partial<ReminderSchedule>): ReminderSchedule => ({
+  times: ['09:00'],
+  recurrence: { type: 'daily' },
+  startDate: '2026-01-01',
+  ...overrides,
+});
+
+const reminder = (overrides: Partial<Reminder> = {}): Reminder => ({
+  id: 1,
+  profileId: 1,
+  medicineName: 'Dolo 650 Tablet',
+  schedule: schedule({}),
+  ...overrides,
+});
+
+// Local "D HH:MM" labels, easier to read in failures than ISO strings
+const labels = (dates: Date[]) =>
+  dates.map(date => `${date.getDate()} ${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`);
+
+test('daily doses keep their local time across the clock change', () => {
+  const occurrences = occurrencesBetween(schedule({ times: ['09:00', '21:00'] }), local(3, 28), local(3, 30, 23));
+  assert.deepStrictEqual(labels(occurrences), ['28 09:00', '28 21:00', '29 09:00', '29 21:00', '30 09:00', '30 21:00']);
+  assert.deepStrictEqual(occurrences.map(date => date.toISOString().slice(11, 16)), ['09:00', '21:00', '08:00', '20:00', '08:00', '20:00']);
+});
+
+test('interval doses are anchored to the first time on the start date', () => {
+  // Times out of order: the earliest one is the anchor
+  const everyEightHours = schedule({ times: ['22:00', '06:00'], recurrence: { type: 'interval', hours: 8 } });
+  assert.deepStrictEqual(labels(occurrencesBetween(everyEightHours, local(1, 5, 7), local(1, 6, 7))), ['5 14:00', '5 22:00', '6 06:00']);
+  assert.deepStrictEqual(occurrencesBetween(everyEightHours, local(1, 1), local(1, 1, 5, 59)), []);
+});
+
+test('interval doses stay the same number of hours apart across the clock change', () => {
+  const everyEightHours = schedule({ times: ['06:00'], recurrence: { type: 'interval', hours: 8 } });
+  const occurrences = occurrencesBetween(everyEightHours, local(3, 28, 12), local(3, 29, 23));
+  assert.deepStrictEqual(labels(occurrences), ['28 14:00', '28 22:00', '29 07:00', '29 15:00', '29 23:00']);
+  occurrences.slice(1).forEach((occurrence, index) => {
+    assert.strictEqual(occurrence.getTime() - occurrences[index].getTime(), 8 * HOUR_MS);
+  });
+});
+
+test('weekly doses fall on the chosen weekdays only', () => {
+  // 1 January 2026 was a Thursday; Monday and Wednesday doses
+  const weekly = schedule({ recurrence: { type: 'weekly', days: [1, 3] } });
+  assert.deepStrictEqual(labels(occurrencesBetween(weekly, local(1, 1), local(1, 14, 23))), ['5 09:00', '7 09:00', '12 09:00', '14 09:00']);
+});
+
+test('every-N-days doses count from the start date, also across the clock change', () => {
+  const everyThirdDay = schedule({ startDate: '2026-03-24', recurrence: { type: 'everyNDays', days: 3 } });
+  assert.deepStrictEqual(labels(occurrencesBetween(everyThirdDay, local(3, 20), local(4, 3, 23))), ['24 09:00', '27 09:00', '30 09:00', '2 09:00']);
+});
+
+test('a taper lowers the dose step by step and ends the schedule when it reaches zero', () => {
+  const tapered = schedule({ dose: { amount: 2, unit: 'tablet(s)' }, taper: { decreaseBy: 0.5, everyDays: 2 } });
+  assert.deepStrictEqual([1, 2, 3, 7].map(day => doseOn(tapered, local(1, day))!.amount), [2, 2, 1.5, 0.5]);
+  assert.deepStrictEqual(labels(occurrencesBetween(tapered, local(1, 6), local(1, 12))), ['6 09:00', '7 09:00', '8 09:00']);
+  assert.strictEqual(nextOccurrence(tapered, local(1, 8, 10)), null);
+});
+
+test('a taper in fractional steps gives round amounts', () => {
+  const tapered = schedule({ dose: { amount: 1, unit: 'ml' }, taper: { decreaseBy: 0.1, everyDays: 1 } });
+  assert.strictEqual(doseOn(tapered, local(1, 8))!.amount, 0.3);
+});
+
+test('the end date is the last day with doses', () => {
+  const ending = schedule({ endDate: '2026-01-03' });
+  assert.deepStrictEqual(labels(occurrencesBetween(ending, local(1, 1), local(1, 10))), ['1 09:00', '2 09:00', '3 09:00']);
+  assert.strictEqual(nextOccurrence(ending, local(1, 3, 10)), null);
+});
+
+test('a due dose fires once, even when the timer runs late', () => {
+  const daily = reminder({ schedule: schedule({ times: ['09:00', '09:30'] }) });
+  const graceMs = HOUR_MS;
+  // Late timer: only the latest occurrence in the grace window fires
+  const [due] = findDueDoses([daily], local(1, 5, 9, 45), graceMs);
+  assert.deepStrictEqual(labels([due.occurrence]), ['5 09:30']);
+  // Already triggered: nothing fires again
+  const triggered = { ...daily, lastTriggered: due.occurrence.toISOString() };
+  assert.deepStrictEqual(findDueDoses([triggered], local(1, 5, 9, 50), graceMs), []);
+  // Too late to alert
+  assert.deepStrictEqual(findDueDoses([daily], local(1, 5, 11), graceMs), []);
+});
@@ -0,0 +1,222 @@
+import { doseLabel, formatDate, formatTime, MessageKey, t, weekdayName } from './i18n';
+import { Dose, Recurrence, Reminder, ReminderSchedule } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// How far ahead we look for the next dose before giving up
+const MAX_LOOKAHEAD_DAYS = 400;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DOSE_UNITS = ['tablet(s)', 'capsule(s)', 'ml', 'mg', 'drop(s)', 'puff(s)', 'unit(s)'];
+
+const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+
+// Local calendar date as YYYY-MM-DD
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Whole calendar days from a to b; rounding absorbs DST shifts
+const daysBetween = (a: Date, b: Date) => Math.round((startOfDay(b).getTime() - startOfDay(a).getTime()) / DAY_MS);
+
+export const atTime = (day: Date, time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes, 0, 0);
+};
+
+const sortedTimes = (schedule: ReminderSchedule) => [...schedule.times].sort();
+
+export const createDefaultSchedule = (): ReminderSchedule => ({
+  times: ['09:00'],
+  recurrence: { type: 'daily' },
+  startDate: toDateKey(new Date()),
+  dose: { amount: 1, unit: DOSE_UNITS[0] },
+});
+
+// Dose due on a given day, after applying any taper; undefined when the
+// schedule carries no dose information
+export const doseOn = (schedule: ReminderSchedule, day: Date): Dose | undefined => {
+  if (!schedule.dose) return undefined;
+  const { taper } = schedule;
+  if (!taper || taper.everyDays <= 0) return schedule.dose;
+  const steps = Math.floor(daysBetween(parseDateKey(schedule.startDate), day) / taper.everyDays);
+  const amount = Math.max(0, schedule.dose.amount - steps * taper.decreaseBy);
+  // Avoid float noise such as 0.30000000000000004 from fractional steps
+  return { ...schedule.dose, amount: Math.round(amount * 100) / 100 };
+};
+
+const isWithinDates = (schedule: ReminderSchedule, day: Date) => {
+  const start = parseDateKey(schedule.startDate);
+  if (day < start) return false;
+  if (schedule.endDate && day > parseDateKey(schedule.endDate)) return false;
+  // A finished taper ends the schedule
+  const dose = doseOn(schedule, day);
+  return !(schedule.taper && dose && dose.amount <= 0);
+};
+
+const matchesRecurrence = (recurrence: Recurrence, startDate: string, day: Date) => {
+  switch (recurrence.type) {
+    case 'weekly':
+      return recurrence.days.includes(day.getDay());
+    case 'everyNDays':
+      return daysBetween(parseDateKey(startDate), day) % Math.max(1, recurrence.days) === 0;
+    default:
+      return true;
+  }
+};
+
+// Occurrences of an interval schedule strictly after `from`, up to `limit`
+const intervalOccurrences = (schedule: ReminderSchedule, from: Date, to: Date, limit: number) => {
+  if (schedule.recurrence.type !== 'interval' || !schedule.times.length) return [];
+  const step = Math.max(1, schedule.recurrence.hours) * HOUR_MS;
+  const anchor = atTime(parseDateKey(schedule.startDate), sortedTimes(schedule)[0]).getTime();
+  let k = Math.max(0, Math.floor((from.getTime() - anchor) / step) + 1);
+  const occurrences: Date[] = [];
+  for (; occurrences.length < limit; k++) {
+    const occurrence = new Date(anchor + k * step);
+    if (occurrence > to || !isWithinDates(schedule, startOfDay(occurrence))) break;
+    occurrences.push(occurrence);
+  }
+  return occurrences;
+};
+
+// Dose times in the window (from, to], oldest first
+export const occurrencesBetween = (schedule: ReminderSchedule, from: Date, to: Date, limit = Infinity): Date[] => {
+  if (schedule.recurrence.type === 'interval') {
+    return intervalOccurrences(schedule, from, to, limit);
+  }
+  const occurrences: Date[] = [];
+  const lastDay = startOfDay(to);
+  let day = startOfDay(from);
+  const firstDay = parseDateKey(schedule.startDate);
+  if (day < firstDay) day = firstDay;
+  for (let i = 0; day <= lastDay && i <= MAX_LOOKAHEAD_DAYS; i++, day = addDays(day, 1)) {
+    if (schedule.endDate && day > parseDateKey(schedule.endDate)) break;
+    if (!isWithinDates(schedule, day) || !matchesRecurrence(schedule.recurrence, schedule.startDate, day)) continue;
+    for (const time of sortedTimes(schedule)) {
+      const occurrence = atTime(day, time);
+      if (occurrence > from && occurrence <= to) {
+        occurrences.push(occurrence);
+        if (occurrences.length >= limit) return occurrences;
+      }
+    }
+  }
+  return occurrences;
+};
+
+export const nextOccurrence = (schedule: ReminderSchedule, after: Date): Date | null => {
+  const horizon = new Date(after.getTime() + MAX_LOOKAHEAD_DAYS * DAY_MS);
+  return occurrencesBetween(schedule, after, horizon, 1)[0] || null;
+};
+
+export const formatDose = (dose: Dose) => `${dose.amount} ${dose.unit}`;
+
+const formatScheduleTime = (time: string) => formatTime(atTime(new Date(), time));
+
+// In the active language; see i18n
+export const describeSchedule = (schedule: ReminderSchedule) => {
+  const { recurrence } = schedule;
+  const times = sortedTimes(schedule).map(formatScheduleTime).join(', ');
+  let when: string;
+  switch (recurrence.type) {
+    case 'interval':
+      when = t('schedule.interval', { count: recurrence.hours, times });
+      break;
+    case 'weekly':
+      when = t('schedule.weekly', { days: recurrence.days.slice().sort().map(day => weekdayName(day)).join('/'), times });
+      break;
+    case 'everyNDays':
+      when = t('schedule.everyNDays', { count: recurrence.days, times });
+      break;
+    default:
+      when = t('schedule.daily', { times });
+  }
+  const parts = [when];
+  if (schedule.dose) {
+    parts.push(doseLabel(schedule.dose));
+  }
+  if (schedule.taper) {
+    parts.push(t('schedule.tapering', { amount: schedule.taper.decreaseBy, count: schedule.taper.everyDays }));
+  }
+  if (schedule.endDate) {
+    parts.push(t('schedule.until', { date: formatDate(parseDateKey(schedule.endDate)) }));
+  }
+  return parts.join(' · ');
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Reminders saved before schedules existed only had a single daily `time`.
+// Anything not in that shape is returned as is for storage to validate.
+export const upgradeLegacyReminder = (stored: unknown): unknown => {
+  if (!isObject(stored) || stored.schedule) return stored;
+  const { time, ...rest } = stored;
+  return {
+    ...rest,
+    schedule: {
+      times: [typeof time === 'string' && time ? time : '09:00'],
+      recurrence: { type: 'daily' },
+      // Ids were creation timestamps, so they double as the start date
+      startDate: toDateKey(new Date(typeof stored.id === 'number' ? stored.id : Date.now())),
+    },
+  };
+};
+
+// Returns the message for a problem with the schedule, or null when it's usable
+export const validateSchedule = (schedule: ReminderSchedule): MessageKey | null => {
+  if (!schedule.times.length || schedule.times.some(time => !/^\d{2}:\d{2}$/.test(time))) {
+    return 'schedule.errorTimes';
+  }
+  if (schedule.recurrence.type === 'weekly' && !schedule.recurrence.days.length) {
+    return 'schedule.errorWeekdays';
+  }
+  if (schedule.endDate && schedule.endDate < schedule.startDate) {
+    return 'schedule.errorEndDate';
+  }
+  return null;
+};
+
+export interface DueDose {
+  reminder: Reminder;
+  occurrence: Date;
+  dose?: Dose;
+}
+
+// Latest not-yet-triggered occurrence of each reminder within the last
+// `graceMs`, so a timer that fires late (e.g. in a throttled tab) still alerts
+export const findDueDoses = (reminders: Reminder[], now: Date, graceMs: number): DueDose[] => {
+  const due: DueDose[] = [];
+  reminders.forEach(reminder => {
+    let from = new Date(now.getTime() - graceMs);
+    if (reminder.lastTriggered) {
+      const lastTriggered = new Date(reminder.lastTriggered);
+      if (lastTriggered > from) from = lastTriggered;
+    }
+    const occurrences = occurrencesBetween(reminder.schedule, from, now);
+    const occurrence = occurrences[occurrences.length - 1];
+    if (occurrence) {
+      due.push({ reminder, occurrence, dose: doseOn(reminder.schedule, occurrence) });
+    }
+  });
+  return due;
+};
+
+// Paused reminders keep their settings but don't fire
+export const activeReminders = (reminders: Reminder[]) => reminders.filter(reminder => !reminder.pausedAt);
+
+export const nextDoseTime = (reminders: Reminder[], after: Date): Date | null =>
+  reminders.reduce<Date | null>((earliest, reminder) => {
+    const next = nextOccurrence(reminder.schedule, after);
+    return next && (!earliest || next < earliest) ? next : earliest;
+  }, null);
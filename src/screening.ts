@@ -0,0 +1,117 @@
+import { MessageKey, MessageParams } from './i18n';
+import { Medicine, MedicineSummary, Profile } from './types';
+
+export type ScreeningReason = 'allergy' | 'condition' | 'pregnancy' | 'habitForming';
+
+export interface ScreeningConflict {
+  reason: ScreeningReason;
+  // Translated when shown, so the conflict follows the current language
+  message: MessageKey;
+  params: MessageParams;
+}
+
+// Side effects worth flagging for common conditions. Conditions not listed
+// here are matched against the side effects by their own name.
+const CONDITION_SIDE_EFFECTS: Record<string, string[]> = {
+  'asthma': ['bronchospasm', 'wheezing', 'breathing difficulty', 'shortness of breath'],
+  'diabetes': ['blood sugar', 'hypoglycemia', 'hyperglycemia'],
+  'hypertension': ['increased blood pressure', 'high blood pressure'],
+  'high blood pressure': ['increased blood pressure', 'high blood pressure'],
+  'heart disease': ['palpitations', 'arrhythmia', 'irregular heart', 'chest pain', 'heart failure'],
+  'kidney disease': ['kidney', 'renal'],
+  'liver disease': ['liver', 'hepatic', 'hepatitis', 'hepatotoxicity', 'jaundice'],
+  'epilepsy': ['seizure', 'convulsion'],
+  'glaucoma': ['blurred vision', 'eye pressure', 'glaucoma'],
+  'depression': ['depression', 'suicidal', 'mood changes'],
+  'stomach ulcer': ['stomach ulcer', 'gastrointestinal bleeding', 'stomach bleeding'],
+};
+
+// Chemical/action classes generally avoided during pregnancy
+const PREGNANCY_CAUTION_CLASSES = [
+  'retinoid',
+  'tetracycline',
+  'fluoroquinolone',
+  'ace inhibitor',
+  'angiotensin',
+  'statin',
+  'hmg coa reductase inhibitor',
+  'coumarin',
+  'vitamin k antagonist',
+  'valproate',
+  'methotrexate',
+  'androgen',
+];
+
+const normalize = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+// "Penicillins" should still match a "Penicillin" allergy and vice versa.
+// Both sides go through the same rule, so it only has to be consistent, not
+// grammatical; it just mustn't cut words down to stems that match others.
+const singular = (word: string) => {
+  if (word.length <= 3 || /(ss|us|is)$/.test(word)) return word;
+  if (/(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+};
+
+const words = (value: string) => normalize(value).split(/[^\p{L}\p{N}]+/u).filter(Boolean).map(singular);
+
+// Whether `text` contains `term` as whole words
+const mentions = (text: string, term: string) => {
+  const needle = words(term);
+  if (needle.join(' ').length <= 2) return false;
+  const haystack = words(text);
+  return haystack.some((_, start) => needle.every((word, offset) => haystack[start + offset] === word));
+};
+
+const hasSideEffects = (medicine: Medicine | MedicineSummary): medicine is Medicine => 'sideEffects' in medicine;
+
+// Conflicts between a medicine and a profile's allergies, conditions and
+// preferences. Summaries have no side effects, so conditions are only
+// screened once the full record is loaded.
+export const screenMedicine = (medicine: Medicine | MedicineSummary, profile: Profile): ScreeningConflict[] => {
+  const conflicts: ScreeningConflict[] = [];
+  const classFields = [medicine["Chemical Class"], medicine["Action Class"], medicine.name];
+
+  profile.allergies.forEach(allergy => {
+    if (classFields.some(field => mentions(field, allergy))) {
+      conflicts.push({
+        reason: 'allergy',
+        message: 'screening.allergy',
+        params: { name: profile.name, allergy, match: medicine["Chemical Class"] || medicine.name },
+      });
+    }
+  });
+
+  if (hasSideEffects(medicine)) {
+    profile.conditions.forEach(condition => {
+      const keywords = CONDITION_SIDE_EFFECTS[normalize(condition)] || [condition];
+      const matched = medicine.sideEffects.filter(effect => keywords.some(keyword => mentions(effect, keyword)));
+      if (matched.length) {
+        conflicts.push({
+          reason: 'condition',
+          message: 'screening.condition',
+          params: { name: profile.name, condition, sideEffects: matched.join(', ') },
+        });
+      }
+    });
+  }
+
+  if (profile.pregnant) {
+    const cautionClass = PREGNANCY_CAUTION_CLASSES.find(cls => classFields.some(field => mentions(field, cls)));
+    if (cautionClass) {
+      conflicts.push({
+        reason: 'pregnancy',
+        message: 'screening.pregnancyClass',
+        params: { class: cautionClass },
+      });
+    } else if (normalize(medicine["Habit Forming"]) === 'yes') {
+      conflicts.push({ reason: 'pregnancy', message: 'screening.pregnancyHabitForming', params: {} });
+    }
+  }
+
+  if (profile.avoidHabitForming && normalize(medicine["Habit Forming"]) === 'yes') {
+    conflicts.push({ reason: 'habitForming', message: 'screening.habitForming', params: { name: profile.name } });
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,32 @@
+import { FacetFilters } from './facets';
+import { createPagedSearch, SearchPage } from './searchIndex';
+import { MedicineSummary } from './types';
+
+export type SearchWorkerRequest =
+  | { type: 'init'; medicines: MedicineSummary[] }
+  | { type: 'search'; requestId: number; query: string; filters: FacetFilters; offset: number; limit: number };
+
+export interface SearchWorkerResponse extends SearchPage {
+  requestId: number;
+}
+
+// Typed view of the worker global without pulling in the webworker lib,
+// which conflicts with the DOM typings used by the rest of the app
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<SearchWorkerRequest>) => void) | null;
+  postMessage: (message: SearchWorkerResponse) => void;
+};
+
+let pagedSearch: ReturnType<typeof createPagedSearch> | null = null;
+
+ctx.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    pagedSearch = createPagedSearch(message.medicines);
+    return;
+  }
+  if (pagedSearch) {
+    const page = pagedSearch(message.query, message.filters, message.offset, message.limit);
+    ctx.postMessage({ requestId: message.requestId, ...page });
+  }
+};
@@ -0,0 +1,217 @@
+import { computeFacetCounts, FacetCounts, FacetFilters, hasActiveFilters, matchesFacets } from './facets';
+import { MedicineSummary } from './types';
+
+// Relevance weights. Whole-query bonuses dominate so an exact name always
+// outranks a name prefix, which outranks per-token name hits, which in turn
+// outrank matches that only come from uses or classes.
+const EXACT_NAME_BONUS = 1000;
+const NAME_PREFIX_BONUS = 500;
+const EXACT_USE_BONUS = 50;
+
+const FIELD_WEIGHTS = {
+  name: { exact: 100, prefix: 70, fuzzy: 40 },
+  uses: { exact: 30, prefix: 20, fuzzy: 10 },
+  classes: { exact: 15, prefix: 10, fuzzy: 5 },
+};
+
+type Field = keyof typeof FIELD_WEIGHTS;
+type MatchKind = keyof typeof FIELD_WEIGHTS['name'];
+
+// Caps how many vocabulary tokens a short prefix may expand to
+const MAX_PREFIX_EXPANSIONS = 500;
+
+interface Posting {
+  name: number[];
+  uses: number[];
+  classes: number[];
+}
+
+export interface SearchIndex {
+  size: number;
+  // Returns catalog ids ordered from most to least relevant
+  search: (query: string) => number[];
+}
+
+export const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const normalize = (text: string) => tokenize(text).join(' ');
+
+// Bounded Levenshtein distance check that bails out as soon as every cell
+// in a row exceeds the allowed distance
+const withinEditDistance = (a: string, b: string, maxDistance: number) => {
+  if (Math.abs(a.length - b.length) > maxDistance) return false;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > maxDistance) return false;
+    previous = current;
+  }
+  return previous[b.length] <= maxDistance;
+};
+
+const allowedTypos = (token: string) => (token.length >= 8 ? 2 : token.length >= 4 ? 1 : 0);
+
+export const createSearchIndex = (medicines: MedicineSummary[]): SearchIndex => {
+  const postings = new Map<string, Posting>();
+  const names = medicines.map(medicine => normalize(medicine.name));
+  const uses = medicines.map(medicine => (medicine.uses || []).map(normalize));
+
+  const addPosting = (token: string, field: Field, doc: number) => {
+    let posting = postings.get(token);
+    if (!posting) {
+      posting = { name: [], uses: [], classes: [] };
+      postings.set(token, posting);
+    }
+    const docs = posting[field];
+    // Documents are indexed in order, so checking the tail is enough to dedupe
+    if (docs[docs.length - 1] !== doc) docs.push(doc);
+  };
+
+  medicines.forEach((medicine, doc) => {
+    tokenize(medicine.name).forEach(token => addPosting(token, 'name', doc));
+    (medicine.uses || []).forEach(use => tokenize(use).forEach(token => addPosting(token, 'uses', doc)));
+    [medicine["Therapeutic Class"], medicine["Action Class"]].forEach(value => {
+      if (value) tokenize(value).forEach(token => addPosting(token, 'classes', doc));
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys()).sort();
+
+  const prefixMatches = (token: string) => {
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (vocabulary[mid] < token) low = mid + 1;
+      else high = mid;
+    }
+    const matches: string[] = [];
+    for (let i = low; i < vocabulary.length && matches.length < MAX_PREFIX_EXPANSIONS; i++) {
+      if (!vocabulary[i].startsWith(token)) break;
+      if (vocabulary[i] !== token) matches.push(vocabulary[i]);
+    }
+    return matches;
+  };
+
+  const fuzzyMatches = (token: string) => {
+    const maxDistance = allowedTypos(token);
+    if (!maxDistance) return [];
+    // Typos in the first letter are rare, so only compare tokens sharing it
+    return vocabulary.filter(candidate =>
+      candidate[0] === token[0] && withinEditDistance(token, candidate, maxDistance)
+    );
+  };
+
+  // Best score each document earns for a single query token
+  const scoreToken = (token: string) => {
+    const scores = new Map<number, number>();
+    const apply = (vocabToken: string, kind: MatchKind) => {
+      const posting = postings.get(vocabToken);
+      if (!posting) return;
+      (Object.keys(FIELD_WEIGHTS) as Field[]).forEach(field => {
+        const weight = FIELD_WEIGHTS[field][kind];
+        posting[field].forEach(doc => {
+          if ((scores.get(doc) || 0) < weight) scores.set(doc, weight);
+        });
+      });
+    };
+
+    if (postings.has(token)) {
+      apply(token, 'exact');
+    } else {
+      fuzzyMatches(token).forEach(match => apply(match, 'fuzzy'));
+    }
+    prefixMatches(token).forEach(match => apply(match, 'prefix'));
+    return scores;
+  };
+
+  const search = (query: string): number[] => {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (!queryTokens.length) return [];
+    const phrase = queryTokens.join(' ');
+
+    // Every query token has to match somewhere in the document
+    let totals: Map<number, number> | null = null;
+    for (const token of queryTokens) {
+      const scores = scoreToken(token);
+      if (!totals) {
+        totals = scores;
+      } else {
+        const next = new Map<number, number>();
+        totals.forEach((total, doc) => {
+          const score = scores.get(doc);
+          if (score !== undefined) next.set(doc, total + score);
+        });
+        totals = next;
+      }
+      if (!totals.size) return [];
+    }
+
+    const ranked = Array.from(totals!.entries()).map(([doc, total]) => {
+      let score = total;
+      if (names[doc] === phrase) score += EXACT_NAME_BONUS;
+      else if (names[doc].startsWith(phrase)) score += NAME_PREFIX_BONUS;
+      if (uses[doc].includes(phrase)) score += EXACT_USE_BONUS;
+      return { doc, score };
+    });
+
+    ranked.sort((a, b) =>
+      b.score - a.score ||
+      names[a.doc].length - names[b.doc].length ||
+      names[a.doc].localeCompare(names[b.doc])
+    );
+    return ranked.map(({ doc }) => medicines[doc].id);
+  };
+
+  return { size: medicines.length, search };
+};
+
+export interface SearchPage {
+  ids: number[];
+  total: number;
+  facets: FacetCounts;
+}
+
+// Wraps an index with facet filtering and counting. "Load more" requests for
+// the same query and filters slice the cached result instead of searching again.
+export const createPagedSearch = (medicines: MedicineSummary[]) => {
+  const index = createSearchIndex(medicines);
+  const byId = new Map(medicines.map(medicine => [medicine.id, medicine] as [number, MedicineSummary]));
+  let alphabetical: MedicineSummary[] | null = null;
+  let lastKey: string | null = null;
+  let lastResults: number[] = [];
+  let lastFacets = computeFacetCounts([], {});
+
+  return (query: string, filters: FacetFilters, offset: number, limit: number): SearchPage => {
+    const key = JSON.stringify([query, filters]);
+    if (key !== lastKey) {
+      let matches: MedicineSummary[];
+      if (query.trim()) {
+        matches = index.search(query).map(id => byId.get(id)!);
+      } else {
+        // Without a search term the facets browse the whole catalog by name
+        if (!alphabetical) {
+          alphabetical = [...medicines].sort((a, b) => a.name.localeCompare(b.name));
+        }
+        matches = alphabetical;
+      }
+      lastKey = key;
+      lastFacets = computeFacetCounts(matches, filters);
+      lastResults = query.trim() || hasActiveFilters(filters)
+        ? matches.filter(medicine => matchesFacets(medicine, filters)).map(medicine => medicine.id)
+        : [];
+    }
+    return {
+      ids: lastResults.slice(offset, offset + limit),
+      total: lastResults.length,
+      facets: lastFacets,
+    };
+  };
+};
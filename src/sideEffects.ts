@@ -0,0 +1,96 @@
+import { Medicine } from './types';
+
+// Shortest query that matches inside words rather than only at their start
+const MIN_PARTIAL_LENGTH = 3;
+const MAX_SEARCH_RESULTS = 20;
+
+export interface SideEffectTerm {
+  key: string;   // normalized, e.g. "drowsiness"
+  label: string; // wording from the catalog, e.g. "Drowsiness"
+  medicineIds: number[];
+}
+
+// Reverse lookup from side effect to the medicines that list it, most
+// commonly listed first. Built by the data pipeline for the full catalog.
+export interface SideEffectIndex {
+  terms: SideEffectTerm[];
+}
+
+export interface SideEffectMatch {
+  term: SideEffectTerm;
+  medicineCount: number;
+}
+
+// A side effect of the user's own medicines and which of them list it
+export interface SharedSideEffect {
+  key: string;
+  label: string;
+  medicines: Pick<Medicine, 'id' | 'name'>[];
+}
+
+// Keeps letters and digits of any script, with their combining marks
+// (Devanagari vowel signs, Urdu diacritics)
+export const normalizeSideEffect = (text: string) =>
+  text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}()\s-]/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export const buildSideEffectIndex = (medicines: Pick<Medicine, 'id' | 'sideEffects'>[]): SideEffectIndex => {
+  const terms = new Map<string, SideEffectTerm>();
+  medicines.forEach(({ id, sideEffects }) => {
+    (sideEffects || []).forEach(sideEffect => {
+      const key = normalizeSideEffect(sideEffect);
+      if (!key) return;
+      let term = terms.get(key);
+      if (!term) {
+        term = { key, label: sideEffect.trim(), medicineIds: [] };
+        terms.set(key, term);
+      }
+      if (term.medicineIds[term.medicineIds.length - 1] !== id) term.medicineIds.push(id);
+    });
+  });
+  return {
+    terms: Array.from(terms.values()).sort((a, b) => b.medicineIds.length - a.medicineIds.length || a.label.localeCompare(b.label)),
+  };
+};
+
+// Exact matches first, then terms starting with the query, then terms with
+// a word starting with it, then (for longer queries) anywhere in the term
+export const searchSideEffects = (index: SideEffectIndex, query: string, limit = MAX_SEARCH_RESULTS): SideEffectMatch[] => {
+  const needle = normalizeSideEffect(query);
+  if (!needle) return [];
+  const rank = (key: string) => {
+    if (key === needle) return 0;
+    if (key.startsWith(needle)) return 1;
+    if (key.split(' ').some(word => word.replace(/^\(/, '').startsWith(needle))) return 2;
+    if (needle.length >= MIN_PARTIAL_LENGTH && key.includes(needle)) return 3;
+    return -1;
+  };
+  return index.terms
+    .map(term => ({ term, medicineCount: term.medicineIds.length, rank: rank(term.key) }))
+    .filter(match => match.rank >= 0)
+    .sort((a, b) => a.rank - b.rank || b.medicineCount - a.medicineCount)
+    .slice(0, limit)
+    .map(({ term, medicineCount }) => ({ term, medicineCount }));
+};
+
+// Groups the side effects of several medicines, those listed by the most
+// medicines first
+export const aggregateSideEffects = (medicines: Medicine[]): SharedSideEffect[] => {
+  const byKey = new Map<string, SharedSideEffect>();
+  const seenMedicines = new Set<number>();
+  medicines.forEach(medicine => {
+    if (seenMedicines.has(medicine.id)) return;
+    seenMedicines.add(medicine.id);
+    (medicine.sideEffects || []).forEach(sideEffect => {
+      const key = normalizeSideEffect(sideEffect);
+      if (!key) return;
+      let shared = byKey.get(key);
+      if (!shared) {
+        shared = { key, label: sideEffect.trim(), medicines: [] };
+        byKey.set(key, shared);
+      }
+      if (!shared.medicines.some(m => m.id === medicine.id)) shared.medicines.push({ id: medicine.id, name: medicine.name });
+    });
+  });
+  return Array.from(byKey.values())
+    .sort((a, b) => b.medicines.length - a.medicines.length || a.label.localeCompare(b.label));
+};
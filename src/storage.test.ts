@@ -0,0 +1,59 @@
+import assert from 'assert';
+import { test } from 'node:test';
+import { createProfile } from './profiles';
+import { NewerSchemaError, planLoad, RawState, SCHEMA_VERSION } from './storage';
+
+// Run with: node test.js (or just this file: node -r ./pipeline/register.js src/storage.test.ts)
+
+const profile = { ...createProfile('Mum'), id: 1 };
+
+const reminder = {
+  id: 10,
+  profileId: 1,
+  medicineName: 'Dolo 650 Tablet',
+  schedule: { times: ['09:00'], recurrence: { type: 'daily' }, startDate: '2026-01-01' },
+};
+
+const noLegacy = (): RawState => {
+  throw new Error('legacy data should only be read on first run');
+};
+
+test('data from a newer version is refused instead of rewritten', () => {
+  // A record shape this version doesn't know, which validation would drop
+  const stored: RawState = {
+    profiles: [profile],
+    reminders: [reminder, { ...reminder, id: 11, schedule: { times: ['09:00'], recurrence: { type: 'lunar' } } }],
+    doseLog: [],
+  };
+  assert.throws(
+    () => planLoad(stored, SCHEMA_VERSION + 1, noLegacy),
+    (e: unknown) => e instanceof NewerSchemaError && e.version === SCHEMA_VERSION + 1
+  );
+});
+
+test('current data is only rewritten when validation dropped records', () => {
+  const valid: RawState = { profiles: [profile], reminders: [reminder], doseLog: [] };
+  const clean = planLoad(valid, SCHEMA_VERSION, noLegacy);
+  assert.strictEqual(clean.rewrite, false);
+  assert.deepStrictEqual(clean.state.reminders.map(r => r.id), [10]);
+
+  const withInvalid = planLoad({ ...valid, reminders: [reminder, { id: 'broken' }] }, SCHEMA_VERSION, noLegacy);
+  assert.strictEqual(withInvalid.rewrite, true);
+  assert.deepStrictEqual(withInvalid.state.reminders.map(r => r.id), [10]);
+});
+
+test('older data is migrated and written back', () => {
+  const legacyReminder = { id: Date.UTC(2026, 0, 1), medicineName: 'Dolo 650 Tablet', time: '08:00' };
+  const { state, rewrite } = planLoad({ profiles: [], reminders: [legacyReminder], doseLog: [] }, 1, noLegacy);
+  assert.strictEqual(rewrite, true);
+  assert.strictEqual(state.profiles.length, 1);
+  assert.deepStrictEqual(state.reminders.map(r => [r.profileId, r.schedule.times]), [[state.profiles[0].id, ['08:00']]]);
+});
+
+test('the first run imports the old localStorage data', () => {
+  const legacy = (): RawState => ({ profiles: [profile], reminders: [reminder], doseLog: [] });
+  const { state, isFirstRun, rewrite } = planLoad({ profiles: [], reminders: [], doseLog: [] }, undefined, legacy);
+  assert.strictEqual(isFirstRun, true);
+  assert.strictEqual(rewrite, true);
+  assert.deepStrictEqual(state.profiles.map(p => p.name), ['Mum']);
+});
@@ -0,0 +1,360 @@
+import { pruneDoseLog } from './adherence';
+import { createDefaultProfile, createProfile } from './profiles';
+import { upgradeLegacyReminder, validateSchedule } from './schedule';
+import { DoseLogEntry, Profile, Reminder, ReminderSchedule } from './types';
+
+// Persists profiles, reminders and the dose log in IndexedDB, one record
+// per object, so that writes only touch what changed and two open tabs
+// don't overwrite each other's edits.
+
+const DB_NAME = 'medicine-app';
+const DB_VERSION = 1; // object store layout, bumped only when stores change
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const CHANNEL_NAME = 'medicine-app-storage';
+const EDIT_TIMES_KEY_PREFIX = 'editTimes:';
+// Edit times are only needed until the edit has been synced; a device that
+// stays offline longer than this treats its edits as older than the server's
+const EDIT_TIME_RETENTION_MS = 90 * 24 * 60 * 60 * 1000;
+
+// Version of the stored record shapes:
+// 1 - reminders with a single `time` (the original localStorage format)
+// 2 - reminders with a recurring `schedule`
+// 3 - reminders and dose log entries owned by a profile
+export const SCHEMA_VERSION = 3;
+
+// Keys used before storage moved to IndexedDB; imported once, then removed
+const LEGACY_KEYS = { reminders: 'medicineReminders', doseLog: 'medicineDoseLog', profiles: 'medicineProfiles' };
+
+export const COLLECTIONS = ['profiles', 'reminders', 'doseLog'] as const;
+export type CollectionName = typeof COLLECTIONS[number];
+
+export interface StoredState {
+  profiles: Profile[];
+  reminders: Reminder[];
+  doseLog: DoseLogEntry[];
+}
+
+// Records as found in storage, before migration and validation
+export type RawState = Record<CollectionName, unknown[]>;
+
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+const hasNumberId = (value: unknown): value is { id: number } => isObject(value) && typeof value.id === 'number';
+
+// Reminders and log entries stored before profiles existed have no owner.
+// Records that aren't objects are left for validation to drop.
+const assignProfile = (record: unknown, profileId: number) =>
+  isObject(record) ? { ...record, profileId: record.profileId ?? profileId } : record;
+
+// MIGRATIONS[n] upgrades data from version n + 1 to n + 2. Each step only
+// touches records still in the old shape, so re-running one is harmless.
+const MIGRATIONS: ((data: RawState) => RawState)[] = [
+  data => ({ ...data, reminders: data.reminders.map(upgradeLegacyReminder) }),
+  data => {
+    // Everything goes to the first usable profile, or a new default one
+    const owner = data.profiles.find(hasNumberId) || createDefaultProfile();
+    return {
+      profiles: data.profiles.includes(owner) ? data.profiles : [...data.profiles, owner],
+      reminders: data.reminders.map(reminder => assignProfile(reminder, owner.id)),
+      doseLog: data.doseLog.map(entry => assignProfile(entry, owner.id)),
+    };
+  },
+];
+
+const migrate = (data: RawState, fromVersion: number) =>
+  MIGRATIONS.slice(fromVersion - 1).reduce((state, step) => step(state), data);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const RECURRENCE_TYPES = ['daily', 'weekly', 'everyNDays', 'interval'];
+const DOSE_STATUSES = ['pending', 'taken', 'skipped', 'snoozed', 'missed'];
+
+const isValidInventory = (value: unknown) =>
+  isObject(value) &&
+  ['packSize', 'stock', 'perIntake', 'alertDaysBefore'].every(key => typeof value[key] === 'number') &&
+  Array.isArray(value.refills);
+
+const isOneOf = (options: string[], value: unknown) => typeof value === 'string' && options.includes(value);
+
+const isScheduleShape = (value: unknown): value is ReminderSchedule =>
+  isObject(value) &&
+  isStringArray(value.times) &&
+  isObject(value.recurrence) &&
+  isOneOf(RECURRENCE_TYPES, value.recurrence.type) &&
+  typeof value.startDate === 'string';
+
+const isValidReminder = (value: unknown): value is Reminder =>
+  isObject(value) &&
+  typeof value.id === 'number' &&
+  typeof value.profileId === 'number' &&
+  typeof value.medicineName === 'string' &&
+  isScheduleShape(value.schedule) &&
+  validateSchedule(value.schedule) === null &&
+  (value.inventory === undefined || isValidInventory(value.inventory));
+
+const isValidDoseLogEntry = (value: unknown): value is DoseLogEntry =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.reminderId === 'number' &&
+  typeof value.profileId === 'number' &&
+  typeof value.medicineName === 'string' &&
+  typeof value.scheduledFor === 'string' &&
+  !isNaN(new Date(value.scheduledFor).getTime()) &&
+  isOneOf(DOSE_STATUSES, value.status);
+
+// Profiles saved before the health fields existed get their defaults
+const normalizeProfile = (value: unknown): Profile | null => {
+  if (!isObject(value) || typeof value.id !== 'number' || typeof value.name !== 'string') return null;
+  const profile = { ...createProfile(value.name), ...value } as Profile;
+  return isStringArray(profile.allergies) && isStringArray(profile.conditions) && Array.isArray(profile.favourites)
+    ? profile
+    : null;
+};
+
+// Drops records that don't have the expected shape instead of failing the
+// whole load, so one bad record can't wipe a list
+const keepValid = <T>(name: CollectionName, records: unknown[], check: (record: unknown) => T | null) =>
+  records.reduce<T[]>((valid, record) => {
+    const checked = check(record);
+    if (checked) valid.push(checked);
+    else console.warn(`Dropped invalid stored ${name} record:`, record);
+    return valid;
+  }, []);
+
+const VALIDATORS: { [K in CollectionName]: (record: unknown) => StoredState[K][number] | null } = {
+  profiles: normalizeProfile,
+  reminders: record => (isValidReminder(record) ? record : null),
+  doseLog: record => (isValidDoseLogEntry(record) ? record : null),
+};
+
+export const validateCollection = <K extends CollectionName>(name: K, records: unknown[]): StoredState[K] =>
+  keepValid(name, records, VALIDATORS[name]) as StoredState[K];
+
+const validateState = (data: RawState): StoredState => {
+  const profiles = validateCollection('profiles', data.profiles);
+  return {
+    profiles: profiles.length ? profiles : [createDefaultProfile()],
+    reminders: validateCollection('reminders', data.reminders),
+    doseLog: pruneDoseLog(validateCollection('doseLog', data.doseLog), new Date()),
+  };
+};
+
+// Brings data written by any schema version up to date and drops invalid records
+export const normalizeState = (data: RawState, fromVersion: number) =>
+  validateState(migrate(data, Math.min(fromVersion, SCHEMA_VERSION)));
+
+const readLegacyList = (key: string): unknown[] => {
+  try {
+    const stored = localStorage.getItem(key);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error(`Failed to parse ${key} from localStorage:`, e);
+    return [];
+  }
+};
+
+const readLegacyState = (): RawState => ({
+  profiles: readLegacyList(LEGACY_KEYS.profiles),
+  reminders: readLegacyList(LEGACY_KEYS.reminders),
+  doseLog: readLegacyList(LEGACY_KEYS.doseLog),
+});
+
+const removeLegacyState = () => {
+  Object.values(LEGACY_KEYS).forEach(key => localStorage.removeItem(key));
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        COLLECTIONS.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+        });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Opened on first use, so code that only borrows the validators (the sync
+// client in Node tests) doesn't hold an open channel
+let channel: BroadcastChannel | null | undefined;
+
+const getChannel = () => {
+  if (channel === undefined) channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+  return channel;
+};
+
+interface StorageChangeMessage {
+  collection: CollectionName;
+}
+
+const replaceAll = async (db: IDBDatabase, state: StoredState) => {
+  const transaction = db.transaction([...COLLECTIONS, META_STORE], 'readwrite');
+  COLLECTIONS.forEach(name => {
+    const store = transaction.objectStore(name);
+    store.clear();
+    state[name].forEach(record => store.put(record));
+  });
+  transaction.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(transaction);
+};
+
+// Thrown when the stored data was written by a newer version of the app.
+// Its records may have shapes this version doesn't know, so they are left
+// untouched rather than validated away.
+export class NewerSchemaError extends Error {
+  constructor(readonly version: number) {
+    super(`Stored data is from a newer version of the app (schema ${version}).`);
+  }
+}
+
+// Decides what loadState does with the records it read: the state to use and
+// whether the store has to be rewritten. `legacy` is only read on first run.
+export const planLoad = (stored: RawState, version: number | undefined, legacy: () => RawState) => {
+  if (version !== undefined && version > SCHEMA_VERSION) throw new NewerSchemaError(version);
+  const isFirstRun = version === undefined;
+  // Legacy data carries no version, and every migration step is safe to
+  // apply to records that are already newer, so import it as version 1
+  const fromVersion = isFirstRun ? 1 : version;
+  const raw = isFirstRun ? legacy() : stored;
+  const state = normalizeState(raw, fromVersion);
+  // Rewrite when migrating or when validation or pruning dropped records
+  const changed = COLLECTIONS.some(name => state[name].length !== raw[name].length);
+  return { state, isFirstRun, rewrite: isFirstRun || fromVersion < SCHEMA_VERSION || changed };
+};
+
+// Loads everything, importing the old localStorage data on first run and
+// migrating records written by older versions of the app. Rejects with
+// NewerSchemaError, without writing anything, for data from a newer version.
+export const loadState = async (): Promise<StoredState> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([...COLLECTIONS, META_STORE], 'readonly');
+  const [version, profiles, reminders, doseLog] = await Promise.all([
+    requestResult<number | undefined>(transaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+    requestResult(transaction.objectStore('profiles').getAll()),
+    requestResult(transaction.objectStore('reminders').getAll()),
+    requestResult(transaction.objectStore('doseLog').getAll()),
+  ]);
+
+  const { state, isFirstRun, rewrite } = planLoad({ profiles, reminders, doseLog }, version, readLegacyState);
+  if (rewrite) {
+    await replaceAll(db, state);
+    if (isFirstRun) removeLegacyState();
+  }
+  return state;
+};
+
+export const readCollection = async <K extends CollectionName>(name: K): Promise<StoredState[K]> => {
+  const db = await openDatabase();
+  const records = await requestResult(db.transaction(name, 'readonly').objectStore(name).getAll());
+  return validateCollection(name, records);
+};
+
+// Record id -> ISO time of its last change on this device
+export type EditTimes = Record<string, string>;
+
+const editTimesKey = (name: CollectionName) => `${EDIT_TIMES_KEY_PREFIX}${name}`;
+
+// Notes when records were changed here, in the same transaction as the
+// change, so sync can settle conflicts by when an edit was made rather than
+// when it was sent
+const recordEditTimes = (meta: IDBObjectStore, name: CollectionName, ids: (number | string)[], now: Date) => {
+  const request = meta.get(editTimesKey(name));
+  request.onsuccess = () => {
+    const stored: unknown = request.result;
+    const cutoff = now.getTime() - EDIT_TIME_RETENTION_MS;
+    const times: EditTimes = {};
+    if (isObject(stored)) {
+      Object.entries(stored).forEach(([id, time]) => {
+        if (typeof time === 'string' && new Date(time).getTime() >= cutoff) times[id] = time;
+      });
+    }
+    ids.forEach(id => {
+      times[String(id)] = now.toISOString();
+    });
+    meta.put(times, editTimesKey(name));
+  };
+};
+
+export const readEditTimes = async (name: CollectionName): Promise<EditTimes> => {
+  const db = await openDatabase();
+  const stored = await requestResult<unknown>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(editTimesKey(name)));
+  return isObject(stored) ? (stored as EditTimes) : {};
+};
+
+// Writes the difference between two versions of a collection and tells
+// other tabs about it
+export const writeCollection = async <K extends CollectionName>(
+  name: K,
+  previous: StoredState[K],
+  next: StoredState[K]
+) => {
+  const previousById = new Map<number | string, unknown>(previous.map(record => [record.id, record]));
+  const nextIds = new Set<number | string>(next.map(record => record.id));
+  const changed = (next as { id: number | string }[]).filter(record => {
+    const before = previousById.get(record.id);
+    return before !== record && JSON.stringify(before) !== JSON.stringify(record);
+  });
+  const removed = Array.from(previousById.keys()).filter(id => !nextIds.has(id));
+  if (!changed.length && !removed.length) return;
+
+  const db = await openDatabase();
+  const transaction = db.transaction([name, META_STORE], 'readwrite');
+  const store = transaction.objectStore(name);
+  changed.forEach(record => store.put(record));
+  removed.forEach(id => store.delete(id));
+  recordEditTimes(transaction.objectStore(META_STORE), name, [...changed.map(record => record.id), ...removed], new Date());
+  await transactionDone(transaction);
+
+  const current = getChannel();
+  if (current) current.postMessage({ collection: name } as StorageChangeMessage);
+};
+
+// Calls back when another tab changed a collection
+export const subscribeToStorageChanges = (handler: (collection: CollectionName) => void) => {
+  const current = getChannel();
+  if (!current) return () => {};
+  const listener = (event: MessageEvent<StorageChangeMessage>) => {
+    if (event.data && COLLECTIONS.includes(event.data.collection)) handler(event.data.collection);
+  };
+  current.addEventListener('message', listener);
+  return () => current.removeEventListener('message', listener);
+};
+
+// Small values kept next to the data, e.g. sync bookkeeping
+export const readMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestResult<T | undefined>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key));
+};
+
+export const writeMeta = async (key: string, value: unknown) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(META_STORE, 'readwrite');
+  if (value === undefined) transaction.objectStore(META_STORE).delete(key);
+  else transaction.objectStore(META_STORE).put(value, key);
+  await transactionDone(transaction);
+};
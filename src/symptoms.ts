@@ -0,0 +1,237 @@
+import { MedicineSummary } from './types';
+
+// Wording the dataset wraps around the condition itself, e.g.
+// "Treatment of Fever" or "Prevention of Heart attack"
+const USE_PREFIXES = [
+  'treatment and prevention of',
+  'prevention and treatment of',
+  'treatment of',
+  'prevention of',
+  'relief of',
+  'relief from',
+  'management of',
+];
+
+// Everyday words mapped onto terms used in the catalog. Targets that don't
+// occur in the loaded catalog are ignored.
+const LAY_ALIASES: Record<string, string[]> = {
+  'high blood pressure': ['hypertension'],
+  'low blood pressure': ['hypotension'],
+  'sugar': ['diabetes', 'type 2 diabetes mellitus', 'type 1 diabetes mellitus'],
+  'acidity': ['acidity', 'heartburn', 'gastroesophageal reflux disease (acid reflux)', 'peptic ulcer disease'],
+  'acid reflux': ['gastroesophageal reflux disease (acid reflux)', 'heartburn'],
+  'stomach ache': ['abdominal pain', 'stomach pain'],
+  'stomach pain': ['abdominal pain'],
+  'loose motions': ['diarrhea', 'diarrhoea'],
+  'throwing up': ['vomiting', 'nausea'],
+  'feeling sick': ['nausea', 'vomiting'],
+  'runny nose': ['common cold', 'allergic rhinitis', 'sneezing and runny nose due to allergies'],
+  'blocked nose': ['nasal congestion', 'common cold'],
+  'stuffy nose': ['nasal congestion', 'common cold'],
+  'cold': ['common cold'],
+  'flu': ['influenza', 'common cold'],
+  'temperature': ['fever'],
+  'sleeplessness': ['insomnia'],
+  'trouble sleeping': ['insomnia'],
+  'itching': ['itching', 'pruritus', 'skin allergy'],
+  'rash': ['skin rash', 'skin allergy'],
+  'joint pain': ['joint pain', 'arthritis', 'osteoarthritis', 'rheumatoid arthritis'],
+  'back pain': ['back pain', 'pain'],
+  'tooth pain': ['dental pain', 'toothache'],
+  'period pain': ['menstrual pain', 'dysmenorrhea'],
+  'cramps': ['muscle spasm', 'menstrual pain'],
+  'worry': ['anxiety'],
+  'sadness': ['depression'],
+  'wheezing': ['asthma'],
+  'breathlessness': ['asthma', 'chronic obstructive pulmonary disorder (copd)'],
+  'heart attack': ['heart attack', 'myocardial infarction'],
+  'cholesterol': ['high cholesterol', 'hypercholesterolemia'],
+};
+
+// Matches below this many characters are exact only, to avoid "pa" hitting everything
+const MIN_PARTIAL_LENGTH = 3;
+const MAX_PARTIAL_MATCHES = 12;
+
+export interface SymptomTerm {
+  key: string;       // normalized term, e.g. "hypertension"
+  label: string;     // wording from the catalog, e.g. "Hypertension (high blood pressure)"
+  medicineCount: number;
+}
+
+export interface SymptomDictionary {
+  terms: Map<string, SymptomTerm>;
+  aliases: Map<string, string[]>;
+  // term key -> medicine id -> uses (as written) that produced the term
+  postings: Map<string, Map<number, string[]>>;
+}
+
+export const normalizeSymptom = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9()\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+// "Treatment of Hypertension (high blood pressure)" -> key "hypertension",
+// aliases ["hypertension (high blood pressure)", "high blood pressure"]
+const parseUse = (use: string) => {
+  let text = normalizeSymptom(use);
+  const prefix = USE_PREFIXES.find(p => text.startsWith(`${p} `));
+  if (prefix) text = text.slice(prefix.length + 1);
+  const parenthetical = text.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+  if (parenthetical && parenthetical[1]) {
+    return { key: parenthetical[1], aliases: [text, parenthetical[2]] };
+  }
+  return { key: text, aliases: [] };
+};
+
+const stripUsePrefix = (use: string) => {
+  const prefix = USE_PREFIXES.find(p => use.toLowerCase().startsWith(`${p} `));
+  return prefix ? use.slice(prefix.length + 1) : use;
+};
+
+const addAlias = (aliases: Map<string, string[]>, alias: string, key: string) => {
+  const keys = aliases.get(alias) || [];
+  if (!keys.includes(key)) keys.push(key);
+  aliases.set(alias, keys);
+};
+
+// Builds the vocabulary of conditions from every medicine's `uses`
+export const buildSymptomDictionary = (medicines: MedicineSummary[]): SymptomDictionary => {
+  const terms = new Map<string, SymptomTerm>();
+  const aliases = new Map<string, string[]>();
+  const postings = new Map<string, Map<number, string[]>>();
+
+  medicines.forEach(medicine => {
+    (medicine.uses || []).forEach(use => {
+      const { key, aliases: useAliases } = parseUse(use);
+      if (!key) return;
+
+      let byMedicine = postings.get(key);
+      if (!byMedicine) {
+        byMedicine = new Map();
+        postings.set(key, byMedicine);
+      }
+      const matchedUses = byMedicine.get(medicine.id) || [];
+      if (!matchedUses.includes(use)) matchedUses.push(use);
+      byMedicine.set(medicine.id, matchedUses);
+
+      const term = terms.get(key);
+      if (term) {
+        term.medicineCount = byMedicine.size;
+      } else {
+        terms.set(key, { key, label: stripUsePrefix(use), medicineCount: 1 });
+      }
+      useAliases.forEach(alias => addAlias(aliases, alias, key));
+    });
+  });
+
+  Object.entries(LAY_ALIASES).forEach(([alias, targets]) => {
+    targets.forEach(target => {
+      const { key } = parseUse(target);
+      if (terms.has(key)) addAlias(aliases, alias, key);
+    });
+  });
+
+  return { terms, aliases, postings };
+};
+
+// Catalog terms a typed symptom stands for: exact terms and aliases first,
+// otherwise terms containing it as a whole word (e.g. "infection" ->
+// "bacterial infections", "fungal infections")
+export const resolveSymptom = (dictionary: SymptomDictionary, symptom: string): string[] => {
+  const text = normalizeSymptom(symptom);
+  if (!text) return [];
+  const exact = new Set<string>();
+  if (dictionary.terms.has(text)) exact.add(text);
+  (dictionary.aliases.get(text) || []).forEach(key => exact.add(key));
+  if (exact.size || text.length < MIN_PARTIAL_LENGTH) return Array.from(exact);
+
+  const wordPattern = new RegExp(`(^|\\s)${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`);
+  return Array.from(dictionary.terms.values())
+    .filter(term => wordPattern.test(term.key))
+    .sort((a, b) => b.medicineCount - a.medicineCount)
+    .slice(0, MAX_PARTIAL_MATCHES)
+    .map(term => term.key);
+};
+
+// Terms to suggest while a symptom is being typed
+export const suggestSymptoms = (dictionary: SymptomDictionary, input: string, limit = 8): SymptomTerm[] => {
+  const text = normalizeSymptom(input);
+  if (text.length < 2) return [];
+  const matches: SymptomTerm[] = [];
+  dictionary.aliases.forEach((keys, alias) => {
+    if (alias.startsWith(text) && !dictionary.terms.has(alias)) {
+      const best = keys.map(key => dictionary.terms.get(key)!).sort((a, b) => b.medicineCount - a.medicineCount)[0];
+      matches.push({ key: alias, label: alias, medicineCount: best.medicineCount });
+    }
+  });
+  dictionary.terms.forEach(term => {
+    if (term.key.startsWith(text) || term.key.includes(` ${text}`)) matches.push(term);
+  });
+  return matches.sort((a, b) => b.medicineCount - a.medicineCount).slice(0, limit);
+};
+
+export interface SymptomMatch {
+  symptom: string;
+  uses: string[];
+}
+
+export interface Recommendation {
+  medicine: MedicineSummary;
+  matches: SymptomMatch[]; // one per covered symptom, in the order entered
+}
+
+export interface RecommendationGroup {
+  therapeuticClass: string;
+  recommendations: Recommendation[];
+}
+
+// Ranks medicines by how many of the symptoms they cover (then by how many
+// of their uses matched) and groups them by Therapeutic Class. Groups are
+// ordered by their best-covering medicine, then by size.
+export const recommendMedicines = (
+  dictionary: SymptomDictionary,
+  medicines: MedicineSummary[],
+  symptoms: string[]
+): RecommendationGroup[] => {
+  const byId = new Map<number, Recommendation>();
+  const medicineById = new Map(medicines.map(medicine => [medicine.id, medicine]));
+
+  symptoms.forEach(symptom => {
+    const usesByMedicine = new Map<number, Set<string>>();
+    resolveSymptom(dictionary, symptom).forEach(key => {
+      (dictionary.postings.get(key) || new Map<number, string[]>()).forEach((uses, id) => {
+        const matched = usesByMedicine.get(id) || new Set<string>();
+        uses.forEach(use => matched.add(use));
+        usesByMedicine.set(id, matched);
+      });
+    });
+    usesByMedicine.forEach((uses, id) => {
+      const medicine = medicineById.get(id);
+      if (!medicine) return;
+      const recommendation = byId.get(id) || { medicine, matches: [] };
+      recommendation.matches.push({ symptom, uses: Array.from(uses) });
+      byId.set(id, recommendation);
+    });
+  });
+
+  const matchedUseCount = (r: Recommendation) => r.matches.reduce((sum, match) => sum + match.uses.length, 0);
+  const ranked = Array.from(byId.values()).sort((a, b) =>
+    b.matches.length - a.matches.length ||
+    matchedUseCount(b) - matchedUseCount(a) ||
+    a.medicine.name.localeCompare(b.medicine.name)
+  );
+
+  const groups = new Map<string, Recommendation[]>();
+  ranked.forEach(recommendation => {
+    const therapeuticClass = recommendation.medicine["Therapeutic Class"] || 'Unclassified';
+    const group = groups.get(therapeuticClass) || [];
+    group.push(recommendation);
+    groups.set(therapeuticClass, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([therapeuticClass, recommendations]) => ({ therapeuticClass, recommendations }))
+    .sort((a, b) =>
+      b.recommendations[0].matches.length - a.recommendations[0].matches.length ||
+      b.recommendations.length - a.recommendations.length ||
+      a.therapeuticClass.localeCompare(b.therapeuticClass)
+    );
+};
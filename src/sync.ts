@@ -0,0 +1,335 @@
+import { isUntouchedDefaultProfile } from './profiles';
+import { CollectionName, EditTimes, readMeta, StoredState, validateCollection, writeMeta } from './storage';
+import {
+  changeWins,
+  ChangesResponse,
+  MAX_CHANGES_PER_WRITE,
+  RecordChange,
+  RecordId,
+  SignInResponse,
+  SYNC_PATHS,
+  SyncRecord,
+  WriteResponse,
+} from './syncApi';
+import { DoseLogEntry, Profile, Reminder } from './types';
+
+// Client side of the sync API (see syncApi.ts). The app keeps working from
+// IndexedDB; when signed in, each sync pass pulls what other devices changed
+// and pushes the local edits made since the last pass.
+
+const SESSION_KEY = 'medicineSyncSession';
+const SYNC_STATE_KEY = 'syncState';
+
+export const DEFAULT_SYNC_SERVER = 'http://localhost:8787';
+
+export interface SyncSession {
+  serverUrl: string;
+  username: string;
+  token: string;
+}
+
+// What the server last agreed on for one record. `synced` is the record's
+// JSON at that point (null once deleted); a local record that no longer
+// matches it has unsent changes.
+interface RecordSyncState {
+  id: RecordId;
+  revision: number;
+  updatedAt: string;
+  synced: string | null;
+}
+
+interface CollectionSyncState {
+  cursor: number;
+  records: Record<string, RecordSyncState>;
+}
+
+// Kept in IndexedDB so edits made offline are still sent after a reload
+export interface SyncState {
+  serverUrl: string;
+  username: string;
+  collections: Record<CollectionName, CollectionSyncState>;
+}
+
+type Item<K extends CollectionName> = StoredState[K][number];
+
+// Applied to the current list rather than a snapshot, so edits made while a
+// pass was in flight survive
+export type RemoteOperation<K extends CollectionName> =
+  | { type: 'put'; record: Item<K> }
+  | { type: 'remove'; id: RecordId };
+
+export class SyncRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+export const readSyncSession = (): SyncSession | null => {
+  try {
+    const stored = localStorage.getItem(SESSION_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch (e) {
+    console.error("Failed to parse sync session from localStorage:", e);
+    return null;
+  }
+};
+
+const writeSyncSession = (session: SyncSession | null) => {
+  try {
+    if (session) localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_KEY);
+  } catch (e) {
+    console.error("Failed to save sync session to localStorage:", e);
+  }
+};
+
+const request = async <T,>(serverUrl: string, path: string, init: RequestInit = {}, token?: string): Promise<T> => {
+  const response = await fetch(`${serverUrl.replace(/\/+$/, '')}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new SyncRequestError(body && body.error ? body.error : `HTTP error! status: ${response.status}`, response.status);
+  }
+  return response.json();
+};
+
+export const signIn = async (serverUrl: string, username: string, password: string) => {
+  const response = await request<SignInResponse>(serverUrl, '/api/sessions', {
+    method: 'POST',
+    body: JSON.stringify({ username, password }),
+  });
+  const session: SyncSession = { serverUrl, username: response.username, token: response.token };
+  writeSyncSession(session);
+  return session;
+};
+
+// Forgets the session and the sync bookkeeping; the data on this device stays
+export const signOut = async () => {
+  writeSyncSession(null);
+  await writeMeta(SYNC_STATE_KEY, undefined);
+};
+
+export const emptySyncState = (session: SyncSession): SyncState => ({
+  serverUrl: session.serverUrl,
+  username: session.username,
+  collections: {
+    profiles: { cursor: 0, records: {} },
+    reminders: { cursor: 0, records: {} },
+    doseLog: { cursor: 0, records: {} },
+  },
+});
+
+// Bookkeeping for another account or server starts over
+export const readSyncState = async (session: SyncSession) => {
+  const stored = await readMeta<SyncState>(SYNC_STATE_KEY);
+  return stored && stored.serverUrl === session.serverUrl && stored.username === session.username
+    ? stored
+    : emptySyncState(session);
+};
+
+export const writeSyncState = (state: SyncState) => writeMeta(SYNC_STATE_KEY, state);
+
+
+const recordKey = (id: RecordId) => String(id);
+
+const syncedState = (record: SyncRecord, synced: string | null): RecordSyncState => ({
+  id: record.id,
+  revision: record.revision,
+  updatedAt: record.updatedAt,
+  synced,
+});
+
+// When the local copy of a record was last changed. An edit with no recorded
+// time counts as no newer than the server's copy, so it never overrides a
+// change made elsewhere.
+const editTime = (editTimes: EditTimes, key: string, known: RecordSyncState | undefined, now: Date) =>
+  editTimes[key] || (known ? known.updatedAt : now.toISOString());
+
+// The server's copy as a local record, or null when it's deleted or doesn't
+// pass the same checks as stored data
+const toLocal = <K extends CollectionName>(name: K, record: SyncRecord): Item<K> | null =>
+  record.deleted ? null : (validateCollection(name, [record.data])[0] as Item<K> | undefined) || null;
+
+// Takes the server's copy of a record. `synced` is the JSON of the record as
+// stored here, since validation may fill in defaults.
+const adopt = <K extends CollectionName>(name: K, record: SyncRecord, state: CollectionSyncState): RemoteOperation<K> => {
+  const local = toLocal(name, record);
+  state.records[recordKey(record.id)] = syncedState(record, local ? JSON.stringify(local) : null);
+  return local ? { type: 'put', record: local } : { type: 'remove', id: record.id };
+};
+
+// Everything changed on the server since `since`, page by page. A record
+// changed again while paging comes back twice; only its latest copy counts.
+const pullChanges = async (session: SyncSession, name: CollectionName, since: number) => {
+  const records = new Map<string, SyncRecord>();
+  let cursor = since;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await request<ChangesResponse>(session.serverUrl, `/api/${SYNC_PATHS[name]}?since=${cursor}`, {}, session.token);
+    page.records.forEach(record => {
+      records.delete(recordKey(record.id));
+      records.set(recordKey(record.id), record);
+    });
+    // A page that doesn't move the cursor on would be asked for forever
+    hasMore = page.hasMore && page.cursor > cursor;
+    cursor = page.cursor;
+  }
+  return { records: Array.from(records.values()), cursor };
+};
+
+// Local records whose JSON differs from what the server last agreed on,
+// plus tombstones for records deleted here
+const pendingChanges = <K extends CollectionName>(items: StoredState[K], state: CollectionSyncState, editTimes: EditTimes, now: Date) => {
+  const changes: RecordChange[] = [];
+  const seen = new Set<string>();
+  (items as Item<K>[]).forEach(item => {
+    const key = recordKey(item.id);
+    seen.add(key);
+    const known = state.records[key];
+    if (known && known.synced === JSON.stringify(item)) return;
+    changes.push({
+      id: item.id,
+      baseRevision: known ? known.revision : 0,
+      updatedAt: editTime(editTimes, key, known, now),
+      deleted: false,
+      data: item,
+    });
+  });
+  Object.entries(state.records).forEach(([key, known]) => {
+    if (seen.has(key) || known.synced === null) return;
+    changes.push({ id: known.id, baseRevision: known.revision, updatedAt: editTime(editTimes, key, known, now), deleted: true, data: null });
+  });
+  return changes;
+};
+
+export const applyRemoteOperations = <K extends CollectionName>(items: StoredState[K], operations: RemoteOperation<K>[]) => {
+  const next = [...items] as Item<K>[];
+  operations.forEach(operation => {
+    const id = operation.type === 'put' ? operation.record.id : operation.id;
+    const index = next.findIndex(item => item.id === id);
+    if (operation.type === 'remove') {
+      if (index !== -1) next.splice(index, 1);
+    } else if (index !== -1) {
+      next[index] = operation.record;
+    } else {
+      next.push(operation.record);
+    }
+  });
+  return next as StoredState[K];
+};
+
+// Other devices may between them have deleted every profile this one has.
+// Rather than leave nobody to show reminders for, the last one isn't
+// removed here, and the next push writes it back to the server.
+const keepLastProfile = <K extends CollectionName>(name: K, items: StoredState[K], operations: RemoteOperation<K>[]) => {
+  if (name !== 'profiles' || !items.length || applyRemoteOperations(items, operations).length) return operations;
+  const kept = [...operations].reverse().find(operation =>
+    operation.type === 'remove' && (items as Item<K>[]).some(item => item.id === operation.id));
+  return operations.filter(operation => operation !== kept);
+};
+
+// One sync pass for a collection: pulls remote changes, settles them against
+// unsent local edits, then pushes what's left. `editTimes` says when local
+// records were changed, for settling conflicts. Returns the operations that
+// bring the local list up to date; `state` is updated in place.
+export const syncCollection = async <K extends CollectionName>(
+  session: SyncSession,
+  name: K,
+  items: StoredState[K],
+  state: CollectionSyncState,
+  editTimes: EditTimes,
+  now: Date
+): Promise<RemoteOperation<K>[]> => {
+  const path = `/api/${SYNC_PATHS[name]}`;
+  let operations: RemoteOperation<K>[] = [];
+  const localByKey = new Map((items as Item<K>[]).map(item => [recordKey(item.id), JSON.stringify(item)]));
+
+  const pulled = await pullChanges(session, name, state.cursor);
+  pulled.records.forEach(record => {
+    const key = recordKey(record.id);
+    const known = state.records[key];
+    const local = localByKey.has(key) ? localByKey.get(key)! : null;
+    const remote = record.deleted ? null : JSON.stringify(record.data);
+    const hasLocalChange = known ? local !== known.synced : local !== null;
+    if (local === remote) {
+      state.records[key] = syncedState(record, local);
+    } else if (!hasLocalChange || !changeWins({ updatedAt: editTime(editTimes, key, known, now) }, record)) {
+      operations.push(adopt(name, record, state));
+    } else {
+      // Keep the local edit and write it on top of the server's revision
+      state.records[key] = syncedState(record, known ? known.synced : null);
+    }
+  });
+  state.cursor = pulled.cursor;
+  operations = keepLastProfile(name, items, operations);
+
+  // Pulled operations win over the local copy they replace, so they already
+  // match the server and aren't sent back
+  const changes = pendingChanges<K>(applyRemoteOperations(items, operations), state, editTimes, now);
+
+  for (let start = 0; start < changes.length; start += MAX_CHANGES_PER_WRITE) {
+    let batch = changes.slice(start, start + MAX_CHANGES_PER_WRITE);
+    // A conflict that the local change wins is retried once on top of the
+    // server's revision; losing ones take the server's copy
+    for (let attempt = 0; attempt < 2 && batch.length; attempt++) {
+      const { results } = await request<WriteResponse>(session.serverUrl, path, {
+        method: 'POST',
+        body: JSON.stringify({ changes: batch }),
+      }, session.token);
+      const retries: RecordChange[] = [];
+      results.forEach((result, index) => {
+        const change = batch[index];
+        if (result.status === 'ok') {
+          state.records[recordKey(change.id)] = syncedState(result.record, change.deleted ? null : JSON.stringify(change.data));
+        } else if (attempt === 0 && changeWins(change, result.current)) {
+          retries.push({ ...change, baseRevision: result.current.revision });
+        } else {
+          operations.push(adopt(name, result.current, state));
+        }
+      });
+      batch = retries;
+    }
+  }
+  return keepLastProfile(name, items, operations);
+};
+
+// This device's untouched default profile, swapped on first sign-in for
+// the one the account already has so "Me" doesn't show up once per device.
+// `to` is the profile its reminders and dose log move to, or null when it
+// owns nothing and is simply dropped.
+export interface ProfileMerge {
+  from: number;
+  to: number | null;
+}
+
+export const planDefaultProfileMerge = async (
+  session: SyncSession,
+  state: SyncState,
+  { profiles, reminders, doseLog }: StoredState
+): Promise<ProfileMerge | null> => {
+  const { cursor, records } = state.collections.profiles;
+  const local = profiles.find(isUntouchedDefaultProfile);
+  if (cursor !== 0 || !local || records[recordKey(local.id)]) return null;
+  const remote = (await pullChanges(session, 'profiles', 0)).records
+    .map(record => toLocal('profiles', record))
+    .filter((profile): profile is Profile => profile !== null);
+  // The first device on an account keeps its profile
+  if (!remote.length) return null;
+  const target = remote.find(isUntouchedDefaultProfile);
+  if (target) return { from: local.id, to: target.id };
+  const isOwner = reminders.some(reminder => reminder.profileId === local.id) ||
+    doseLog.some(entry => entry.profileId === local.id);
+  return isOwner ? null : { from: local.id, to: null };
+};
+
+export const mergeDefaultProfile = <K extends CollectionName>(name: K, items: StoredState[K], { from, to }: ProfileMerge) => {
+  if (name === 'profiles') return (items as Profile[]).filter(profile => profile.id !== from) as StoredState[K];
+  if (to === null) return items;
+  return (items as (Reminder | DoseLogEntry)[]).map(item =>
+    (item.profileId === from ? { ...item, profileId: to } : item)) as StoredState[K];
+};
@@ -0,0 +1,89 @@
+import { CollectionName } from './storage';
+
+// REST contract between the app and a sync server. The bundled mock server
+// (server/mockSyncServer.ts) implements it for development.
+//
+//   POST /api/sessions                     SignInRequest -> SignInResponse
+//   GET  /api/{collection}?since={cursor}  -> ChangesResponse
+//   POST /api/{collection}                 WriteRequest -> WriteResponse
+//
+// {collection} is `profiles`, `reminders` or `dose-logs`. Every request but
+// signing in carries `Authorization: Bearer {token}`; an unknown token gets
+// 401.
+//
+// Every record has a server revision that goes up by one with each accepted
+// write. A change names the revision it was based on, and the server refuses
+// it as a conflict, returning its current copy, once the record has moved on.
+// The client then settles it by last write wins on `updatedAt`: it either
+// writes again on top of the current revision or keeps the server's copy.
+// Deleting writes a tombstone so other devices hear about it.
+
+export const SYNC_PATHS: Record<CollectionName, string> = {
+  profiles: 'profiles',
+  reminders: 'reminders',
+  doseLog: 'dose-logs',
+};
+
+export type RecordId = number | string;
+
+export interface SyncRecord<T = unknown> {
+  id: RecordId;
+  revision: number;
+  updatedAt: string; // ISO time of the change on the device that made it
+  deleted: boolean;
+  data: T | null; // null once deleted
+}
+
+export interface SignInRequest {
+  username: string;
+  password: string;
+}
+
+export interface SignInResponse {
+  username: string;
+  token: string;
+}
+
+// Long change lists come in pages; ask again from `cursor` while `hasMore`
+export interface ChangesResponse<T = unknown> {
+  records: SyncRecord<T>[]; // changed since the cursor, oldest first
+  cursor: number; // pass as `since` next time
+  hasMore: boolean;
+}
+
+export interface RecordChange<T = unknown> {
+  id: RecordId;
+  baseRevision: number; // 0 for a record the server hasn't seen
+  updatedAt: string;
+  deleted: boolean;
+  data: T | null;
+}
+
+export interface WriteRequest<T = unknown> {
+  changes: RecordChange<T>[];
+}
+
+// One result per change, in the same order
+export type WriteResult<T = unknown> =
+  | { status: 'ok'; record: SyncRecord<T> }
+  | { status: 'conflict'; current: SyncRecord<T> };
+
+export interface WriteResponse<T = unknown> {
+  results: WriteResult<T>[];
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+// Servers may refuse larger writes
+export const MAX_CHANGES_PER_WRITE = 200;
+// Most records a server sends in one page of changes
+export const MAX_RECORDS_PER_PAGE = 500;
+
+export const collectionForPath = (segment: string) =>
+  (Object.keys(SYNC_PATHS) as CollectionName[]).find(name => SYNC_PATHS[name] === segment);
+
+// Last write wins; a tie keeps the server's copy
+export const changeWins = (change: Pick<RecordChange, 'updatedAt'>, current: SyncRecord) =>
+  change.updatedAt > current.updatedAt;
@@ -0,0 +1,82 @@
+import { atTime, doseOn, formatDose, occurrencesBetween, WEEKDAY_LABELS } from './schedule';
+import { Reminder, ReminderSchedule } from './types';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export interface TimetableRow {
+  reminder: Reminder;
+  days: string;
+  cells: Record<string, string>; // dose text keyed by HH:MM slot
+}
+
+export interface Timetable {
+  slots: string[]; // HH:MM, sorted
+  rows: TimetableRow[];
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const fromMinutes = (total: number) => {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${hours < 10 ? '0' : ''}${hours}:${minutes < 10 ? '0' : ''}${minutes}`;
+};
+
+// Clock times a schedule fires at on `day`. Interval schedules repeat from
+// their first time, so a q8h dose starting 06:00 gives 06:00, 14:00, 22:00.
+// One that doesn't fit a day evenly (q10h) lands at different times each
+// day, so only that day's doses are listed; one of whole days (q48h) keeps
+// its time and the days column says how often.
+const timesOfDay = (schedule: ReminderSchedule, day: Date) => {
+  if (schedule.recurrence.type !== 'interval') return [...schedule.times].sort();
+  const hours = Math.max(1, schedule.recurrence.hours);
+  if (24 % hours !== 0 && hours % 24 !== 0) {
+    const start = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+    return occurrencesBetween(schedule, new Date(start.getTime() - 1), new Date(end.getTime() - 1))
+      .map(occurrence => fromMinutes(occurrence.getHours() * 60 + occurrence.getMinutes()));
+  }
+  const step = hours * 60;
+  const first = toMinutes([...schedule.times].sort()[0]);
+  const times = new Set<string>();
+  for (let offset = 0; offset < MINUTES_PER_DAY; offset += step) {
+    times.add(fromMinutes((first + offset) % MINUTES_PER_DAY));
+  }
+  return Array.from(times).sort();
+};
+
+export const describeDays = (schedule: ReminderSchedule) => {
+  const { recurrence } = schedule;
+  switch (recurrence.type) {
+    case 'weekly':
+      return recurrence.days.slice().sort().map(day => WEEKDAY_LABELS[day]).join(', ');
+    case 'everyNDays':
+      return `Every ${recurrence.days} days`;
+    case 'interval':
+      if (24 % recurrence.hours === 0) return 'Daily';
+      return recurrence.hours % 24 === 0 ? `Every ${recurrence.hours / 24} days` : `Every ${recurrence.hours} hours`;
+    default:
+      return 'Daily';
+  }
+};
+
+// Grid of medicines against the times of day they're taken, with the dose
+// due on `day` in each cell
+export const buildTimetable = (reminders: Reminder[], day: Date): Timetable => {
+  const slots = new Set<string>();
+  const rows = [...reminders]
+    .sort((a, b) => a.medicineName.localeCompare(b.medicineName))
+    .map(reminder => {
+      const cells: Record<string, string> = {};
+      timesOfDay(reminder.schedule, day).forEach(time => {
+        slots.add(time);
+        const dose = doseOn(reminder.schedule, atTime(day, time));
+        cells[time] = dose ? formatDose(dose) : 'Take';
+      });
+      return { reminder, days: describeDays(reminder.schedule), cells };
+    });
+  return { slots: Array.from(slots).sort(), rows };
+};
@@ -0,0 +1,93 @@
+import { doseEntryId, effectiveStatus } from './adherence';
+import { MessageKey } from './i18n';
+import { doseOn, occurrencesBetween } from './schedule';
+import { Dose, DoseLogEntry, Reminder } from './types';
+
+// A dose stays "due now" this long after its time, then it's overdue
+export const DUE_NOW_WINDOW_MS = 30 * 60 * 1000;
+
+export type PartOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+export const PARTS_OF_DAY: { value: PartOfDay; labelKey: MessageKey }[] = [
+  { value: 'morning', labelKey: 'partOfDay.morning' },
+  { value: 'afternoon', labelKey: 'partOfDay.afternoon' },
+  { value: 'evening', labelKey: 'partOfDay.evening' },
+  { value: 'night', labelKey: 'partOfDay.night' },
+];
+
+// Morning 05:00-11:59, afternoon 12:00-16:59, evening 17:00-20:59, night otherwise
+export const partOfDay = (time: string): PartOfDay => {
+  const hours = Number(time.split(':')[0]);
+  if (hours >= 5 && hours < 12) return 'morning';
+  if (hours >= 12 && hours < 17) return 'afternoon';
+  if (hours >= 17 && hours < 21) return 'evening';
+  return 'night';
+};
+
+export type TimelineStatus = 'overdue' | 'dueNow' | 'upcoming' | 'done';
+
+export const TIMELINE_SECTIONS: { status: TimelineStatus; labelKey: MessageKey }[] = [
+  { status: 'overdue', labelKey: 'today.overdue' },
+  { status: 'dueNow', labelKey: 'today.dueNow' },
+  { status: 'upcoming', labelKey: 'today.upcoming' },
+  { status: 'done', labelKey: 'today.done' },
+];
+
+export interface TimelineItem {
+  id: string; // dose log entry id of the occurrence
+  reminder: Reminder;
+  occurrence: Date;
+  dose?: Dose;
+  status: TimelineStatus;
+  entry?: DoseLogEntry;
+}
+
+const statusOf = (occurrence: Date, entry: DoseLogEntry | undefined, now: Date): TimelineStatus => {
+  const status = entry ? effectiveStatus(entry, now) : null;
+  if (status === 'taken' || status === 'skipped') return 'done';
+  if (status === 'missed') return 'overdue';
+  if (status === 'snoozed') return 'dueNow';
+  if (occurrence > now) return 'upcoming';
+  return now.getTime() - occurrence.getTime() <= DUE_NOW_WINDOW_MS ? 'dueNow' : 'overdue';
+};
+
+// Every dose scheduled today for the given (unpaused) reminders, in time
+// order, matched against the dose log
+export const buildTodayTimeline = (reminders: Reminder[], doseLog: DoseLogEntry[], now: Date): TimelineItem[] => {
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const endOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+  const entries = new Map(doseLog.map(entry => [entry.id, entry]));
+  const items: TimelineItem[] = [];
+  // occurrencesBetween covers (from, to], so start just before midnight to
+  // include a dose at 00:00 and stop just before the next one
+  const from = new Date(startOfToday.getTime() - 1);
+  const to = new Date(endOfToday.getTime() - 1);
+  reminders.forEach(reminder => {
+    occurrencesBetween(reminder.schedule, from, to).forEach(occurrence => {
+      const id = doseEntryId(reminder.id, occurrence);
+      const entry = entries.get(id);
+      items.push({
+        id,
+        reminder,
+        occurrence,
+        dose: doseOn(reminder.schedule, occurrence),
+        status: statusOf(occurrence, entry, now),
+        entry,
+      });
+    });
+  });
+  return items.sort((a, b) =>
+    a.occurrence.getTime() - b.occurrence.getTime() || a.reminder.medicineName.localeCompare(b.reminder.medicineName));
+};
+
+const firstDoseTime = (reminder: Reminder) => [...reminder.schedule.times].sort()[0] || '00:00';
+
+// Reminders grouped by the part of day of their first dose time, each group
+// in time order. One taken several times a day is filed under its first dose.
+export const groupByPartOfDay = (reminders: Reminder[]) =>
+  PARTS_OF_DAY.map(part => ({
+    ...part,
+    reminders: reminders
+      .filter(reminder => partOfDay(firstDoseTime(reminder)) === part.value)
+      .sort((a, b) => firstDoseTime(a).localeCompare(firstDoseTime(b)) || a.medicineName.localeCompare(b.medicineName)),
+  })).filter(group => group.reminders.length > 0);
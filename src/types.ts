@@ -0,0 +1,112 @@
+// Shared interfaces for the medicine catalog and reminders
+
+export interface Medicine {
+  id: number;
+  name: string;
+  uses: string[];
+  sideEffects: string[];
+  substitutes: string[];
+  // Catalog id of each entry in `substitutes` (null when it isn't in the
+  // catalog), added by the data pipeline
+  substituteIds?: (number | null)[];
+  "Chemical Class": string;
+  "Habit Forming": string;
+  "Therapeutic Class": string;
+  "Action Class": string;
+}
+
+// Compact catalog entry kept in memory for every medicine; the heavier
+// sideEffects/substitutes lists live in the detail shards
+export type MedicineSummary = Omit<Medicine, 'sideEffects' | 'substitutes' | 'substituteIds'>;
+
+// How often a reminder repeats. Day-based rules fire at every entry in
+// `times`; interval rules fire every N hours starting from the first time.
+export type Recurrence =
+  | { type: 'daily' }
+  | { type: 'weekly'; days: number[] } // 0 = Sunday ... 6 = Saturday
+  | { type: 'everyNDays'; days: number }
+  | { type: 'interval'; hours: number };
+
+export interface Dose {
+  amount: number;
+  unit: string;
+}
+
+// Lowers the dose by `decreaseBy` every `everyDays`; the schedule ends once
+// the dose reaches zero
+export interface Taper {
+  decreaseBy: number;
+  everyDays: number;
+}
+
+export interface ReminderSchedule {
+  times: string[]; // HH:MM, local time
+  recurrence: Recurrence;
+  startDate: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD, inclusive
+  dose?: Dose;
+  taper?: Taper;
+}
+
+export type AgeGroup = 'infant' | 'child' | 'teen' | 'adult' | 'senior';
+
+// A person whose medicines are managed in the app, e.g. a caregiver's
+// parent or child
+export interface Profile {
+  id: number;
+  name: string;
+  ageGroup: AgeGroup;
+  allergies: string[]; // chemical classes or ingredients
+  conditions: string[];
+  pregnant: boolean;
+  avoidHabitForming: boolean;
+  notes: string;
+  favourites: number[]; // medicine ids
+}
+
+export interface RefillLogEntry {
+  date: string; // ISO timestamp
+  amount: number; // units added
+}
+
+// Supply on hand for a reminder, counted in the units of one intake
+// (tablets, ml, ...)
+export interface Inventory {
+  packSize: number;
+  stock: number;
+  perIntake: number; // units used by each dose taken
+  alertDaysBefore: number; // warn this many days before stock runs out
+  // ISO timestamp; the refill alert stays quiet until then
+  alertSnoozedUntil?: string;
+  refills: RefillLogEntry[]; // newest first
+}
+
+export interface Reminder {
+  id: number;
+  profileId: number;
+  medicineName: string;
+  medicineId?: number;
+  schedule: ReminderSchedule;
+  // ISO timestamp of the last occurrence that fired
+  lastTriggered?: string;
+  inventory?: Inventory;
+  // ISO timestamp; a paused reminder doesn't fire until it's resumed
+  pausedAt?: string;
+}
+
+export type DoseStatus = 'pending' | 'taken' | 'skipped' | 'snoozed' | 'missed';
+
+// One fired occurrence of a reminder and what the user did about it
+export interface DoseLogEntry {
+  id: string;
+  reminderId: number;
+  profileId: number;
+  medicineName: string;
+  medicineId?: number;
+  scheduledFor: string; // ISO timestamp of the occurrence
+  status: DoseStatus;
+  dose?: Dose;
+  actedAt?: string;
+  skipReason?: string;
+  snoozedUntil?: string; // end of the latest snooze, kept once the dose is due again
+}
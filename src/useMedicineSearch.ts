@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCatalog } from './catalog';
+import { FacetCounts, FacetFilters } from './facets';
+import { createPagedSearch, SearchPage } from './searchIndex';
+import type { SearchWorkerRequest, SearchWorkerResponse } from './search.worker';
+import { MedicineSummary } from './types';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// How long the search worker is kept after the last page using it goes away,
+// so moving between pages doesn't rebuild the index
+const IDLE_TERMINATE_MS = 30 * 1000;
+
+type RunSearch = (query: string, filters: FacetFilters, offset: number, limit: number) => Promise<SearchPage>;
+
+interface SearchBackend {
+  run: RunSearch;
+  dispose: () => void;
+}
+
+const createInThreadSearch = (medicines: MedicineSummary[]): RunSearch => {
+  let pagedSearch: ReturnType<typeof createPagedSearch> | null = null;
+  return async (query, filters, offset, limit) => {
+    if (!pagedSearch) pagedSearch = createPagedSearch(medicines);
+    return pagedSearch(query, filters, offset, limit);
+  };
+};
+
+// Builds the index in a Web Worker so neither indexing nor searching blocks
+// the UI thread; falls back to the main thread where workers are unavailable
+// or the worker fails
+const createSearchBackend = (medicines: MedicineSummary[]): SearchBackend => {
+  const inThread = createInThreadSearch(medicines);
+  if (typeof Worker === 'undefined') return { run: inThread, dispose: () => {} };
+
+  let worker: Worker | null = new Worker(new URL('./search.worker.ts', import.meta.url));
+  const pending = new Map<number, { resolve: (page: SearchPage) => void; reject: (error: Error) => void }>();
+  let nextRequestId = 0;
+  let isDisposed = false;
+
+  const stop = (error: Error) => {
+    if (worker) worker.terminate();
+    worker = null;
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+  };
+
+  worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+    const { requestId, ...page } = event.data;
+    const request = pending.get(requestId);
+    pending.delete(requestId);
+    if (request) request.resolve(page);
+  };
+  worker.onerror = (event) => {
+    event.preventDefault();
+    stop(new Error(`Search worker failed: ${event.message}`));
+  };
+  worker.onmessageerror = () => stop(new Error('Search worker sent a message that could not be read'));
+  // The worker handles messages in order, so searches queue behind indexing
+  worker.postMessage({ type: 'init', medicines } as SearchWorkerRequest);
+
+  const inWorker: RunSearch = (query, filters, offset, limit) =>
+    new Promise((resolve, reject) => {
+      if (!worker) {
+        reject(new Error('Search worker has stopped'));
+        return;
+      }
+      const requestId = nextRequestId++;
+      pending.set(requestId, { resolve, reject });
+      worker.postMessage({ type: 'search', requestId, query, filters, offset, limit } as SearchWorkerRequest);
+    });
+
+  return {
+    run: (query, filters, offset, limit) => {
+      // A replaced backend's index is stale, so its searches just fail
+      if (isDisposed) return Promise.reject(new Error('Search backend was replaced'));
+      return (worker ? inWorker(query, filters, offset, limit) : inThread(query, filters, offset, limit)).catch(e => {
+        if (isDisposed) throw e;
+        console.error("Failed to search in the worker, searching on the main thread instead:", e);
+        return inThread(query, filters, offset, limit);
+      });
+    },
+    dispose: () => {
+      isDisposed = true;
+      stop(new Error('Search backend was replaced'));
+    },
+  };
+};
+
+// One backend per loaded catalog, shared by every page that searches
+let backend: (SearchBackend & { medicines: MedicineSummary[] }) | null = null;
+let users = 0;
+let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+const getSearchBackend = (medicines: MedicineSummary[]) => {
+  if (!backend || backend.medicines !== medicines) {
+    if (backend) backend.dispose();
+    backend = { medicines, ...createSearchBackend(medicines) };
+  }
+  return backend.run;
+};
+
+// Counts the mounted searches; the worker is terminated once none has been
+// around for a while. Returns the release function for an effect cleanup.
+const retainSearchBackend = () => {
+  users++;
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = null;
+  return () => {
+    users--;
+    if (users > 0) return;
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (backend) backend.dispose();
+      backend = null;
+    }, IDLE_TERMINATE_MS);
+  };
+};
+
+interface SearchState {
+  query: string;
+  filters: FacetFilters;
+  results: MedicineSummary[];
+  total: number;
+  facets: FacetCounts | null;
+}
+
+const EMPTY_SEARCH: SearchState = { query: '', filters: {}, results: [], total: 0, facets: null };
+
+// Searches the catalog by free text and facet filters. An empty query with no
+// filters yields no results but still reports facet counts for the catalog.
+export const useMedicineSearch = (pageSize = DEFAULT_PAGE_SIZE) => {
+  const { medicines, getSummary } = useCatalog();
+  const [state, setState] = useState<SearchState>(EMPTY_SEARCH);
+  const [isSearching, setIsSearching] = useState(false);
+  const latestRequestRef = useRef(0);
+
+  useEffect(() => retainSearchBackend(), []);
+
+  const runPage = useCallback(
+    async (query: string, filters: FacetFilters, offset: number, append: boolean) => {
+      const requestId = ++latestRequestRef.current;
+      setIsSearching(true);
+      let page: SearchPage;
+      try {
+        page = await getSearchBackend(medicines)(query, filters, offset, pageSize);
+      } catch (e) {
+        // Superseded searches fail quietly, e.g. when the backend was replaced
+        if (requestId !== latestRequestRef.current) return;
+        console.error("Failed to search medicines:", e);
+        setIsSearching(false);
+        return;
+      }
+      // Drop responses for queries the user has already typed past
+      if (requestId !== latestRequestRef.current) return;
+      const results = page.ids
+        .map(id => getSummary(id))
+        .filter((medicine): medicine is MedicineSummary => medicine !== undefined);
+      setState(prev => ({
+        query,
+        filters,
+        results: append ? [...prev.results, ...results] : results,
+        total: page.total,
+        facets: page.facets,
+      }));
+      setIsSearching(false);
+    },
+    [medicines, getSummary, pageSize]
+  );
+
+  const search = useCallback(
+    (query: string, filters: FacetFilters = {}) => {
+      if (!medicines.length) return;
+      runPage(query.trim(), filters, 0, false);
+    },
+    [medicines, runPage]
+  );
+
+  const loadMore = useCallback(() => {
+    if (state.results.length < state.total) {
+      runPage(state.query, state.filters, state.results.length, true);
+    }
+  }, [runPage, state]);
+
+  return {
+    query: state.query,
+    results: state.results,
+    total: state.total,
+    facets: state.facets,
+    hasMore: state.results.length < state.total,
+    isSearching,
+    search,
+    loadMore,
+  };
+};
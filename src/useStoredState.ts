@@ -0,0 +1,68 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MessageKey } from './i18n';
+import {
+  CollectionName,
+  loadState,
+  NewerSchemaError,
+  readCollection,
+  StoredState,
+  subscribeToStorageChanges,
+  writeCollection,
+} from './storage';
+
+// Shared so every component waits on the same load
+let statePromise: Promise<StoredState> | null = null;
+
+// Loads the persisted state once; `state` stays null until it's ready
+export const useStoredState = () => {
+  const [state, setState] = useState<StoredState | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!statePromise) statePromise = loadState();
+    statePromise
+      .then(loaded => {
+        if (!cancelled) setState(loaded);
+      })
+      .catch(e => {
+        console.error("Failed to load saved data:", e);
+        statePromise = null;
+        if (cancelled) return;
+        setError(e instanceof NewerSchemaError ? 'storage.newerVersion' : 'storage.loadFailed');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { state, error };
+};
+
+// State for one stored collection: local changes are written back as they
+// happen, and changes made in other tabs are loaded in
+export const useStoredCollection = <K extends CollectionName>(name: K, initial: StoredState[K]) => {
+  const [items, setItems] = useState<StoredState[K]>(initial);
+  // Last version known to match storage, so writes only send the difference
+  // and data that just came from another tab isn't written straight back
+  const persisted = useRef(initial);
+
+  useEffect(() => {
+    if (items === persisted.current) return;
+    const previous = persisted.current;
+    persisted.current = items;
+    writeCollection(name, previous, items).catch(e => console.error(`Failed to save ${name}:`, e));
+  }, [name, items]);
+
+  useEffect(() => subscribeToStorageChanges(collection => {
+    if (collection !== name) return;
+    readCollection(name)
+      .then(fresh => {
+        persisted.current = fresh;
+        setItems(fresh);
+      })
+      .catch(e => console.error(`Failed to reload ${name}:`, e));
+  }), [name]);
+
+  return [items, setItems] as [StoredState[K], React.Dispatch<React.SetStateAction<StoredState[K]>>];
+};
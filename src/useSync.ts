@@ -0,0 +1,144 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { MessageKey } from './i18n';
+import { CollectionName, COLLECTIONS, readEditTimes, StoredState } from './storage';
+import {
+  applyRemoteOperations,
+  mergeDefaultProfile,
+  planDefaultProfileMerge,
+  ProfileMerge,
+  readSyncSession,
+  readSyncState,
+  signIn as requestSignIn,
+  signOut as forgetSession,
+  syncCollection,
+  SyncRequestError,
+  SyncSession,
+  SyncState,
+  writeSyncState,
+} from './sync';
+
+// Local edits are sent after this quiet period, so a burst of changes goes
+// out in one pass
+const PUSH_DELAY_MS = 2000;
+// Changes from other devices are picked up this often while the app is open
+const PULL_INTERVAL_MS = 60 * 1000;
+
+export type SyncStatus = 'signedOut' | 'syncing' | 'synced' | 'offline' | 'error';
+
+type CollectionState<K extends CollectionName> = [StoredState[K], React.Dispatch<React.SetStateAction<StoredState[K]>>];
+export type SyncedCollections = { [K in CollectionName]: CollectionState<K> };
+
+// Keeps the stored collections in step with the sync server while signed in.
+// Collections still live in IndexedDB, so the app works the same offline and
+// catches up on the next pass.
+export const useSync = (collections: SyncedCollections) => {
+  const [session, setSession] = useState<SyncSession | null>(readSyncSession);
+  const [status, setStatus] = useState<SyncStatus>(session ? 'syncing' : 'signedOut');
+  const [lastSyncedAt, setLastSyncedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const latest = useRef(collections);
+  latest.current = collections;
+  const isRunning = useRef(false);
+  const runAgain = useRef(false);
+
+  const syncOne = async <K extends CollectionName>(current: SyncSession, name: K, state: SyncState, merge: ProfileMerge | null) => {
+    const [latestItems, setItems] = latest.current[name] as CollectionState<K>;
+    const items = merge ? mergeDefaultProfile(name, latestItems, merge) : latestItems;
+    if (merge) setItems(prev => mergeDefaultProfile(name, prev, merge));
+    const editTimes = await readEditTimes(name);
+    const operations = await syncCollection(current, name, items, state.collections[name], editTimes, new Date());
+    if (operations.length) setItems(prev => applyRemoteOperations(prev, operations));
+  };
+
+  const currentItems = (): StoredState => ({
+    profiles: latest.current.profiles[0],
+    reminders: latest.current.reminders[0],
+    doseLog: latest.current.doseLog[0],
+  });
+
+  const syncNow = useCallback(async () => {
+    if (!session) return;
+    // One pass at a time; changes made meanwhile get a pass of their own
+    if (isRunning.current) {
+      runAgain.current = true;
+      return;
+    }
+    isRunning.current = true;
+    setStatus('syncing');
+    try {
+      do {
+        runAgain.current = false;
+        const state = await readSyncState(session);
+        const merge = await planDefaultProfileMerge(session, state, currentItems());
+        try {
+          for (const name of COLLECTIONS) await syncOne(session, name, state, merge);
+        } finally {
+          // Keep what the server already accepted even when a later request failed
+          await writeSyncState(state);
+        }
+      } while (runAgain.current);
+      setStatus('synced');
+      setLastSyncedAt(new Date());
+      setError(null);
+    } catch (e) {
+      if (e instanceof SyncRequestError && e.status === 401) {
+        await forgetSession();
+        setSession(null);
+        setStatus('signedOut');
+        setError('sync.sessionExpired');
+      } else if (!navigator.onLine) {
+        setStatus('offline');
+      } else {
+        console.error("Failed to sync:", e);
+        setStatus('error');
+        setError('sync.unreachable');
+      }
+    } finally {
+      isRunning.current = false;
+    }
+  }, [session]);
+
+  const { profiles: [profiles], reminders: [reminders], doseLog: [doseLog] } = collections;
+
+  // Push local edits (and pull) shortly after anything changes
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(syncNow, PUSH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, syncNow, profiles, reminders, doseLog]);
+
+  // Pull regularly, and straight away when the connection or the tab comes back
+  useEffect(() => {
+    if (!session) return;
+    const interval = setInterval(syncNow, PULL_INTERVAL_MS);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') syncNow();
+    };
+    window.addEventListener('online', syncNow);
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', syncNow);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
+  }, [session, syncNow]);
+
+  const signIn = async (serverUrl: string, username: string, password: string) => {
+    setError(null);
+    const next = await requestSignIn(serverUrl, username, password);
+    setStatus('syncing');
+    setSession(next);
+  };
+
+  const signOut = async () => {
+    await forgetSession();
+    setSession(null);
+    setStatus('signedOut');
+    setLastSyncedAt(null);
+    setError(null);
+  };
+
+  return { session, status, lastSyncedAt, error, signIn, signOut, syncNow };
+};
+
+export type SyncController = ReturnType<typeof useSync>;
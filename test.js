@@ -0,0 +1,24 @@
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+// Runs every *.test.ts under the directories below with Node's test runner.
+// The files are loaded through pipeline/register.js, so no build is needed.
+// Usage: node test.js
+const TEST_DIRS = ['pipeline', 'server', 'src'];
+
+const testFiles = TEST_DIRS.flatMap((dir) =>
+    fs.readdirSync(path.join(__dirname, dir))
+        .filter((file) => file.endsWith('.test.ts'))
+        .map((file) => path.join(dir, file))
+);
+
+const { status, error } = spawnSync(
+    process.execPath,
+    ['-r', path.join(__dirname, 'pipeline', 'register.js'), '--test', ...testFiles],
+    { cwd: __dirname, stdio: 'inherit' }
+);
+if (error) {
+    console.error('Failed to start the test runner:', error);
+}
+process.exit(status === null ? 1 : status);
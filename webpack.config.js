@@ -46,6 +46,8 @@ module.exports = {
       directory: path.join(__dirname, 'public'),
     },
     compress: true,
+    // Serve index.html for client-side routes such as /medicine/:id
+    historyApiFallback: true,
     port: 'auto',
     open: true,
   },